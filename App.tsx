@@ -1,96 +1,394 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { HashAlgorithm, BatchItem, HistoryEntry, HammingResult, AdditiveOptions } from './types';
-import { calculateChecksum, Hamming } from './utils/hashUtils';
-import { getIntegrityInsight } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { 
+  HashAlgorithm, AlgorithmId, AlgorithmParams, AuditDetails, AuditRecord, BatchItem, HistoryEntry, 
+  PayloadEncoding, BinaryPayload, Manifest, ManifestFormat, ChannelOptions, MacOptions, VerificationBundle,
+  InsightOptions, InsightReport
+} from './types';
+import { calculateChecksum, describeAlgorithm, getChecksumWidth } from './utils/hashUtils';
+import { hasAlgorithm, paramsToAdditiveOptions, resolveParams } from './utils/registry';
+import { verifyAdditiveZeroSum } from './utils/sums';
+import { hashFile, downloadText, relativePath } from './utils/fileUtils';
+import { PIECE_SIZES, describeRange, hashPieces, locateCorruption } from './utils/pieces';
+import { applyManifest, formatManifest, manifestFileName, parseManifest, verifyChecksum } from './utils/manifest';
+import { decodePayload, encodePayload, isTextEncoding, resolvePayload, toHexDump } from './utils/encoding';
+import { DEFAULT_CHANNEL_OPTIONS, describeChannel, describeChannelReport, transmitThroughChannel } from './utils/channel';
+import { DEFAULT_MAC_OPTIONS, computeMac, describeMac, tagsMatch } from './utils/mac';
+import { bundlePayload, isBundleFragment, parseBundle } from './utils/bundle';
+import { appendAuditRecord, clearAuditLog, importLegacyHistory, listAuditRecords, sha256Hex } from './utils/auditLog';
+import PayloadEncodingBar from './components/PayloadEncodingBar';
+import BitCorrectionLab from './components/BitCorrectionLab';
+import ReedSolomonLab from './components/ReedSolomonLab';
+import ChannelControls from './components/ChannelControls';
+import MacControls from './components/MacControls';
+import ForgePanel from './components/ForgePanel';
+import BundleExport from './components/BundleExport';
+import BundleImport from './components/BundleImport';
+import ByteDiffPanel from './components/ByteDiffPanel';
+import ExperimentRunner from './components/ExperimentRunner';
+import ArqSimulator from './components/ArqSimulator';
+import RevEngPanel from './components/RevEngPanel';
+import ErrorAnalyzer from './components/ErrorAnalyzer';
+import SelfTestPanel from './components/SelfTestPanel';
+import SnapshotPanel from './components/SnapshotPanel';
+import AlgorithmSettings from './components/AlgorithmSettings';
+import AlgorithmTrace from './components/AlgorithmTrace';
+import InsightControls from './components/InsightControls';
+import InsightReportPanel from './components/InsightReportPanel';
+import AuditLogPanel from './components/AuditLogPanel';
+import { DEFAULT_INSIGHT_OPTIONS, getIntegrityInsight } from './services/insightService';
 import { 
   ShieldCheck, ArrowRight, RefreshCcw, AlertCircle, CheckCircle2, 
-  Info, ChevronRight, Database, Lock, Cpu, Files, Activity, Settings, 
-  Trash2, Upload, Binary, Terminal, History as HistoryIcon, X, SlidersHorizontal
+  ChevronRight, Database, Lock, Cpu, Files, Activity, Settings, 
+  Upload, Binary, Layers, FlaskConical, ScanSearch, Stethoscope, History as HistoryIcon, X, SlidersHorizontal, FileCheck, Download, KeyRound, FolderOpen, Sigma, Repeat, SearchCode
 } from 'lucide-react';
 
+const toHex = (value: number) => (value >>> 0).toString(16).toUpperCase();
+
+/**
+ * Converts the per-family settings saved by earlier versions into registry params.
+ */
+function migrateLegacyParams(): Record<AlgorithmId, AlgorithmParams> {
+  const read = (key: string) => {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  };
+  const migrated: Record<AlgorithmId, AlgorithmParams> = {};
+  const additive = read('additive_params');
+  if (additive) migrated[HashAlgorithm.ADDITIVE] = { bitWidth: additive.bitWidth, initialValue: toHex(additive.initialValue) };
+  const crc = read('crc_params');
+  if (crc) migrated[HashAlgorithm.CRC_CUSTOM] = crc;
+  const internet = read('internet_params');
+  if (internet) migrated[HashAlgorithm.INTERNET] = { initialValue: toHex(internet.initialValue), complement: internet.complement };
+  for (const [algo, options] of Object.entries<{ initialA: number; initialB: number }>(read('fletcher_params') || {})) {
+    migrated[algo] = { initialA: toHex(options.initialA), initialB: toHex(options.initialB) };
+  }
+  return migrated;
+}
+
+// The shared secret stays in memory only; persisting it would leave it readable by any script on the origin
+const storeMacOptions = ({ enabled, algorithm, keyEncoding }: MacOptions) => {
+  localStorage.setItem('mac_params', JSON.stringify({ enabled, algorithm, keyEncoding }));
+};
+
 const App: React.FC = () => {
   // Navigation & UI
-  const [activeTab, setActiveTab] = useState<'single' | 'batch' | 'hamming'>('single');
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [activeTab, setActiveTab] = useState<'single' | 'batch' | 'hamming' | 'reed-solomon' | 'experiments' | 'arq' | 'reveng' | 'analysis' | 'diagnostics'>('single');
+  const [history, setHistory] = useState<AuditRecord[]>([]);
   const [showHistory, setShowHistory] = useState(false);
 
-  // Configuration State for Additive Checksum
-  const [additiveOptions, setAdditiveOptions] = useState<AdditiveOptions>({
-    bitWidth: 16,
-    initialValue: 0
-  });
+  // Checksum configuration; params are kept per algorithm so switching back restores them
+  const [algorithm, setAlgorithm] = useState<AlgorithmId>(HashAlgorithm.ADDITIVE);
+  const [algorithmParams, setAlgorithmParams] = useState<Record<AlgorithmId, AlgorithmParams>>({});
+  const [channelOptions, setChannelOptions] = useState<ChannelOptions>(DEFAULT_CHANNEL_OPTIONS);
+  const [macOptions, setMacOptions] = useState<MacOptions>(DEFAULT_MAC_OPTIONS);
 
   // Single Side State
   const [senderData, setSenderData] = useState<string>("Hello Integrity World!");
+  const [senderEncoding, setSenderEncoding] = useState<PayloadEncoding>('utf8');
+  const [senderBinary, setSenderBinary] = useState<BinaryPayload | null>(null);
   const [senderChecksum, setSenderChecksum] = useState<string>("");
   const [receiverData, setReceiverData] = useState<string>("Hello Integrity World!");
+  const [receiverEncoding, setReceiverEncoding] = useState<PayloadEncoding>('utf8');
+  const [receiverBinary, setReceiverBinary] = useState<BinaryPayload | null>(null);
   const [receiverReceivedChecksum, setReceiverReceivedChecksum] = useState<string>("");
   const [receiverCalculatedChecksum, setReceiverCalculatedChecksum] = useState<string>("");
+  // Authentication tags travel next to the checksum but are verified separately
+  const [senderTag, setSenderTag] = useState<string>("");
+  const [receiverReceivedTag, setReceiverReceivedTag] = useState<string>("");
+  const [receiverCalculatedTag, setReceiverCalculatedTag] = useState<string>("");
+  const [macError, setMacError] = useState<string | null>(null);
+  // Set when the receiver verifies against a bundle exported on another machine
+  const [importedBundle, setImportedBundle] = useState<VerificationBundle | null>(null);
+  const [bundleError, setBundleError] = useState<string | null>(null);
 
   // Batch State
   const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+  const [manifest, setManifest] = useState<Manifest | null>(null);
+  const [exportFormat, setExportFormat] = useState<ManifestFormat>('gnu');
+  const [batchNotice, setBatchNotice] = useState<string | null>(null);
+  // 0 hashes whole files; otherwise files are also hashed piece by piece to locate damage
+  const [pieceSize, setPieceSize] = useState<number>(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Hamming State
-  const [hammingInput, setHammingInput] = useState<string>("1011");
-  const [hammingResult, setHammingResult] = useState<HammingResult | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const manifestInputRef = useRef<HTMLInputElement>(null);
 
   // AI State
-  const [aiInsight, setAiInsight] = useState<string>("");
+  const [insightReport, setInsightReport] = useState<InsightReport | null>(null);
+  const [insightOptions, setInsightOptions] = useState<InsightOptions>(DEFAULT_INSIGHT_OPTIONS);
   const [isAiLoading, setIsAiLoading] = useState<boolean>(false);
 
   // --- Effects & Logic ---
 
   useEffect(() => {
-    const saved = localStorage.getItem('integrity_history');
-    if (saved) setHistory(JSON.parse(saved));
+    importLegacyHistory()
+      .then(listAuditRecords)
+      .then(setHistory)
+      .catch(e => console.error("Failed to load the audit log", e));
     
-    const savedOptions = localStorage.getItem('additive_params');
-    if (savedOptions) {
+    const savedAlgorithm = localStorage.getItem('hash_algorithm');
+    if (savedAlgorithm && hasAlgorithm(savedAlgorithm)) {
+      setAlgorithm(savedAlgorithm);
+    }
+
+    try {
+      const savedParams = localStorage.getItem('algorithm_params');
+      setAlgorithmParams(savedParams ? JSON.parse(savedParams) : migrateLegacyParams());
+    } catch (e) {
+      console.error("Failed to parse saved algorithm params", e);
+    }
+
+    const savedChannel = localStorage.getItem('channel_params');
+    if (savedChannel) {
       try {
-        setAdditiveOptions(JSON.parse(savedOptions));
+        setChannelOptions({ ...DEFAULT_CHANNEL_OPTIONS, ...JSON.parse(savedChannel) });
       } catch (e) {
-        console.error("Failed to parse saved options", e);
+        console.error("Failed to parse saved channel model", e);
+      }
+    }
+
+    const savedMac = localStorage.getItem('mac_params');
+    if (savedMac) {
+      try {
+        const restored: MacOptions = { ...DEFAULT_MAC_OPTIONS, ...JSON.parse(savedMac), key: DEFAULT_MAC_OPTIONS.key };
+        setMacOptions(restored);
+        // Scrub keys saved by earlier versions
+        storeMacOptions(restored);
+      } catch (e) {
+        console.error("Failed to parse saved MAC settings", e);
+      }
+    }
+
+    const savedInsight = localStorage.getItem('insight_params');
+    if (savedInsight) {
+      try {
+        setInsightOptions({ ...DEFAULT_INSIGHT_OPTIONS, ...JSON.parse(savedInsight) });
+      } catch (e) {
+        console.error("Failed to parse saved insight settings", e);
       }
     }
   }, []);
 
-  const saveAdditiveOptions = (opts: AdditiveOptions) => {
-    setAdditiveOptions(opts);
-    localStorage.setItem('additive_params', JSON.stringify(opts));
+  const saveAlgorithm = (algo: AlgorithmId) => {
+    setAlgorithm(algo);
+    localStorage.setItem('hash_algorithm', algo);
   };
 
-  const addToHistory = (entry: Omit<HistoryEntry, 'id' | 'timestamp'>) => {
-    const newEntry = { ...entry, id: Math.random().toString(36), timestamp: Date.now() };
-    const updated = [newEntry, ...history].slice(0, 50);
-    setHistory(updated);
-    localStorage.setItem('integrity_history', JSON.stringify(updated));
+  const saveAlgorithmParams = (algo: AlgorithmId, params: AlgorithmParams) => {
+    setAlgorithmParams(prev => {
+      const updated = { ...prev, [algo]: params };
+      localStorage.setItem('algorithm_params', JSON.stringify(updated));
+      return updated;
+    });
+  };
+
+  const saveChannelOptions = (opts: ChannelOptions) => {
+    setChannelOptions(opts);
+    localStorage.setItem('channel_params', JSON.stringify(opts));
+  };
+
+  const saveMacOptions = (opts: MacOptions) => {
+    setMacOptions(opts);
+    storeMacOptions(opts);
+  };
+
+  const saveInsightOptions = (opts: InsightOptions) => {
+    setInsightOptions(opts);
+    localStorage.setItem('insight_params', JSON.stringify(opts));
+  };
+
+  const params = useMemo(() => resolveParams(algorithm, algorithmParams[algorithm]), [algorithm, algorithmParams]);
+  const algorithmLabel = describeAlgorithm(algorithm, params);
+  // Long digests would overflow the terminal displays at the default size
+  const checksumTextSize = getChecksumWidth(algorithm, params) > 64 ? 'text-xl tracking-[0.05em]' : 'text-5xl tracking-[0.2em]';
+
+  const addToHistory = (entry: Omit<HistoryEntry, 'id' | 'timestamp'>, details?: AuditDetails) => {
+    appendAuditRecord(entry, details)
+      .then(record => setHistory(prev => (prev.some(r => r.seq === record.seq) ? prev : [...prev, record])))
+      .catch(e => console.error("Failed to write the audit log", e));
+  };
+
+  const clearHistory = () => {
+    clearAuditLog()
+      .then(listAuditRecords)
+      .then(setHistory)
+      .catch(e => console.error("Failed to clear the audit log", e));
+  };
+
+  // Audit details for a terminal transfer: what was sent, what arrived and how it checksums
+  const transferDetails = async (delivered: Uint8Array): Promise<AuditDetails> => ({
+    algorithmId: algorithm,
+    params,
+    inputLength: delivered.length,
+    inputDigest: await sha256Hex(delivered),
+    expected: senderChecksum,
+    computed: await calculateChecksum(delivered, algorithm, params),
+    notes: { senderDigest: await sha256Hex(senderPayload.bytes), channel: describeChannel(channelOptions), mac: macOptions.enabled ? macOptions.algorithm : 'off' },
+  });
+
+  const senderPayload = useMemo(
+    () => resolvePayload(senderData, senderEncoding, senderBinary),
+    [senderData, senderEncoding, senderBinary]
+  );
+  const receiverPayload = useMemo(
+    () => resolvePayload(receiverData, receiverEncoding, receiverBinary),
+    [receiverData, receiverEncoding, receiverBinary]
+  );
+
+  // Switching between text encodings keeps the characters (re-encoding them);
+  // switching to or from hex, Base64 or binary keeps the bytes instead
+  const changeEncoding = (
+    current: PayloadEncoding,
+    payload: { bytes: Uint8Array; error: string | null },
+    next: PayloadEncoding,
+    setText: (text: string) => void,
+    setBinary: (binary: BinaryPayload | null) => void,
+    setEncoding: (encoding: PayloadEncoding) => void
+  ) => {
+    if (!(isTextEncoding(current) && isTextEncoding(next)) && !payload.error) {
+      if (next === 'binary') {
+        setBinary({ name: 'payload.bin', bytes: payload.bytes });
+      } else {
+        try {
+          setText(encodePayload(payload.bytes, next));
+        } catch (e) {
+          console.warn(`Payload kept as typed: ${e instanceof Error ? e.message : e}`);
+        }
+      }
+    }
+    setEncoding(next);
   };
 
   const updateSenderChecksum = useCallback(async () => {
-    const result = await calculateChecksum(senderData, HashAlgorithm.ADDITIVE, additiveOptions);
+    const result = await calculateChecksum(senderPayload.bytes, algorithm, params);
     setSenderChecksum(result);
-  }, [senderData, additiveOptions]);
+  }, [senderPayload, algorithm, params]);
 
   const updateReceiverChecksum = useCallback(async () => {
-    const result = await calculateChecksum(receiverData, HashAlgorithm.ADDITIVE, additiveOptions);
+    const result = await calculateChecksum(receiverPayload.bytes, algorithm, params);
     setReceiverCalculatedChecksum(result);
-  }, [receiverData, additiveOptions]);
+  }, [receiverPayload, algorithm, params]);
 
   useEffect(() => { updateSenderChecksum(); }, [updateSenderChecksum]);
   useEffect(() => { updateReceiverChecksum(); }, [updateReceiverChecksum]);
 
+  useEffect(() => {
+    if (!macOptions.enabled) {
+      setMacError(null);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([computeMac(senderPayload.bytes, macOptions), computeMac(receiverPayload.bytes, macOptions)])
+      .then(([sent, received]) => {
+        if (cancelled) return;
+        setSenderTag(sent);
+        setReceiverCalculatedTag(received);
+        setMacError(null);
+      })
+      .catch(e => {
+        if (cancelled) return;
+        setSenderTag('');
+        setReceiverCalculatedTag('');
+        setMacError(e instanceof Error ? e.message : String(e));
+      });
+    return () => { cancelled = true; };
+  }, [senderPayload, receiverPayload, macOptions]);
+
+  // Shows altered bytes on the receiver in the sender's encoding where they still fit it
+  const showOnReceiver = (bytes: Uint8Array, encoding: PayloadEncoding = senderEncoding, name: string | undefined = senderBinary?.name) => {
+    if (encoding === 'binary') {
+      setReceiverEncoding('binary');
+      setReceiverBinary({ name: name || 'payload.bin', bytes });
+      return;
+    }
+    // Damaged text may no longer be valid in its encoding; fall back to hex so no byte is lost
+    let text: string | null = null;
+    try {
+      const candidate = encodePayload(bytes, encoding);
+      const roundTrip = decodePayload(candidate, encoding);
+      if (roundTrip.length === bytes.length && roundTrip.every((b, i) => b === bytes[i])) text = candidate;
+    } catch {
+      text = null;
+    }
+    setReceiverEncoding(text === null ? 'hex' : encoding);
+    setReceiverData(text === null ? encodePayload(bytes, 'hex') : text);
+  };
+
+  // Only functional state updates here: this also runs from the mount-time fragment listener
+  const importBundle = (bundle: VerificationBundle) => {
+    saveAlgorithm(bundle.algorithm);
+    saveAlgorithmParams(bundle.algorithm, bundle.params);
+    setReceiverReceivedChecksum(bundle.checksum);
+    const payload = bundlePayload(bundle);
+    if (payload && bundle.payload) showOnReceiver(payload, bundle.payload.encoding, bundle.payload.name);
+    if (bundle.mac) {
+      const algorithm = bundle.mac.algorithm;
+      setMacOptions(prev => {
+        const updated = { ...prev, enabled: true, algorithm };
+        storeMacOptions(updated);
+        return updated;
+      });
+    }
+    setReceiverReceivedTag(bundle.mac?.tag || '');
+    setImportedBundle(bundle);
+    setBundleError(null);
+    setActiveTab('single');
+    addToHistory(
+      { algorithm: describeAlgorithm(bundle.algorithm, bundle.params), type: 'single', result: 'info', summary: `Imported bundle: ${bundle.checksum}${bundle.payload ? ' with payload' : ''}` },
+      { algorithmId: bundle.algorithm, params: bundle.params, expected: bundle.checksum, notes: { createdAt: bundle.createdAt } }
+    );
+  };
+
+  // Bundle links carry everything in the fragment; read it on load and whenever it changes
+  useEffect(() => {
+    const readFragment = () => {
+      if (!isBundleFragment(window.location.hash)) return;
+      try {
+        importBundle(parseBundle(window.location.hash));
+      } catch (e) {
+        setBundleError(e instanceof Error ? e.message : String(e));
+      }
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    };
+    readFragment();
+    window.addEventListener('hashchange', readFragment);
+    return () => window.removeEventListener('hashchange', readFragment);
+  }, []);
+
   // Transmit logic
-  const transmit = () => {
-    setReceiverData(senderData);
+  const transmit = async () => {
+    const { bytes, report } = transmitThroughChannel(senderPayload.bytes, channelOptions);
+    const damaged = bytes.length !== senderPayload.bytes.length || bytes.some((b, i) => b !== senderPayload.bytes[i]);
+    if (!damaged || senderPayload.error) {
+      setReceiverData(senderData);
+      setReceiverEncoding(senderEncoding);
+      setReceiverBinary(senderBinary ? { ...senderBinary, bytes: senderBinary.bytes.slice() } : null);
+    } else {
+      showOnReceiver(bytes);
+    }
     setReceiverReceivedChecksum(senderChecksum);
+    setReceiverReceivedTag(macOptions.enabled ? senderTag : '');
+    const macNote = macOptions.enabled && senderTag ? ` + ${describeMac(macOptions.algorithm)} tag` : '';
+    const channelNote = channelOptions.model === 'clean' ? '' : ` via ${describeChannel(channelOptions)} (${describeChannelReport(report)})`;
+    const details = await transferDetails(bytes);
     addToHistory({ 
-      algorithm: `Additive (${additiveOptions.bitWidth}-bit)`, 
+      algorithm: algorithmLabel, 
       type: 'single', 
-      result: 'info', 
-      summary: `Transmitted: ${senderData.substring(0, 20)}...` 
-    });
+      result: details.computed === details.expected ? 'match' : 'mismatch', 
+      summary: (senderEncoding === 'binary'
+        ? `Transmitted: ${senderBinary?.name || 'binary'} (${senderPayload.bytes.length} bytes)`
+        : `Transmitted: ${senderData.substring(0, 20)}...`) + macNote + channelNote
+    }, details);
+  };
+
+  // The forger keeps the sender's checksum and tag; only the message changes
+  const deliverForgery = async (bytes: Uint8Array, summary: string) => {
+    showOnReceiver(bytes);
+    setReceiverReceivedChecksum(senderChecksum);
+    setReceiverReceivedTag(macOptions.enabled ? senderTag : '');
+    const details = await transferDetails(bytes);
+    addToHistory({ algorithm: algorithmLabel, type: 'single', result: details.computed === details.expected ? 'match' : 'mismatch', summary }, details);
   };
 
   // Batch Logic
@@ -98,62 +396,131 @@ const App: React.FC = () => {
     const files = Array.from(e.target.files || []) as File[];
     const newItems: BatchItem[] = files.map(file => ({
       id: Math.random().toString(36),
-      name: file.name,
+      name: relativePath(file),
       size: file.size,
-      data: '',
+      file,
+      bytesProcessed: 0,
       status: 'pending'
     }));
-    setBatchItems(prev => [...prev, ...newItems]);
+    setBatchItems(prev => applyManifest([...prev, ...newItems], manifest));
+    // Allow the same file to be picked again after it has been queued
+    e.target.value = '';
+  };
+
+  const handleManifestUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const parsed = parseManifest(await file.text(), file.name, algorithm);
+    setManifest(parsed);
+    setBatchItems(prev => applyManifest(prev, parsed));
+    setBatchNotice(parsed.errors.length > 0 ? `${parsed.errors.length} manifest line(s) skipped: ${parsed.errors[0]}` : null);
+  };
+
+  const clearManifest = () => {
+    setManifest(null);
+    setBatchItems(prev => applyManifest(prev, null));
+    setBatchNotice(null);
+  };
+
+  const exportManifest = () => {
+    try {
+      downloadText(manifestFileName(batchItems, exportFormat), formatManifest(batchItems, exportFormat));
+      setBatchNotice(null);
+    } catch (e) {
+      setBatchNotice(e instanceof Error ? e.message : String(e));
+    }
   };
 
   const processBatch = async () => {
+    if (isBatchRunning) return;
+    setIsBatchRunning(true);
     const updated = [...batchItems];
     for (let item of updated) {
-      if (item.status === 'completed') continue;
+      if (item.status === 'completed' || !item.file) continue;
       item.status = 'processing';
+      item.bytesProcessed = 0;
+      item.error = undefined;
+      // A manifest entry dictates the algorithm; anything else, failed retries included, uses the current selection
+      if (!item.expected || !item.algorithm) item.algorithm = algorithm;
+      item.params = resolveParams(item.algorithm, algorithmParams[item.algorithm]);
       setBatchItems([...updated]);
-      await new Promise(r => setTimeout(r, 400));
-      item.checksum = await calculateChecksum(item.name + item.size, HashAlgorithm.ADDITIVE, additiveOptions);
-      item.status = 'completed';
+      item.corruptRanges = undefined;
+      const onProgress = (bytesProcessed: number) => {
+        item.bytesProcessed = bytesProcessed;
+        setBatchItems([...updated]);
+      };
+      try {
+        // A piece manifest dictates the piece size so the lists line up
+        const size = item.expectedPieces?.size || pieceSize;
+        if (size > 0) {
+          const result = await hashPieces(item.file, item.algorithm, item.params, size, onProgress);
+          item.checksum = result.checksum;
+          item.pieces = result.pieces;
+        } else {
+          item.checksum = await hashFile(item.file, item.algorithm, item.params, onProgress);
+          item.pieces = undefined;
+        }
+        item.status = 'completed';
+        if (item.expected) item.verification = verifyChecksum(item.checksum, item.expected);
+        if (item.verification === 'failed' && item.expectedPieces && item.pieces) item.corruptRanges = locateCorruption(item.expectedPieces, item.pieces);
+      } catch (e) {
+        console.error(`Failed to read ${item.name}`, e);
+        item.status = 'failed';
+        item.error = e instanceof Error ? e.message : String(e);
+      }
       setBatchItems([...updated]);
     }
+    setIsBatchRunning(false);
+    // Each item is logged with the settings it was actually hashed with, which may predate the current selection
+    const configs = updated.map(item => ({ algorithmId: item.algorithm, params: item.params }));
+    const hashed = configs.filter(config => config.algorithmId && config.params);
+    const sameConfig = (a: typeof configs[number], b: typeof configs[number]) => a.algorithmId === b.algorithmId && JSON.stringify(a.params) === JSON.stringify(b.params);
+    const shared = hashed.length > 0 && hashed.every(config => sameConfig(config, hashed[0])) ? hashed[0] : null;
+    const details: AuditDetails = {
+      algorithmId: shared?.algorithmId,
+      params: shared?.params,
+      items: updated.map((item, i) => ({
+        ...configs[i],
+        name: item.name,
+        expected: item.expected,
+        computed: item.checksum,
+        result: item.corruptRanges ? `corrupt ${item.corruptRanges.map(range => `${range.start}-${range.end - 1}`).join(', ')}` : item.verification || item.status
+      })),
+    };
+    if (manifest) {
+      const count = (v: BatchItem['verification']) => updated.filter(item => item.verification === v).length;
+      const failed = count('failed') + count('missing');
+      addToHistory({
+        algorithm: manifest.entries[0]?.algorithm || algorithmLabel,
+        type: 'batch',
+        result: failed === 0 ? 'match' : 'mismatch',
+        summary: `Verified against ${manifest.name}: ${count('ok')} OK, ${count('failed')} FAILED, ${count('missing')} MISSING.`
+      }, details);
+      return;
+    }
     addToHistory({
-      algorithm: `Additive (${additiveOptions.bitWidth}-bit)`,
+      algorithm: shared ? describeAlgorithm(shared.algorithmId!, shared.params) : 'Mixed algorithms',
       type: 'batch',
       result: 'info',
       summary: `Batch processed ${batchItems.length} files.`
-    });
-  };
-
-  // Hamming Logic
-  const runHamming = () => {
-    if (hammingInput.length !== 4) return;
-    const encoded = Hamming.encode(hammingInput);
-    setHammingResult({
-      original: hammingInput,
-      encoded,
-      received: encoded,
-      corrected: hammingInput,
-      errorPosition: null
-    });
-  };
-
-  const flipBit = (index: number) => {
-    if (!hammingResult) return;
-    const bits = hammingResult.received.split('');
-    bits[index] = bits[index] === '0' ? '1' : '0';
-    const newReceived = bits.join('');
-    const { corrected, errorPos } = Hamming.decode(newReceived);
-    setHammingResult({
-      ...hammingResult,
-      received: newReceived,
-      corrected,
-      errorPosition: errorPos
-    });
+    }, details);
   };
 
   const isMatch = receiverCalculatedChecksum !== "" && receiverCalculatedChecksum === receiverReceivedChecksum;
   const isMismatch = receiverCalculatedChecksum !== "" && receiverReceivedChecksum !== "" && receiverCalculatedChecksum !== receiverReceivedChecksum;
+  // Negated additive sums are also checked the protocol way: data plus checksum must total zero
+  const zeroSum = useMemo(() => {
+    if (algorithm !== HashAlgorithm.ADDITIVE || !params.negate || !receiverReceivedChecksum) return null;
+    try {
+      return verifyAdditiveZeroSum(receiverPayload.bytes, receiverReceivedChecksum, paramsToAdditiveOptions(params));
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [algorithm, params, receiverPayload.bytes, receiverReceivedChecksum]);
+  const authState = !macOptions.enabled || !receiverReceivedTag || !receiverCalculatedTag
+    ? null
+    : tagsMatch(receiverReceivedTag, receiverCalculatedTag) ? 'authentic' : 'forged';
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 flex flex-col">
@@ -175,7 +542,13 @@ const App: React.FC = () => {
             {[
               { id: 'single', label: 'Direct Transfer', icon: ArrowRight },
               { id: 'batch', label: 'Bulk Calculation', icon: Files },
-              { id: 'hamming', label: 'Bit Correction', icon: Binary }
+              { id: 'hamming', label: 'Bit Correction', icon: Binary },
+              { id: 'reed-solomon', label: 'Burst Correction', icon: Layers },
+              { id: 'experiments', label: 'Experiments', icon: FlaskConical },
+              { id: 'arq', label: 'ARQ Link', icon: Repeat },
+              { id: 'reveng', label: 'Identify', icon: SearchCode },
+              { id: 'analysis', label: 'Blind Spots', icon: ScanSearch },
+              { id: 'diagnostics', label: 'Self-Test', icon: Stethoscope }
             ].map(tab => (
               <button
                 key={tab.id}
@@ -200,12 +573,18 @@ const App: React.FC = () => {
               <HistoryIcon size={24} />
               {history.length > 0 && <span className="absolute top-2.5 right-2.5 w-3 h-3 bg-indigo-500 rounded-full border-2 border-white animate-pulse"></span>}
             </button>
+            <InsightControls options={insightOptions} onChange={saveInsightOptions} />
             <button 
               onClick={async () => {
                 setIsAiLoading(true);
-                const insight = await getIntegrityInsight(senderData || "Additive Context", `Additive Checksum with ${additiveOptions.bitWidth}-bit width`);
-                setAiInsight(insight);
-                setIsAiLoading(false);
+                try {
+                  setInsightReport(await getIntegrityInsight({ algorithm, params, label: algorithmLabel, payload: senderPayload.bytes }, insightOptions));
+                } catch (e) {
+                  console.error("Insight analysis failed", e);
+                  setInsightReport({ provider: 'Offline engine', summary: 'The analysis could not be completed.', sections: [], notice: e instanceof Error ? e.message : String(e) });
+                } finally {
+                  setIsAiLoading(false);
+                }
               }}
               disabled={isAiLoading}
               className="px-6 py-3 bg-slate-900 text-white rounded-xl text-sm font-black hover:bg-slate-800 transition-all flex items-center gap-2 shadow-lg active:scale-95"
@@ -245,58 +624,86 @@ const App: React.FC = () => {
                           <span className="text-xs font-black text-slate-300 uppercase tracking-[0.3em]">Configure Checksum Params</span>
                         </div>
                       </div>
-                      <div className="grid grid-cols-2 gap-8">
-                        <div>
-                          <label className="text-xs font-black text-indigo-400 block mb-2 uppercase tracking-widest">Register Width</label>
-                          <select 
-                            value={additiveOptions.bitWidth}
-                            onChange={(e) => saveAdditiveOptions({...additiveOptions, bitWidth: parseInt(e.target.value) as any})}
-                            className="w-full bg-slate-800 text-white border-2 border-slate-700 rounded-xl p-4 text-base font-black focus:ring-4 focus:ring-indigo-500/30 appearance-none cursor-pointer hover:border-indigo-500 transition-all"
-                          >
-                            <option value={8}>8-bit (Low Accuracy)</option>
-                            <option value={16}>16-bit (Standard)</option>
-                            <option value={32}>32-bit (High Precision)</option>
-                          </select>
-                        </div>
-                        <div>
-                          <label className="text-xs font-black text-indigo-400 block mb-2 uppercase tracking-widest">Init Vector (Hex)</label>
-                          <input 
-                            type="text"
-                            value={additiveOptions.initialValue.toString(16).toUpperCase()}
-                            onChange={(e) => {
-                              const val = parseInt(e.target.value, 16);
-                              if (!isNaN(val)) saveAdditiveOptions({...additiveOptions, initialValue: val});
-                              else if (e.target.value === '') saveAdditiveOptions({...additiveOptions, initialValue: 0});
-                            }}
-                            className="w-full bg-slate-800 text-white border-2 border-slate-700 rounded-xl p-4 text-base font-mono font-black focus:ring-4 focus:ring-indigo-500/30 uppercase hover:border-indigo-500 transition-all"
-                            placeholder="0000"
-                          />
-                        </div>
-                      </div>
+                      <AlgorithmSettings
+                        algorithm={algorithm}
+                        params={params}
+                        onAlgorithmChange={saveAlgorithm}
+                        onParamsChange={saveAlgorithmParams}
+                      />
                     </div>
 
                     <div>
-                      <label className="text-sm font-black text-slate-400 block mb-3 uppercase tracking-widest">Data Input Stream</label>
-                      <textarea 
-                        value={senderData}
-                        onChange={(e) => setSenderData(e.target.value)}
-                        className={`w-full h-48 p-6 border-4 rounded-3xl font-mono text-xl focus:ring-8 transition-all resize-none shadow-inner ${isMismatch ? 'bg-white border-red-300 focus:ring-red-500/10' : 'bg-slate-50 border-slate-100 focus:ring-indigo-500/10'}`}
-                        placeholder="Type message to secure..."
+                      <PayloadEncodingBar
+                        label="Data Input Stream"
+                        labelClassName="text-slate-400"
+                        encoding={senderEncoding}
+                        byteCount={senderPayload.bytes.length}
+                        onEncodingChange={(next) => changeEncoding(senderEncoding, senderPayload, next, setSenderData, setSenderBinary, setSenderEncoding)}
+                        onBinaryLoaded={setSenderBinary}
                       />
+                      {senderEncoding === 'binary' ? (
+                        <div className={`w-full h-48 p-6 border-4 rounded-3xl overflow-hidden shadow-inner ${isMismatch ? 'bg-white border-red-300' : 'bg-slate-50 border-slate-100'}`}>
+                          <div className="text-base font-black text-slate-700 truncate">{senderBinary?.name || 'No file loaded'}</div>
+                          <div className="font-mono text-sm text-slate-400 mt-3 break-all">{toHexDump(senderPayload.bytes, 96)}</div>
+                        </div>
+                      ) : (
+                        <textarea 
+                          value={senderData}
+                          onChange={(e) => setSenderData(e.target.value)}
+                          className={`w-full h-48 p-6 border-4 rounded-3xl font-mono text-xl focus:ring-8 transition-all resize-none shadow-inner ${isMismatch ? 'bg-white border-red-300 focus:ring-red-500/10' : 'bg-slate-50 border-slate-100 focus:ring-indigo-500/10'}`}
+                          placeholder="Type message to secure..."
+                        />
+                      )}
+                      {senderPayload.error && (
+                        <p className="mt-2 text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {senderPayload.error}</p>
+                      )}
                     </div>
                     
                     <div className="p-8 bg-slate-900 rounded-[2.5rem] shadow-2xl border-b-8 border-indigo-600 relative group transition-transform hover:-translate-y-1">
                       <div className="text-sm text-indigo-400 font-black mb-3 uppercase tracking-[0.4em] flex items-center justify-between">
                         <span className="flex items-center gap-2"><Lock size={18} /> LOCAL HASH SIGNATURE</span>
-                        <span className="text-[10px] bg-indigo-500/20 px-3 py-1 rounded-full text-white">{additiveOptions.bitWidth} BIT</span>
+                        <span className="text-[10px] bg-indigo-500/20 px-3 py-1 rounded-full text-white">{getChecksumWidth(algorithm, params)} BIT</span>
                       </div>
-                      <div className="text-white font-mono text-5xl break-all font-black tracking-[0.2em] bg-slate-800/50 p-6 rounded-2xl shadow-inner border border-white/5">
+                      <div className={`text-white font-mono ${checksumTextSize} break-all font-black bg-slate-800/50 p-6 rounded-2xl shadow-inner border border-white/5`}>
                         {senderChecksum}
                       </div>
                     </div>
+
+                    <AlgorithmTrace bytes={senderPayload.bytes} config={{ algorithm, params }} algorithmLabel={algorithmLabel} />
+
+                    {macOptions.enabled && (
+                      <div className="p-6 bg-indigo-950 rounded-[2rem] shadow-xl border-b-8 border-amber-400">
+                        <div className="text-sm text-amber-300 font-black mb-3 uppercase tracking-[0.4em] flex items-center gap-2">
+                          <KeyRound size={18} /> {describeMac(macOptions.algorithm)} Tag
+                        </div>
+                        {macError ? (
+                          <p className="text-xs font-black text-red-400 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {macError}</p>
+                        ) : (
+                          <div className="text-white font-mono text-lg break-all font-black">{senderTag}</div>
+                        )}
+                      </div>
+                    )}
                   </div>
 
-                  <div className="p-8 bg-slate-50 border-t border-slate-100">
+                  <div className="p-8 bg-slate-50 border-t border-slate-100 space-y-6">
+                    <div>
+                      <label className="text-xs font-black text-slate-400 mb-3 block tracking-[0.3em] uppercase">Transmission Channel</label>
+                      <ChannelControls options={channelOptions} onChange={saveChannelOptions} />
+                    </div>
+                    <div>
+                      <label className="text-xs font-black text-slate-400 mb-3 block tracking-[0.3em] uppercase">Shared-Key Authentication</label>
+                      <MacControls options={macOptions} onChange={saveMacOptions} />
+                    </div>
+                    <div>
+                      <label className="text-xs font-black text-slate-400 mb-3 block tracking-[0.3em] uppercase">Remote Verification Bundle</label>
+                      <BundleExport
+                        algorithm={algorithm}
+                        params={params}
+                        checksum={senderChecksum}
+                        payload={senderPayload.error ? null : { bytes: senderPayload.bytes, encoding: senderEncoding, name: senderBinary?.name }}
+                        mac={macOptions.enabled && senderTag ? { algorithm: macOptions.algorithm, tag: senderTag } : null}
+                      />
+                    </div>
                     <button 
                       onClick={transmit}
                       className="w-full py-6 bg-indigo-600 text-white rounded-3xl font-black text-2xl flex items-center justify-center gap-4 hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-200 active:scale-[0.98] transform uppercase italic tracking-tighter"
@@ -306,6 +713,15 @@ const App: React.FC = () => {
                   </div>
                 </section>
 
+                <ForgePanel
+                  payload={senderPayload.bytes}
+                  encoding={senderEncoding}
+                  targetChecksum={senderChecksum}
+                  config={{ algorithm, params }}
+                  algorithmLabel={algorithmLabel}
+                  onDeliver={deliverForgery}
+                />
+
                 {/* RECEIVER SIDE */}
                 <section className={`bg-white rounded-3xl shadow-2xl border-4 overflow-hidden flex flex-col transition-all duration-500 ${isMismatch ? 'border-red-600 ring-8 ring-red-100 animate-pulse-slow' : isMatch ? 'border-emerald-500 ring-4 ring-emerald-50' : 'border-slate-100'}`}>
                   <div className={`p-5 border-b flex items-center justify-between ${isMismatch ? 'bg-red-600 text-white border-red-700' : isMatch ? 'bg-emerald-600 text-white border-emerald-700' : 'bg-slate-100 text-slate-400 border-slate-200'}`}>
@@ -317,13 +733,33 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   <div className={`p-8 space-y-8 flex-1 transition-colors duration-500 ${isMismatch ? 'bg-red-50/40' : isMatch ? 'bg-emerald-50/20' : ''}`}>
+                    <BundleImport bundle={importedBundle} error={bundleError} onImport={importBundle} onError={setBundleError} />
+
                     <div>
-                      <label className={`text-sm font-black block mb-3 uppercase tracking-widest ${isMismatch ? 'text-red-600' : isMatch ? 'text-emerald-600' : 'text-slate-400'}`}>Captured Payload (Editable to Test Errors)</label>
-                      <textarea 
-                        value={receiverData}
-                        onChange={(e) => setReceiverData(e.target.value)}
-                        className={`w-full h-48 p-6 border-4 rounded-3xl font-mono text-xl transition-all resize-none outline-none focus:ring-8 shadow-inner ${isMismatch ? 'bg-white border-red-500 focus:ring-red-500/20 text-red-900' : isMatch ? 'bg-white border-emerald-500 focus:ring-emerald-500/20 text-emerald-900' : 'bg-slate-50 border-slate-200'}`}
+                      <PayloadEncodingBar
+                        label="Captured Payload (Editable to Test Errors)"
+                        labelClassName={isMismatch ? 'text-red-600' : isMatch ? 'text-emerald-600' : 'text-slate-400'}
+                        encoding={receiverEncoding}
+                        byteCount={receiverPayload.bytes.length}
+                        onEncodingChange={(next) => changeEncoding(receiverEncoding, receiverPayload, next, setReceiverData, setReceiverBinary, setReceiverEncoding)}
+                        onBinaryLoaded={setReceiverBinary}
                       />
+                      {receiverEncoding === 'binary' ? (
+                        <div className={`w-full h-48 p-6 border-4 rounded-3xl overflow-hidden shadow-inner ${isMismatch ? 'bg-white border-red-500' : isMatch ? 'bg-white border-emerald-500' : 'bg-slate-50 border-slate-200'}`}>
+                          <div className="text-base font-black text-slate-700 truncate">{receiverBinary?.name || 'No file loaded'}</div>
+                          <div className="font-mono text-sm text-slate-400 mt-3 break-all">{toHexDump(receiverPayload.bytes, 96)}</div>
+                          <div className="text-[10px] font-black text-slate-400 mt-3 uppercase tracking-widest">Switch to Hex String to edit bytes</div>
+                        </div>
+                      ) : (
+                        <textarea 
+                          value={receiverData}
+                          onChange={(e) => setReceiverData(e.target.value)}
+                          className={`w-full h-48 p-6 border-4 rounded-3xl font-mono text-xl transition-all resize-none outline-none focus:ring-8 shadow-inner ${isMismatch ? 'bg-white border-red-500 focus:ring-red-500/20 text-red-900' : isMatch ? 'bg-white border-emerald-500 focus:ring-emerald-500/20 text-emerald-900' : 'bg-slate-50 border-slate-200'}`}
+                        />
+                      )}
+                      {receiverPayload.error && (
+                        <p className="mt-2 text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {receiverPayload.error}</p>
+                      )}
                     </div>
                     
                     <div className="grid grid-cols-1 gap-8">
@@ -331,7 +767,7 @@ const App: React.FC = () => {
                           <div className={`text-base font-black uppercase tracking-[0.3em] mb-3 flex items-center gap-2 ${isMismatch ? 'text-red-600' : 'text-slate-500'}`}>
                             <Activity size={20} /> Incoming Hash Signature
                           </div>
-                          <div className={`text-5xl font-mono break-all font-black tracking-[0.2em] ${isMismatch ? 'text-red-600 animate-bounce-short' : 'text-slate-400 opacity-60'}`}>
+                          <div className={`${checksumTextSize} font-mono break-all font-black ${isMismatch ? 'text-red-600 animate-bounce-short' : 'text-slate-400 opacity-60'}`}>
                             {receiverReceivedChecksum || '----'}
                           </div>
                        </div>
@@ -340,12 +776,63 @@ const App: React.FC = () => {
                           <div className={`text-base font-black uppercase tracking-[0.3em] mb-3 flex items-center gap-2 ${isMismatch ? 'text-red-600' : isMatch ? 'text-emerald-600' : 'text-slate-500'}`}>
                             <RefreshCcw size={20} /> Re-Computed Locally
                           </div>
-                          <div className={`text-5xl font-mono break-all font-black tracking-[0.2em] ${isMismatch ? 'text-red-600' : isMatch ? 'text-emerald-600' : 'text-slate-700'}`}>
+                          <div className={`${checksumTextSize} font-mono break-all font-black ${isMismatch ? 'text-red-600' : isMatch ? 'text-emerald-600' : 'text-slate-700'}`}>
                             {receiverCalculatedChecksum || '----'}
                           </div>
                        </div>
+                       {zeroSum && (
+                         <div className={`p-6 rounded-[2rem] border-4 shadow-xl ${'error' in zeroSum ? 'bg-slate-100 border-slate-200' : zeroSum.ok ? 'bg-white border-emerald-600' : 'bg-white border-red-600'}`}>
+                           <div className="text-base font-black uppercase tracking-[0.3em] mb-3 flex items-center gap-2 text-slate-500">
+                             <Sigma size={20} /> Sum-to-Zero Check
+                           </div>
+                           {'error' in zeroSum ? (
+                             <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {zeroSum.error}</p>
+                           ) : (
+                             <>
+                               <div className={`font-mono text-xl font-black break-all ${zeroSum.ok ? 'text-emerald-600' : 'text-red-600'}`}>
+                                 Σ data + {receiverReceivedChecksum} = {zeroSum.total}
+                               </div>
+                               <p className="mt-2 text-xs font-bold text-slate-500 uppercase tracking-widest">
+                                 {zeroSum.ok ? 'Data plus checksum totals zero' : 'Non-zero total: the data or the checksum was altered'}
+                               </p>
+                             </>
+                           )}
+                         </div>
+                       )}
+                       {isMismatch && (
+                         <button
+                           onClick={() => setReceiverReceivedChecksum(receiverCalculatedChecksum)}
+                           className="p-3 rounded-xl border-2 border-dashed border-slate-300 text-xs font-black text-slate-500 uppercase tracking-widest hover:border-red-500 hover:text-red-600 transition-all"
+                         >
+                           Attacker: recompute checksum over the edited payload
+                         </button>
+                       )}
                     </div>
 
+                    {(isMismatch || isMatch) && (
+                      <ByteDiffPanel sender={senderPayload.bytes} receiver={receiverPayload.bytes} config={{ algorithm, params }} algorithmLabel={algorithmLabel} />
+                    )}
+
+                    {macOptions.enabled && (
+                      <div className={`p-6 rounded-[2rem] border-4 shadow-xl ${authState === 'forged' ? 'bg-white border-red-600' : authState === 'authentic' ? 'bg-white border-emerald-600' : 'bg-slate-100 border-slate-200'}`}>
+                        <div className="flex items-center justify-between mb-4">
+                          <span className="text-base font-black uppercase tracking-[0.3em] flex items-center gap-2 text-slate-500">
+                            <KeyRound size={20} /> {describeMac(macOptions.algorithm)}
+                          </span>
+                          <span className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest ${authState === 'forged' ? 'bg-red-600 text-white' : authState === 'authentic' ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-200 text-slate-500'}`}>
+                            {authState === 'forged' ? 'Forged or wrong key' : authState === 'authentic' ? 'Authentic' : 'No tag'}
+                          </span>
+                        </div>
+                        <div className="space-y-2 font-mono text-xs font-bold break-all">
+                          <div className="text-slate-400">Received: {receiverReceivedTag || '----'}</div>
+                          <div className={authState === 'forged' ? 'text-red-600' : authState === 'authentic' ? 'text-emerald-600' : 'text-slate-700'}>Computed: {receiverCalculatedTag || '----'}</div>
+                        </div>
+                        {authState === 'forged' && isMatch && (
+                          <p className="mt-4 text-xs font-black text-red-600 uppercase tracking-widest">The checksum was recomputed to match, but the tag cannot be without the key.</p>
+                        )}
+                      </div>
+                    )}
+
                     <div className={`p-10 rounded-[3rem] flex flex-col items-center text-center gap-6 border-8 transition-all animate-in zoom-in duration-500 shadow-2xl relative overflow-hidden ${
                       isMatch 
                         ? 'bg-emerald-600 border-emerald-400 text-white' 
@@ -358,7 +845,7 @@ const App: React.FC = () => {
                           <CheckCircle2 size={100} className="mb-2 shadow-2xl" />
                           <div>
                             <div className="text-5xl font-black uppercase tracking-tighter italic">Signal Secure</div>
-                            <div className="text-base font-black opacity-80 mt-2 uppercase tracking-[0.3em] border-t border-white/20 pt-4">Data Integrity: 100% Guaranteed</div>
+                            <div className="text-base font-black opacity-80 mt-2 uppercase tracking-[0.3em] border-t border-white/20 pt-4">Checksums agree &middot; see Blind Spots for what {algorithm} can miss</div>
                           </div>
                         </>
                       ) : isMismatch ? (
@@ -385,242 +872,248 @@ const App: React.FC = () => {
             )}
 
             {activeTab === 'batch' && (
-              <div className="bg-white rounded-[2.5rem] shadow-2xl border-4 border-slate-100 overflow-hidden animate-in fade-in slide-in-from-bottom-8 duration-700">
-                <div className="p-10 border-b-4 border-slate-50 flex items-center justify-between bg-slate-50/50">
-                  <div>
-                    <h2 className="text-3xl font-black tracking-tighter text-slate-800 uppercase italic">Bulk Verification Suite</h2>
-                    <p className="text-base text-slate-500 font-bold mt-2 uppercase tracking-wide">Multi-resource Additive Hashing Lab</p>
+              <>
+                <div className="bg-white rounded-[2.5rem] shadow-2xl border-4 border-slate-100 overflow-hidden animate-in fade-in slide-in-from-bottom-8 duration-700">
+                  <div className="p-10 border-b-4 border-slate-50 flex items-center justify-between bg-slate-50/50">
+                    <div>
+                      <h2 className="text-3xl font-black tracking-tighter text-slate-800 uppercase italic">Bulk Verification Suite</h2>
+                      <p className="text-base text-slate-500 font-bold mt-2 uppercase tracking-wide">Multi-resource Additive Hashing Lab</p>
+                    </div>
+                    <div className="flex gap-4">
+                      <input type="file" multiple ref={fileInputRef} onChange={handleFileUpload} className="hidden" />
+                      <input type="file" ref={folderInputRef} onChange={handleFileUpload} className="hidden" {...{ webkitdirectory: '', directory: '' }} />
+                      <button 
+                        onClick={() => fileInputRef.current?.click()} 
+                        className="px-8 py-4 border-4 border-slate-200 rounded-2xl text-base font-black hover:bg-white hover:border-indigo-500 hover:text-indigo-600 transition-all flex items-center gap-3 shadow-md uppercase tracking-tight"
+                      >
+                        <Upload size={24} /> Add Resources
+                      </button>
+                      <button 
+                        onClick={() => folderInputRef.current?.click()} 
+                        className="px-8 py-4 border-4 border-slate-200 rounded-2xl text-base font-black hover:bg-white hover:border-indigo-500 hover:text-indigo-600 transition-all flex items-center gap-3 shadow-md uppercase tracking-tight"
+                      >
+                        <FolderOpen size={24} /> Add Folder
+                      </button>
+                      <button 
+                        onClick={processBatch} 
+                        disabled={isBatchRunning}
+                        className="px-8 py-4 bg-indigo-600 text-white rounded-2xl text-base font-black flex items-center gap-3 active:scale-95 transition-all shadow-xl shadow-indigo-100 hover:bg-indigo-700 uppercase tracking-tight disabled:opacity-50"
+                      >
+                        <RefreshCcw size={24} className={isBatchRunning ? 'animate-spin' : ''} /> Run Processing
+                      </button>
+                    </div>
                   </div>
-                  <div className="flex gap-4">
-                    <input type="file" multiple ref={fileInputRef} onChange={handleFileUpload} className="hidden" />
-                    <button 
-                      onClick={() => fileInputRef.current?.click()} 
-                      className="px-8 py-4 border-4 border-slate-200 rounded-2xl text-base font-black hover:bg-white hover:border-indigo-500 hover:text-indigo-600 transition-all flex items-center gap-3 shadow-md uppercase tracking-tight"
-                    >
-                      <Upload size={24} /> Add Resources
-                    </button>
-                    <button 
-                      onClick={processBatch} 
-                      className="px-8 py-4 bg-indigo-600 text-white rounded-2xl text-base font-black flex items-center gap-3 active:scale-95 transition-all shadow-xl shadow-indigo-100 hover:bg-indigo-700 uppercase tracking-tight"
-                    >
-                      <RefreshCcw size={24} /> Run Processing
-                    </button>
+                  <div className="px-10 py-6 border-b-4 border-slate-50 flex flex-wrap items-center justify-between gap-6">
+                    <div className="flex items-center gap-4">
+                      <input type="file" ref={manifestInputRef} onChange={handleManifestUpload} accept=".md5,.sha1,.sha256,.sha384,.sha512,.sfv,.txt,*" className="hidden" />
+                      <button 
+                        onClick={() => manifestInputRef.current?.click()} 
+                        className="px-6 py-3 border-4 border-slate-200 rounded-2xl text-sm font-black hover:border-indigo-500 hover:text-indigo-600 transition-all flex items-center gap-3 uppercase tracking-tight"
+                      >
+                        <FileCheck size={20} /> Load Manifest
+                      </button>
+                      <select
+                        value={pieceSize}
+                        onChange={(e) => setPieceSize(parseInt(e.target.value, 10))}
+                        title="Piece hashing locates the corrupted byte ranges of a failed file"
+                        className="bg-slate-100 border-2 border-slate-200 rounded-xl px-3 py-3 text-xs font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+                      >
+                        {PIECE_SIZES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                      </select>
+                      {manifest && (
+                        <div className="flex items-center gap-3 text-xs font-black uppercase tracking-widest text-slate-500">
+                          <span className="text-slate-800">{manifest.name}</span>
+                          <span className="px-3 py-1 bg-slate-100 rounded-lg">{manifest.format}</span>
+                          <span>{manifest.entries.length} entries</span>
+                          <button onClick={clearManifest} className="p-1 text-slate-300 hover:text-red-600 transition-all"><X size={16} /></button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <select
+                        value={exportFormat}
+                        onChange={(e) => setExportFormat(e.target.value as ManifestFormat)}
+                        className="bg-slate-100 border-2 border-slate-200 rounded-xl px-3 py-3 text-xs font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+                      >
+                        <option value="gnu">sha256sum / md5sum</option>
+                        <option value="bsd">BSD Tagged</option>
+                        <option value="sfv">SFV (CRC-32)</option>
+                        <option value="pieces">Piece manifest</option>
+                      </select>
+                      <button 
+                        onClick={exportManifest}
+                        disabled={!batchItems.some(item => item.status === 'completed')}
+                        className="px-6 py-3 border-4 border-slate-200 rounded-2xl text-sm font-black hover:border-indigo-500 hover:text-indigo-600 transition-all flex items-center gap-3 uppercase tracking-tight disabled:opacity-40"
+                      >
+                        <Download size={20} /> Export
+                      </button>
+                    </div>
+                    {batchNotice && (
+                      <p className="w-full text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {batchNotice}</p>
+                    )}
                   </div>
-                </div>
-                <div className="p-0">
-                  {batchItems.length === 0 ? (
-                    <div className="py-40 flex flex-col items-center justify-center text-slate-400 bg-slate-50/30">
-                      <div className="w-32 h-32 bg-white rounded-[2rem] shadow-xl flex items-center justify-center mb-8 border-4 border-slate-100">
-                        <Files size={64} className="opacity-10" />
+                  <div className="p-0">
+                    {batchItems.length === 0 ? (
+                      <div className="py-40 flex flex-col items-center justify-center text-slate-400 bg-slate-50/30">
+                        <div className="w-32 h-32 bg-white rounded-[2rem] shadow-xl flex items-center justify-center mb-8 border-4 border-slate-100">
+                          <Files size={64} className="opacity-10" />
+                        </div>
+                        <p className="text-2xl font-black text-slate-500 uppercase tracking-[0.3em]">Ready for Queue</p>
+                        <p className="text-base font-bold mt-4 opacity-40 uppercase tracking-widest">Connect files to begin industrial batching</p>
                       </div>
-                      <p className="text-2xl font-black text-slate-500 uppercase tracking-[0.3em]">Ready for Queue</p>
-                      <p className="text-base font-bold mt-4 opacity-40 uppercase tracking-widest">Connect files to begin industrial batching</p>
-                    </div>
-                  ) : (
-                    <table className="w-full text-left text-sm border-collapse">
-                      <thead>
-                        <tr className="bg-slate-900 text-slate-400">
-                          <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Resource ID</th>
-                          <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Payload size</th>
-                          <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Process Stage</th>
-                          <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Calculated Hash</th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white">
-                        {batchItems.map(item => (
-                          <tr key={item.id} className="border-b-2 border-slate-50 last:border-0 hover:bg-indigo-50/50 transition-all group">
-                            <td className="px-10 py-8 font-black flex items-center gap-4 text-slate-800 text-xl italic tracking-tight">
-                              <Files size={24} className="text-slate-200 group-hover:text-indigo-500 transition-colors" /> {item.name}
-                            </td>
-                            <td className="px-10 py-8 text-slate-500 font-mono text-lg font-bold">{(item.size / 1024).toFixed(2)} KB</td>
-                            <td className="px-10 py-8">
-                              <span className={`px-6 py-2 rounded-xl text-sm font-black tracking-[0.2em] shadow-sm uppercase ${
-                                item.status === 'completed' ? 'bg-emerald-600 text-white' :
-                                item.status === 'processing' ? 'bg-indigo-600 text-white animate-pulse' :
-                                'bg-slate-200 text-slate-500 border border-slate-300'
-                              }`}>
-                                {item.status}
-                              </span>
-                            </td>
-                            <td className="px-10 py-8 font-mono text-3xl text-indigo-700 font-black tracking-[0.3em] truncate max-w-[350px]">{item.checksum || 'AWAITING'}</td>
+                    ) : (
+                      <table className="w-full text-left text-sm border-collapse">
+                        <thead>
+                          <tr className="bg-slate-900 text-slate-400">
+                            <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Resource ID</th>
+                            <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Payload size</th>
+                            <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Process Stage</th>
+                            <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Calculated Hash</th>
+                            {manifest && <th className="px-10 py-6 font-black uppercase text-xs tracking-[0.3em]">Verification</th>}
                           </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  )}
+                        </thead>
+                        <tbody className="bg-white">
+                          {batchItems.map(item => (
+                            <tr key={item.id} className="border-b-2 border-slate-50 last:border-0 hover:bg-indigo-50/50 transition-all group">
+                              <td className="px-10 py-8 font-black flex items-center gap-4 text-slate-800 text-xl italic tracking-tight">
+                                <Files size={24} className="text-slate-200 group-hover:text-indigo-500 transition-colors" /> {item.name}
+                              </td>
+                              <td className="px-10 py-8 text-slate-500 font-mono text-lg font-bold">{item.file ? `${(item.size / 1024).toFixed(2)} KB` : '—'}</td>
+                              <td className="px-10 py-8">
+                                {item.file ? (
+                                  <span title={item.error} className={`px-6 py-2 rounded-xl text-sm font-black tracking-[0.2em] shadow-sm uppercase ${
+                                    item.status === 'completed' ? 'bg-emerald-600 text-white' :
+                                    item.status === 'processing' ? 'bg-indigo-600 text-white animate-pulse' :
+                                    item.status === 'failed' ? 'bg-red-600 text-white' :
+                                    'bg-slate-200 text-slate-500 border border-slate-300'
+                                  }`}>
+                                    {item.status}
+                                  </span>
+                                ) : (
+                                  <span className="text-sm font-black text-slate-300 uppercase tracking-[0.2em]">Not uploaded</span>
+                                )}
+                                {item.status === 'processing' && (
+                                  <div className="mt-4 w-48">
+                                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                                      <div className="h-full bg-indigo-600 transition-all" style={{ width: `${item.size ? (item.bytesProcessed / item.size) * 100 : 100}%` }}></div>
+                                    </div>
+                                    <div className="text-xs font-mono font-black text-slate-400 mt-2">{item.size ? ((item.bytesProcessed / item.size) * 100).toFixed(1) : '100.0'}%</div>
+                                  </div>
+                                )}
+                              </td>
+                              <td title={item.checksum} className="px-10 py-8 font-mono text-3xl text-indigo-700 font-black tracking-[0.3em] truncate max-w-[350px]">{item.checksum || 'AWAITING'}</td>
+                              {manifest && (
+                                <td className="px-10 py-8">
+                                  {item.verification && (
+                                    <span title={item.expected ? `Expected ${item.expected}` : undefined} className={`px-6 py-2 rounded-xl text-sm font-black tracking-[0.2em] shadow-sm uppercase ${
+                                      item.verification === 'ok' ? 'bg-emerald-600 text-white' :
+                                      item.verification === 'failed' ? 'bg-red-600 text-white' :
+                                      'bg-amber-500 text-white'
+                                    }`}>
+                                      {item.verification}
+                                    </span>
+                                  )}
+                                  {item.corruptRanges && item.expectedPieces && (
+                                    <div className="mt-3 space-y-1 text-xs font-mono font-bold text-red-600">
+                                      {item.corruptRanges.map(range => <div key={range.start}>{describeRange(range, item.expectedPieces!.size)}</div>)}
+                                    </div>
+                                  )}
+                                  {!item.verification && item.expected && <span className="text-sm font-black text-slate-300 uppercase tracking-[0.2em]">Queued</span>}
+                                  {!item.expected && <span className="text-sm font-black text-slate-300 uppercase tracking-[0.2em]">Unlisted</span>}
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
                 </div>
-              </div>
+
+                <SnapshotPanel config={{ algorithm, params }} onComplete={addToHistory} />
+              </>
             )}
 
-            {activeTab === 'hamming' && (
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
-                <div className="lg:col-span-1 space-y-10">
-                   <section className="bg-white p-10 rounded-[3rem] border-4 border-slate-100 shadow-xl">
-                      <h3 className="text-xl font-black mb-8 flex items-center gap-4 uppercase tracking-tighter italic text-indigo-700">
-                        <Terminal size={32} className="text-indigo-600" />
-                        Encoder Console
-                      </h3>
-                      <div className="space-y-8">
-                        <div>
-                          <label className="text-xs font-black text-slate-400 mb-4 block tracking-[0.4em] uppercase">Bit stream (4-bit binary)</label>
-                          <input 
-                            maxLength={4}
-                            value={hammingInput}
-                            onChange={(e) => setHammingInput(e.target.value.replace(/[^01]/g, ''))}
-                            className="w-full text-7xl font-mono p-10 bg-slate-900 text-indigo-400 border-b-8 border-indigo-600 rounded-3xl tracking-[0.5em] text-center focus:ring-8 focus:ring-indigo-500/20 outline-none font-black shadow-2xl"
-                          />
-                        </div>
-                        <button onClick={runHamming} className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-2xl hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100 uppercase italic tracking-tighter">GENERATE SYMBOLS</button>
-                      </div>
-                   </section>
+            {activeTab === 'hamming' && <BitCorrectionLab />}
 
-                   {hammingResult && (
-                      <div className="bg-slate-900 text-white p-10 rounded-[3rem] border-t-8 border-emerald-500 shadow-3xl animate-in fade-in slide-in-from-left-8 duration-700 overflow-hidden relative">
-                        <div className="absolute top-0 right-0 p-8 opacity-5">
-                          <Binary size={100} />
-                        </div>
-                        <h4 className="text-xs font-black text-emerald-400 tracking-[0.4em] uppercase mb-8 border-b border-emerald-500/20 pb-4">Hamming (7,4) Protocol</h4>
-                        <div className="space-y-6 font-mono text-base">
-                          <div className="flex justify-between items-center group">
-                            <span className="opacity-40 uppercase font-black text-xs tracking-widest group-hover:opacity-100 transition-opacity">Payload</span> 
-                            <span className="text-white font-black tracking-[0.4em] text-2xl">{hammingResult.original}</span>
-                          </div>
-                          <div className="flex justify-between items-center group">
-                            <span className="opacity-40 uppercase font-black text-xs tracking-widest group-hover:opacity-100 transition-opacity">Correction</span> 
-                            <span className="text-emerald-400 font-black tracking-[0.4em] text-2xl">+3 BITS</span>
-                          </div>
-                          <div className="flex justify-between pt-6 border-t border-white/5">
-                            <span className="font-black text-emerald-500 text-xs uppercase tracking-widest">Final Signal</span> 
-                            <span className="text-emerald-400 font-black tracking-[0.5em] text-4xl">{hammingResult.encoded}</span>
-                          </div>
-                        </div>
-                      </div>
-                   )}
-                </div>
+            {activeTab === 'reed-solomon' && <ReedSolomonLab />}
 
-                <div className="lg:col-span-2 h-full">
-                   {hammingResult ? (
-                     <section className="bg-white rounded-[3.5rem] border-4 border-slate-100 shadow-3xl overflow-hidden h-full flex flex-col transition-all">
-                        <div className="p-8 border-b-4 border-slate-50 bg-slate-50/50 flex items-center justify-between">
-                           <span className="text-sm font-black uppercase tracking-[0.3em] text-slate-800 italic">Physical Interference Module</span>
-                           <span className="text-xs font-black text-indigo-600 bg-white border-2 border-indigo-100 px-5 py-2 rounded-2xl uppercase tracking-widest flex items-center gap-2 shadow-sm">
-                             <Info size={16} /> INTERACT WITH BITS TO INJECT NOISE
-                           </span>
-                        </div>
-                        <div className="p-10 lg:p-20 flex-1 flex flex-col items-center justify-center space-y-20">
-                           <div className="flex gap-4 md:gap-6 flex-wrap justify-center">
-                              {hammingResult.received.split('').map((bit, i) => (
-                                <button
-                                  key={i}
-                                  onClick={() => flipBit(i)}
-                                  className={`w-20 h-32 md:w-24 md:h-40 rounded-[2rem] border-8 flex flex-col items-center justify-center transition-all active:scale-90 relative group ${
-                                    hammingResult.errorPosition === i + 1 
-                                      ? 'border-red-600 bg-red-600 text-white shadow-[0_0_50px_rgba(220,38,38,0.5)] animate-pulse' 
-                                      : 'border-slate-100 hover:border-indigo-600 bg-slate-50 hover:bg-white text-slate-900 shadow-xl'
-                                  }`}
-                                >
-                                  <span className="text-5xl md:text-7xl font-mono font-black">{bit}</span>
-                                  <span className={`text-xs mt-6 uppercase font-black tracking-tighter transition-all ${hammingResult.errorPosition === i + 1 ? 'opacity-100 scale-125' : 'opacity-20'}`}>
-                                    {hammingResult.errorPosition === i + 1 ? 'FAULT' : `CH ${i+1}`}
-                                  </span>
-                                </button>
-                              ))}
-                           </div>
+            {activeTab === 'experiments' && (
+              <ExperimentRunner
+                channel={channelOptions}
+                onChannelChange={saveChannelOptions}
+                onComplete={(summary) => addToHistory({ algorithm: 'Monte-Carlo', type: 'experiment', result: 'info', summary }, {
+                  notes: { channel: describeChannel(channelOptions), seed: channelOptions.seed }
+                })}
+              />
+            )}
 
-                           <div className="w-full max-w-2xl">
-                              <div className={`p-10 rounded-[4rem] border-8 transition-all duration-700 flex items-center gap-10 shadow-[0_20px_60px_-15px_rgba(0,0,0,0.3)] ${hammingResult.errorPosition ? 'bg-red-600 border-red-400 text-white shadow-red-200' : 'bg-emerald-600 border-emerald-400 text-white shadow-emerald-200'}`}>
-                                 <div className={`w-32 h-32 rounded-[2.5rem] flex items-center justify-center shadow-2xl flex-shrink-0 ${hammingResult.errorPosition ? 'bg-white text-red-600' : 'bg-white text-emerald-600'}`}>
-                                    {hammingResult.errorPosition ? <RefreshCcw size={64} className="animate-spin" /> : <CheckCircle2 size={64} />}
-                                 </div>
-                                 <div className="flex-1">
-                                    <div className="text-6xl font-black leading-none uppercase tracking-tighter italic">
-                                      {hammingResult.errorPosition ? `CORRECTED` : 'CLEAN'}
-                                    </div>
-                                    <div className="text-base font-black uppercase tracking-[0.4em] mt-6 opacity-80 flex justify-between items-center border-t border-white/20 pt-6">
-                                      <span className="italic">OUTPUT:</span>
-                                      <span className="font-mono font-black text-5xl tracking-[0.5em]">{hammingResult.corrected}</span>
-                                    </div>
-                                 </div>
-                              </div>
-                           </div>
-                        </div>
-                     </section>
-                   ) : (
-                     <div className="h-full min-h-[600px] border-8 border-dashed border-slate-100 rounded-[4rem] flex flex-col items-center justify-center text-slate-300 bg-white/50 animate-in fade-in duration-1000">
-                        <Binary size={120} className="mb-10 opacity-5" />
-                        <p className="text-4xl font-black uppercase tracking-[0.5em] opacity-40 italic">Signal Ready</p>
-                        <p className="text-base font-bold mt-6 opacity-20 uppercase tracking-widest border-t border-slate-100 pt-6">Initialize a symobol set to begin</p>
-                     </div>
-                   )}
-                </div>
-              </div>
+            {activeTab === 'arq' && (
+              <ArqSimulator
+                payload={senderPayload.bytes}
+                payloadError={senderPayload.error}
+                config={{ algorithm, params }}
+                algorithmLabel={algorithmLabel}
+                channel={channelOptions}
+                onChannelChange={saveChannelOptions}
+                onComplete={(summary) => addToHistory({ algorithm: algorithmLabel, type: 'experiment', result: 'info', summary }, {
+                  algorithmId: algorithm,
+                  params,
+                  inputLength: senderPayload.bytes.length,
+                  notes: { channel: describeChannel(channelOptions), seed: channelOptions.seed }
+                })}
+              />
             )}
 
-            {/* AI Engineering Insights */}
-            {aiInsight && (activeTab === 'single' || activeTab === 'batch') && (
-              <div className="mt-20 bg-slate-900 text-slate-100 p-12 md:p-20 rounded-[5rem] border-[12px] border-slate-800 shadow-[0_80px_150px_-30px_rgba(0,0,0,0.7)] relative overflow-hidden group animate-in slide-in-from-bottom-20 duration-1000">
-                <div className="absolute top-0 right-0 p-16 opacity-10 group-hover:opacity-20 transition-all group-hover:rotate-12 group-hover:scale-110">
-                  <Cpu size={300} />
-                </div>
-                <div className="relative z-10">
-                  <div className="flex items-center gap-8 mb-16">
-                    <div className="w-20 h-20 bg-indigo-600 rounded-3xl flex items-center justify-center shadow-[0_0_50px_rgba(79,70,229,0.5)] transform -rotate-3 group-hover:rotate-0 transition-transform">
-                      <Activity size={48} />
-                    </div>
-                    <div>
-                      <h3 className="text-5xl font-black tracking-tighter uppercase leading-none italic group-hover:text-indigo-400 transition-colors">Engineering Insights</h3>
-                      <p className="text-sm font-black text-indigo-400 uppercase tracking-[0.6em] mt-4">Additive Integrity Neural Diagnostic</p>
-                    </div>
-                  </div>
-                  <div className="text-slate-200 leading-relaxed space-y-10 max-w-6xl font-light text-2xl border-l-4 border-indigo-500/30 pl-12">
-                    {aiInsight.split('\n').map((line, i) => line && <p key={i} className="animate-in fade-in slide-in-from-left-8" style={{animationDelay: `${i * 150}ms`}}>{line}</p>)}
-                  </div>
-                  <button onClick={() => setAiInsight("")} className="mt-16 px-16 py-6 border-4 border-slate-700 hover:bg-slate-800 hover:border-indigo-500 rounded-3xl text-sm font-black transition-all uppercase tracking-[0.5em] shadow-2xl active:scale-95">CLOSE DIAGNOSTIC REPORT</button>
-                </div>
-              </div>
+            {activeTab === 'reveng' && (
+              <RevEngPanel
+                onApply={(model) => {
+                  saveAlgorithm(model.algorithm);
+                  saveAlgorithmParams(model.algorithm, model.params);
+                  setActiveTab('single');
+                  addToHistory({ algorithm: model.label, type: 'experiment', result: 'info', summary: `Applied identified model to the sender${model.byteSwapped ? '; captured checksums are byte-swapped' : ''}` }, {
+                    algorithmId: model.algorithm,
+                    params: model.params
+                  });
+                }}
+                onComplete={(summary) => addToHistory({ algorithm: 'Reverse Engineering', type: 'experiment', result: 'info', summary })}
+              />
             )}
-          </div>
-        </main>
 
-        <aside className={`absolute top-0 right-0 h-full w-[30rem] bg-white border-l-8 border-slate-100 shadow-[0_0_150px_rgba(0,0,0,0.2)] z-40 transition-transform duration-700 cubic-bezier(0.4, 0, 0.2, 1) ${showHistory ? 'translate-x-0' : 'translate-x-full'}`}>
-          <div className="p-8 border-b-4 border-slate-50 flex items-center justify-between sticky top-0 bg-white/95 backdrop-blur-3xl z-10">
-            <h3 className="font-black flex items-center gap-4 text-2xl uppercase tracking-tighter italic text-indigo-700">
-              <HistoryIcon size={32} className="text-indigo-600" /> Integrity Log
-            </h3>
-            <div className="flex gap-2">
-              <button onClick={() => { setHistory([]); localStorage.removeItem('integrity_history'); }} className="p-4 text-slate-300 hover:text-red-600 transition-all bg-slate-50 rounded-2xl hover:bg-red-50 hover:shadow-lg"><Trash2 size={24} /></button>
-              <button onClick={() => setShowHistory(false)} className="p-4 text-slate-300 hover:text-slate-800 transition-all bg-slate-50 rounded-2xl hover:bg-slate-100 hover:shadow-lg"><X size={24} /></button>
-            </div>
-          </div>
-          <div className="overflow-y-auto h-[calc(100%-116px)] p-8 space-y-6 bg-slate-50/20">
-            {history.length === 0 ? (
-              <div className="text-center py-48 text-slate-300 flex flex-col items-center">
-                <div className="w-24 h-24 bg-white rounded-3xl flex items-center justify-center mb-6 shadow-xl border-4 border-slate-50">
-                  <HistoryIcon size={48} className="opacity-10" />
-                </div>
-                <p className="text-sm font-black uppercase tracking-[0.4em] opacity-40">Zero recorded events</p>
-              </div>
-            ) : (
-              history.map(entry => (
-                <div key={entry.id} className="p-8 rounded-[2.5rem] border-4 border-slate-50 bg-white hover:border-indigo-500 hover:shadow-2xl hover:-translate-y-2 transition-all duration-500 group cursor-default relative overflow-hidden">
-                  <div className="absolute -top-4 -right-4 w-16 h-16 bg-indigo-50 opacity-0 group-hover:opacity-100 transition-all rounded-full blur-xl"></div>
-                  <div className="flex items-center justify-between mb-4">
-                    <span className={`text-[10px] font-black px-4 py-1.5 rounded-full uppercase tracking-[0.3em] shadow-sm ${
-                      entry.type === 'single' ? 'bg-indigo-600 text-white' :
-                      entry.type === 'batch' ? 'bg-amber-500 text-white' : 'bg-emerald-600 text-white'
-                    }`}>
-                      {entry.type}
-                    </span>
-                    <span className="text-xs text-slate-400 font-black font-mono">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                  </div>
-                  <p className="text-lg font-black text-slate-800 mb-4 line-clamp-2 leading-tight group-hover:text-indigo-700 transition-colors uppercase italic tracking-tighter">{entry.summary}</p>
-                  <div className="flex items-center gap-3 text-xs text-slate-400 font-black uppercase tracking-[0.2em] pt-4 border-t-2 border-slate-50 group-hover:border-indigo-100">
-                    <Cpu size={16} className="text-indigo-400" /> {entry.algorithm}
-                  </div>
-                </div>
-              ))
+            {activeTab === 'analysis' && (
+              <ErrorAnalyzer
+                payload={senderPayload.bytes}
+                payloadError={senderPayload.error}
+                config={{ algorithm, params }}
+                algorithmLabel={algorithmLabel}
+                onComplete={(summary) => addToHistory({ algorithm: algorithmLabel, type: 'experiment', result: 'info', summary }, {
+                  algorithmId: algorithm,
+                  params,
+                  inputLength: senderPayload.bytes.length
+                })}
+              />
+            )}
+
+            {activeTab === 'diagnostics' && (
+              <SelfTestPanel
+                onComplete={(passed, total) => addToHistory({
+                  algorithm: 'Known-answer tests',
+                  type: 'experiment',
+                  result: passed === total ? 'match' : 'mismatch',
+                  summary: `Self-test: ${passed}/${total} reference vectors passed`
+                }, { notes: { passed, total } })}
+              />
+            )}
+
+            {/* Engineering Insights */}
+            {insightReport && (activeTab === 'single' || activeTab === 'batch') && (
+              <InsightReportPanel report={insightReport} onClose={() => setInsightReport(null)} />
             )}
           </div>
+        </main>
+
+        <aside className={`absolute top-0 right-0 h-full w-[30rem] bg-white border-l-8 border-slate-100 shadow-[0_0_150px_rgba(0,0,0,0.2)] z-40 overflow-y-auto transition-transform duration-700 cubic-bezier(0.4, 0, 0.2, 1) ${showHistory ? 'translate-x-0' : 'translate-x-full'}`}>
+          <AuditLogPanel records={history} onClear={clearHistory} onClose={() => setShowHistory(false)} />
         </aside>
       </div>
 
@@ -0,0 +1,391 @@
+import { parseArgs } from 'node:util';
+import { openAsBlob } from 'node:fs';
+import { readFile, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  AlgorithmId, AlgorithmParams, BatchItem, ByteRange, ManifestFormat,
+  ParamField, ParamValue, PayloadEncoding, PieceHashes, HammingCode
+} from '../types';
+import { calculateChecksum, createHasher, describeAlgorithm } from '../utils/hashUtils';
+import { getAlgorithm, listAlgorithms, resolveParams } from '../utils/registry';
+import { hashFile } from '../utils/fileUtils';
+import { formatManifest, parseManifest, verifyChecksum } from '../utils/manifest';
+import { describeRange, hashPieces, locateCorruption } from '../utils/pieces';
+import { decodePayload, PAYLOAD_ENCODINGS } from '../utils/encoding';
+import { Hamming, bytesToBits, describeCode, maxDataBits, minDataBits } from '../utils/hamming';
+import { runSelfTests } from '../utils/selfTest';
+
+const USAGE = `Usage:
+  npm run cli -- [options] [paths...]          Hash files, directories (recursively) or stdin ("-")
+  npm run cli -- --check <manifest> [options]  Verify a sha256sum / BSD / SFV / piece manifest
+  npm run cli -- hamming encode|decode <bits>  Hamming(n,k) / SECDED encode or decode
+  npm run cli -- selftest [--json]             Run the known-answer tests for every algorithm
+
+Checksum options (same settings as the UI):
+  -a, --algorithm <name>    e.g. additive, crc32, crc-16/modbus, sha256, blake3 (default: additive)
+  -p, --param <key=value>   Set a parameter of the algorithm's schema; repeatable (see --list)
+      --list                List registered algorithms and their parameters
+      --width <8|16|32>     Additive register width (default 16)
+      --init <hex>          Initial value for the additive or Internet checksum
+      --fletcher-a <hex>    Fletcher / Adler sum A initial value
+      --fletcher-b <hex>    Fletcher / Adler sum B initial value
+      --raw-sum             Internet checksum without the final ones' complement
+      --crc <model>         Custom CRC model, e.g. width=16,poly=1021,init=FFFF,refin=false,refout=false,xorout=0
+      --piece-size <n[K|M]> Also hash fixed-size pieces (KiB / MiB suffixes); output is a piece manifest
+      --text <string>       Hash a string instead of files
+      --encoding <enc>      Encoding for --text: ${PAYLOAD_ENCODINGS.filter(e => e.id !== 'binary').map(e => e.id).join(', ')}
+
+Output:
+      --format <gnu|bsd|sfv|pieces>  Manifest style for plain output (default gnu, or pieces with --piece-size)
+      --json                  Machine-readable output
+
+Hamming options:
+      --code <n,k>          Code size (default 7,4, or 8,4 with --secded); k may be shortened
+      --secded              Add the overall parity bit (SECDED)
+
+Exit status: 0 on success, 1 on any mismatch, missing file, uncorrectable block or failed self-test, 2 on usage errors.`;
+
+class UsageError extends Error {}
+
+type CliValues = Record<string, string | boolean | string[] | undefined>;
+
+/**
+ * Accepts a registered id or any spelling that matches it once case and punctuation are ignored.
+ */
+function parseAlgorithm(name: string): AlgorithmId {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const wanted = normalize(name);
+  const all = listAlgorithms().map(algorithm => algorithm.id);
+  const exact = all.find(algo =>
+    normalize(algo) === wanted || normalize(algo.replace(/\s*\(.*\)$/, '')) === wanted || normalize(algo.split(' ')[0]) === wanted
+  );
+  // Fall back to an unambiguous prefix, so "blake2b" finds "BLAKE2b-512"
+  const prefixed = all.filter(algo => normalize(algo).startsWith(wanted));
+  const match = exact || (wanted && prefixed.length === 1 ? prefixed[0] : undefined);
+  if (!match) throw new UsageError(`Unknown algorithm "${name}". Choose one of: ${all.join(', ')}`);
+  return match;
+}
+
+function parseParamValue(field: ParamField, raw: string): ParamValue {
+  const value = raw.trim();
+  if (field.type === 'toggle') {
+    if (value === 'true' || value === '1' || value === 'on') return true;
+    if (value === 'false' || value === '0' || value === 'off') return false;
+    throw new UsageError(`${field.key} expects true or false`);
+  }
+  if (field.type === 'hex') {
+    const hex = value.replace(/^0x/i, '').toUpperCase();
+    if (!/^[0-9A-F]+$/.test(hex) || hex.length > field.digits) throw new UsageError(`${field.key} expects up to ${field.digits} hex digits`);
+    return hex;
+  }
+  const parsed = parseInt(value, 10);
+  if (field.type === 'select' && !field.options.some(option => option.value === parsed)) {
+    throw new UsageError(`${field.key} must be one of ${field.options.map(option => option.value).join(', ')}`);
+  }
+  if (field.type === 'number' && !(parsed >= field.min && parsed <= field.max)) {
+    throw new UsageError(`${field.key} must be between ${field.min} and ${field.max}`);
+  }
+  return parsed;
+}
+
+interface Settings {
+  algorithm: AlgorithmId;
+  params: AlgorithmParams;
+}
+
+function buildSettings(values: CliValues): Settings {
+  const algorithm = parseAlgorithm((values.algorithm as string) || 'additive');
+  const definition = getAlgorithm(algorithm);
+
+  // The older dedicated flags are shorthands for schema parameters
+  const assignments: string[] = [];
+  if (values.width !== undefined) assignments.push(`bitWidth=${values.width}`);
+  if (values.init !== undefined) assignments.push(`initialValue=${values.init}`);
+  if (values['fletcher-a'] !== undefined) assignments.push(`initialA=${values['fletcher-a']}`);
+  if (values['fletcher-b'] !== undefined) assignments.push(`initialB=${values['fletcher-b']}`);
+  if (values['raw-sum']) assignments.push('complement=false');
+  if (values.crc !== undefined) assignments.push(...(values.crc as string).split(','));
+  const shorthands = assignments.length;
+  assignments.push(...((values.param as string[] | undefined) || []));
+
+  const params: AlgorithmParams = {};
+  assignments.forEach((assignment, index) => {
+    const [key, raw = ''] = assignment.split('=');
+    const field = definition.params.find(f => f.key === key.trim());
+    // Shorthands that do not apply to the chosen algorithm are ignored, as they always were
+    if (!field || definition.fixedParams?.[field.key] !== undefined) {
+      if (index < shorthands) return;
+      throw new UsageError(field
+        ? `${definition.name} fixes ${field.key}; use ${definition.customVariant || 'a custom model'} to change it`
+        : `${definition.name} has no parameter "${key}"${definition.params.length > 0 ? ` (expected ${definition.params.map(f => f.key).join(', ')})` : ''}`);
+    }
+    params[field.key] = parseParamValue(field, raw);
+  });
+
+  return { algorithm, params: resolveParams(algorithm, params) };
+}
+
+function listRegistered(): number {
+  for (const algorithm of listAlgorithms()) {
+    const params = algorithm.fixedParams ? [] : algorithm.params.map(field => `${field.key}=${field.default}`);
+    console.log(`${algorithm.id.padEnd(30)} ${algorithm.family.padEnd(17)} ${params.join(' ')}`);
+  }
+  return 0;
+}
+
+async function readStdin(): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+// Directories expand to their files, sorted, with forward-slash paths as in manifests
+async function expandPaths(inputs: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (input === '-') {
+      files.push(input);
+      continue;
+    }
+    const info = await stat(input);
+    if (!info.isDirectory()) {
+      files.push(input);
+      continue;
+    }
+    const entries = (await readdir(input, { recursive: true, withFileTypes: true }))
+      .filter(entry => entry.isFile())
+      .map(entry => path.join(entry.parentPath, entry.name).split(path.sep).join('/'))
+      .sort();
+    files.push(...entries);
+  }
+  return files;
+}
+
+function parsePieceSize(raw: string): number {
+  const match = /^(\d+)([KM]i?B?)?$/i.exec(raw.trim());
+  const size = match ? parseInt(match[1], 10) * (match[2] ? (match[2][0].toUpperCase() === 'K' ? 1024 : 1048576) : 1) : 0;
+  if (!size) throw new UsageError('--piece-size expects a positive size such as 1048576, 256K or 4M');
+  return size;
+}
+
+// calculateChecksum leaves empty payloads blank for the UI; here "" hashes like an empty file
+async function checksumBytes(bytes: Uint8Array, algorithm: AlgorithmId, params?: AlgorithmParams): Promise<string> {
+  if (bytes.length === 0) return createHasher(algorithm, params).digest();
+  return calculateChecksum(bytes, algorithm, params);
+}
+
+// Algorithms other than the selected one (e.g. from a BSD manifest) run with their defaults
+async function checksumPath(
+  file: string,
+  algorithm: AlgorithmId,
+  settings: Settings,
+  pieceSize: number = 0
+): Promise<{ checksum: string; size: number; pieces?: PieceHashes }> {
+  const params = algorithm === settings.algorithm ? settings.params : undefined;
+  if (file === '-') {
+    const bytes = await readStdin();
+    if (pieceSize > 0) return { ...(await hashPieces(new Blob([bytes]), algorithm, params, pieceSize)), size: bytes.length };
+    return { checksum: await checksumBytes(bytes, algorithm, params), size: bytes.length };
+  }
+  const blob = await openAsBlob(file);
+  if (pieceSize > 0) return { ...(await hashPieces(blob, algorithm, params, pieceSize)), size: blob.size };
+  return { checksum: await hashFile(blob, algorithm, params), size: blob.size };
+}
+
+async function runHash(inputs: string[], settings: Settings, values: CliValues): Promise<number> {
+  const pieceSize = values['piece-size'] !== undefined ? parsePieceSize(values['piece-size'] as string) : 0;
+  const format = ((values.format as string) || (pieceSize > 0 ? 'pieces' : 'gnu')) as ManifestFormat;
+  if (!['gnu', 'bsd', 'sfv', 'pieces'].includes(format)) throw new UsageError('--format must be gnu, bsd, sfv or pieces');
+  if (format === 'pieces' && pieceSize === 0) throw new UsageError('--format pieces needs --piece-size');
+  const label = describeAlgorithm(settings.algorithm, settings.params);
+
+  const items: BatchItem[] = [];
+  const errors: { path: string; error: string }[] = [];
+
+  if (values.text !== undefined) {
+    const bytes = decodePayload(values.text as string, parseEncoding(values));
+    const checksum = await checksumBytes(bytes, settings.algorithm, settings.params);
+    items.push({ id: '-', name: '-', size: bytes.length, file: null, bytesProcessed: bytes.length, checksum, algorithm: settings.algorithm, status: 'completed' });
+  } else {
+    for (const file of await expandPaths(inputs.length > 0 ? inputs : ['-'])) {
+      try {
+        const { checksum, size, pieces } = await checksumPath(file, settings.algorithm, settings, pieceSize);
+        items.push({ id: file, name: file, size, file: null, bytesProcessed: size, checksum, pieces, algorithm: settings.algorithm, status: 'completed' });
+      } catch (e) {
+        errors.push({ path: file, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify({
+      algorithm: label,
+      results: items.map(item => ({ path: item.name, size: item.size, checksum: item.checksum, pieces: item.pieces })),
+      errors
+    }, null, 2));
+  } else {
+    if (items.length > 0) process.stdout.write(formatManifest(items, format));
+    errors.forEach(({ path: file, error }) => console.error(`${file}: ${error}`));
+  }
+  return errors.length > 0 ? 1 : 0;
+}
+
+async function runCheck(manifestPath: string, settings: Settings, values: CliValues): Promise<number> {
+  const manifest = parseManifest(await readFile(manifestPath, 'utf8'), path.basename(manifestPath), settings.algorithm);
+  const results: {
+    path: string;
+    algorithm: AlgorithmId;
+    expected: string;
+    actual?: string;
+    status: 'ok' | 'failed' | 'missing';
+    corruptRanges?: ByteRange[];
+  }[] = [];
+
+  for (const { pieces: expectedPieces, ...entry } of manifest.entries) {
+    try {
+      const { checksum, pieces } = await checksumPath(entry.path, entry.algorithm, settings, expectedPieces?.size);
+      const status = verifyChecksum(checksum, entry.expected);
+      const corruptRanges = status === 'failed' && expectedPieces && pieces ? locateCorruption(expectedPieces, pieces) : undefined;
+      results.push({ ...entry, actual: checksum, status, corruptRanges });
+    } catch {
+      results.push({ ...entry, status: 'missing' });
+    }
+  }
+  const pieceSizeOf = (file: string) => manifest.entries.find(e => e.path === file)?.pieces?.size || 1;
+
+  const failed = results.filter(r => r.status === 'failed').length;
+  const missing = results.filter(r => r.status === 'missing').length;
+  const ok = failed === 0 && missing === 0 && results.length > 0;
+
+  if (values.json) {
+    console.log(JSON.stringify({ manifest: manifest.name, format: manifest.format, ok, results, errors: manifest.errors }, null, 2));
+  } else {
+    results.forEach(r => {
+      console.log(`${r.path}: ${r.status === 'ok' ? 'OK' : r.status === 'failed' ? 'FAILED' : 'MISSING'}`);
+      r.corruptRanges?.forEach(range => console.log(`  corrupt: ${describeRange(range, pieceSizeOf(r.path))}`));
+    });
+    manifest.errors.forEach(error => console.error(`${manifest.name}: ${error}`));
+    if (failed > 0) console.error(`WARNING: ${failed} computed checksum${failed === 1 ? '' : 's'} did NOT match`);
+    if (missing > 0) console.error(`WARNING: ${missing} listed file${missing === 1 ? '' : 's'} could not be read`);
+    if (results.length === 0) console.error(`${manifest.name}: no properly formatted checksum lines found`);
+  }
+  return ok ? 0 : 1;
+}
+
+function parseEncoding(values: CliValues): PayloadEncoding {
+  const encoding = ((values.encoding as string) || 'utf8') as PayloadEncoding;
+  const allowed = PAYLOAD_ENCODINGS.filter(e => e.id !== 'binary').map(e => e.id);
+  if (!allowed.includes(encoding)) throw new UsageError(`--encoding must be one of ${allowed.join(', ')}`);
+  return encoding;
+}
+
+function parseHammingCode(values: CliValues): HammingCode {
+  const extended = Boolean(values.secded);
+  const [n, k] = ((values.code as string) || (extended ? '8,4' : '7,4')).split(',').map(s => parseInt(s, 10));
+  // For SECDED, n counts the overall parity bit as well
+  const parityBits = n - k - (extended ? 1 : 0);
+  if (!n || !k || parityBits < 2) throw new UsageError('--code expects n,k with at least two Hamming parity bits');
+  if (k > maxDataBits(parityBits)) throw new UsageError(`Hamming codes with ${parityBits} parity bits protect at most ${maxDataBits(parityBits)} data bits`);
+  if (k < minDataBits(parityBits)) throw new UsageError(`Hamming codes with ${parityBits} parity bits need at least ${minDataBits(parityBits)} data bits`);
+  return { dataBits: k, parityBits, extended };
+}
+
+function runHamming(args: string[], values: CliValues): number {
+  const [mode, input] = args;
+  const code = parseHammingCode(values);
+  const length = code.dataBits + code.parityBits + (code.extended ? 1 : 0);
+
+  if (mode === 'encode') {
+    const bits = values.text !== undefined
+      ? bytesToBits(decodePayload(values.text as string, parseEncoding(values)))
+      : (input || '').replace(/[^01]/g, '');
+    if (!bits) throw new UsageError('hamming encode expects a bit string or --text');
+    const blocks = Hamming.encodeBlocks(bits, code);
+    if (values.json) console.log(JSON.stringify({ code: describeCode(code), blocks: blocks.map(b => ({ data: b.data, encoded: b.encoded })) }, null, 2));
+    else console.log(blocks.map(b => b.encoded).join(' '));
+    return 0;
+  }
+
+  if (mode === 'decode') {
+    const bits = (input || '').replace(/[^01]/g, '');
+    if (!bits || bits.length % length !== 0) throw new UsageError(`hamming decode expects a multiple of ${length} bits for ${describeCode(code)}`);
+    const blocks = [];
+    for (let i = 0; i < bits.length; i += length) blocks.push(Hamming.decode(bits.slice(i, i + length), code));
+    const uncorrectable = blocks.some(b => b.status === 'uncorrectable');
+    if (values.json) {
+      console.log(JSON.stringify({ code: describeCode(code), blocks }, null, 2));
+    } else {
+      console.log(blocks.map(b => b.corrected).join(' '));
+      blocks.forEach((b, i) => {
+        if (b.status === 'corrected') console.error(`block ${i}: corrected bit ${b.errorPos}`);
+        if (b.status === 'uncorrectable') console.error(`block ${i}: uncorrectable (syndrome ${b.syndrome})`);
+      });
+    }
+    return uncorrectable ? 1 : 0;
+  }
+
+  throw new UsageError('hamming expects "encode" or "decode"');
+}
+
+async function runSelfTest(values: CliValues): Promise<number> {
+  const results = await runSelfTests();
+  const failed = results.filter(r => !r.passed);
+  if (values.json) {
+    console.log(JSON.stringify({ passed: results.length - failed.length, failed: failed.length, results }, null, 2));
+  } else {
+    results.forEach(r => console.log(`${r.passed ? 'PASS' : 'FAIL'}  [${r.group}] ${r.name}${r.passed ? '' : ` (expected ${r.expected}, got ${r.actual})`}`));
+    console.log(`\n${results.length - failed.length}/${results.length} known-answer tests passed`);
+  }
+  return failed.length > 0 ? 1 : 0;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      algorithm: { type: 'string', short: 'a' },
+      param: { type: 'string', short: 'p', multiple: true },
+      list: { type: 'boolean' },
+      width: { type: 'string' },
+      init: { type: 'string' },
+      'fletcher-a': { type: 'string' },
+      'fletcher-b': { type: 'string' },
+      'raw-sum': { type: 'boolean' },
+      crc: { type: 'string' },
+      'piece-size': { type: 'string' },
+      text: { type: 'string' },
+      encoding: { type: 'string' },
+      check: { type: 'string', short: 'c' },
+      format: { type: 'string' },
+      json: { type: 'boolean' },
+      code: { type: 'string' },
+      secded: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals[0] === 'hamming') return runHamming(positionals.slice(1), values);
+  if (positionals[0] === 'selftest') return runSelfTest(values);
+  if (values.list) return listRegistered();
+
+  const settings = buildSettings(values);
+  if (values.check) return runCheck(values.check, settings, values);
+  return runHash(positionals, settings, values);
+}
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error(error instanceof Error ? error.message : String(error));
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error('Run with --help for usage.');
+      process.exitCode = 2;
+    } else {
+      process.exitCode = 1;
+    }
+  }
+);
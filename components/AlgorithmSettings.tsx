@@ -0,0 +1,134 @@
+import React from 'react';
+import { AlgorithmId, AlgorithmParams, ParamField } from '../types';
+import { getAlgorithm, listAlgorithms } from '../utils/registry';
+
+interface AlgorithmSettingsProps {
+  algorithm: AlgorithmId;
+  // Resolved parameters of the selected algorithm (see resolveParams)
+  params: AlgorithmParams;
+  onAlgorithmChange: (algorithm: AlgorithmId) => void;
+  onParamsChange: (algorithm: AlgorithmId, params: AlgorithmParams) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 text-white border-2 border-slate-700 rounded-xl p-4 text-base font-mono font-black focus:ring-4 focus:ring-indigo-500/30 uppercase hover:border-indigo-500 transition-all disabled:opacity-60';
+const labelClass = 'text-xs font-black text-indigo-400 block mb-2 uppercase tracking-widest';
+
+/**
+ * Algorithm picker plus one control per field of the selected algorithm's
+ * parameter schema, so registered algorithms get a settings panel for free.
+ */
+const AlgorithmSettings: React.FC<AlgorithmSettingsProps> = ({ algorithm, params, onAlgorithmChange, onParamsChange }) => {
+  const definition = getAlgorithm(algorithm);
+  const families = [...new Set(listAlgorithms().map(a => a.family))];
+  const locked = Boolean(definition.fixedParams);
+  const setParam = (key: string, value: AlgorithmParams[string]) => onParamsChange(algorithm, { ...params, [key]: value });
+
+  const renderField = (field: ParamField) => {
+    const value = params[field.key];
+    if (field.type === 'select') {
+      return (
+        <select
+          value={Number(value)}
+          disabled={locked}
+          onChange={(e) => setParam(field.key, parseInt(e.target.value, 10))}
+          className={`${inputClass} appearance-none cursor-pointer font-sans`}
+        >
+          {field.options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    }
+    if (field.type === 'toggle') {
+      return (
+        <button
+          disabled={locked}
+          onClick={() => setParam(field.key, !value)}
+          className={`w-full p-4 rounded-xl border-2 text-xs font-black uppercase tracking-widest transition-all disabled:opacity-60 ${value ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-indigo-500'}`}
+        >
+          {value ? field.on : field.off}
+        </button>
+      );
+    }
+    if (field.type === 'number') {
+      return (
+        <input
+          type="number"
+          min={field.min}
+          max={field.max}
+          disabled={locked}
+          value={Number(value)}
+          onChange={(e) => {
+            const val = parseInt(e.target.value, 10);
+            if (!isNaN(val) && val >= field.min && val <= field.max) setParam(field.key, val);
+          }}
+          className={inputClass}
+        />
+      );
+    }
+    return (
+      <input
+        type="text"
+        disabled={locked}
+        value={String(value)}
+        onChange={(e) => {
+          const val = e.target.value.toUpperCase();
+          if (new RegExp(`^[0-9A-F]{0,${field.digits}}$`).test(val)) setParam(field.key, val);
+        }}
+        className={inputClass}
+        placeholder="0"
+      />
+    );
+  };
+
+  return (
+    <>
+      <div className="mb-6">
+        <label className={labelClass}>Algorithm</label>
+        <select
+          value={algorithm}
+          onChange={(e) => onAlgorithmChange(e.target.value)}
+          className="w-full bg-slate-800 text-white border-2 border-slate-700 rounded-xl p-4 text-base font-black focus:ring-4 focus:ring-indigo-500/30 appearance-none cursor-pointer hover:border-indigo-500 transition-all"
+        >
+          {families.map(family => (
+            <optgroup key={family} label={family}>
+              {listAlgorithms().filter(a => a.family === family).map(a => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+      {definition.params.length === 0 ? (
+        <div className="p-4 bg-slate-800/60 border-2 border-dashed border-slate-700 rounded-xl text-xs font-black text-slate-400 uppercase tracking-widest">
+          {definition.note || 'No tunable params'}
+        </div>
+      ) : (
+        <div className={`grid ${definition.params.length > 4 ? 'grid-cols-3 gap-4' : 'grid-cols-2 gap-8'}`}>
+          {definition.params.map(field => (
+            <div key={field.key} className="self-end">
+              <label className={labelClass}>{field.label}{field.type === 'hex' ? ' (Hex)' : ''}</label>
+              {renderField(field)}
+            </div>
+          ))}
+          {locked && definition.customVariant && (
+            <button
+              onClick={() => {
+                onParamsChange(definition.customVariant!, { ...params });
+                onAlgorithmChange(definition.customVariant!);
+              }}
+              className={`${definition.params.length > 4 ? 'col-span-3' : 'col-span-2'} p-3 rounded-xl border-2 border-dashed border-slate-700 text-xs font-black text-slate-400 uppercase tracking-widest hover:border-indigo-500 hover:text-indigo-400 transition-all`}
+            >
+              Edit as custom model
+            </button>
+          )}
+          {definition.note && (
+            <p className={`${definition.params.length > 4 ? 'col-span-3' : 'col-span-2'} text-xs font-black text-slate-500 uppercase tracking-widest`}>{definition.note}</p>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AlgorithmSettings;
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { ChecksumConfig } from '../types';
+import { MAX_TRACE_BYTES, traceChecksum } from '../utils/trace';
+import { Footprints, ChevronLeft, ChevronRight, SkipBack, SkipForward, AlertCircle } from 'lucide-react';
+
+interface AlgorithmTraceProps {
+  bytes: Uint8Array;
+  config: ChecksumConfig;
+  algorithmLabel: string;
+}
+
+// Digest blocks are long; the table shows their opening bytes
+const shorten = (value: string, max = 24) => (value.length > max ? `${value.slice(0, max)}…` : value);
+
+/**
+ * Steps through the sender's checksum one byte, word or block at a time,
+ * showing the accumulator before and after each step.
+ */
+const AlgorithmTrace: React.FC<AlgorithmTraceProps> = ({ bytes, config, algorithmLabel }) => {
+  const [open, setOpen] = useState(false);
+  const [cursor, setCursor] = useState(0);
+
+  const trace = useMemo(() => {
+    if (!open) return null;
+    try {
+      return traceChecksum(bytes, config);
+    } catch (e) {
+      console.error(e);
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [open, bytes, config.algorithm, config.params]);
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => { setOpen(true); setCursor(0); }}
+        className="w-full p-3 rounded-xl border-2 border-dashed border-slate-300 text-xs font-black text-slate-500 uppercase tracking-widest flex items-center justify-center gap-2 hover:border-indigo-500 hover:text-indigo-600 transition-all"
+      >
+        <Footprints size={16} /> Trace {algorithmLabel} step by step
+      </button>
+    );
+  }
+
+  const steps = trace && 'steps' in trace ? trace.steps : [];
+  // The payload may have shrunk since the cursor was placed
+  const position = Math.min(cursor, steps.length);
+  const current = position > 0 ? steps[position - 1] : null;
+  const done = position === steps.length;
+
+  return (
+    <div className="p-6 rounded-[2rem] border-4 border-slate-200 bg-white shadow-xl space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-base font-black uppercase tracking-[0.3em] flex items-center gap-2 text-slate-500">
+          <Footprints size={20} /> Algorithm Trace
+        </div>
+        <button onClick={() => setOpen(false)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600">Hide</button>
+      </div>
+
+      {trace && 'error' in trace && (
+        <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {trace.error}</p>
+      )}
+
+      {trace && 'steps' in trace && (
+        <>
+          <div className="flex items-center gap-2">
+            {([
+              [<SkipBack size={16} />, () => setCursor(0), 'Start'],
+              [<ChevronLeft size={16} />, () => setCursor(Math.max(0, position - 1)), 'Previous step'],
+              [<ChevronRight size={16} />, () => setCursor(Math.min(steps.length, position + 1)), 'Next step'],
+              [<SkipForward size={16} />, () => setCursor(steps.length), 'Finish'],
+            ] as const).map(([icon, action, title]) => (
+              <button
+                key={title}
+                onClick={action}
+                title={title}
+                className="p-2 border-2 border-slate-200 rounded-xl text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all"
+              >
+                {icon}
+              </button>
+            ))}
+            <span className="ml-2 text-xs font-black text-slate-400 uppercase tracking-widest">
+              Step {position} / {steps.length}
+            </span>
+          </div>
+
+          <div className="p-4 bg-slate-900 text-slate-100 rounded-2xl font-mono text-sm space-y-2 min-h-[7rem]">
+            {!current ? (
+              <>
+                <div className="text-indigo-300 font-black">start = {trace.start.value || '—'}</div>
+                <div className="text-slate-400 text-xs">{trace.start.note}</div>
+              </>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-3 font-black">
+                  <span className="text-slate-400">@{current.offset}</span>
+                  <span className="text-amber-300 break-all">in {shorten(current.input, 48)}</span>
+                  {current.before && <span className="break-all">{shorten(current.before, 48)} → <span className="text-indigo-300">{shorten(current.after, 48)}</span></span>}
+                  {current.wrapped && <span className="px-2 py-0.5 rounded bg-red-500 text-white text-[10px] uppercase tracking-widest">wrapped</span>}
+                </div>
+                {current.detail.map((line, i) => (
+                  <div key={i} className="text-xs text-slate-300">{line}</div>
+                ))}
+              </>
+            )}
+            {done && (
+              <div className="pt-2 border-t border-white/10 space-y-1">
+                {trace.finish.map((step, i) => (
+                  <div key={i} className="text-xs text-slate-300">{step.note} → <span className="text-indigo-300 font-black">{step.value}</span></div>
+                ))}
+                <div className="text-emerald-400 font-black">result = {trace.result}</div>
+              </div>
+            )}
+          </div>
+
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  <th className="py-2 pr-3">Offset</th>
+                  <th className="py-2 pr-3">Input</th>
+                  <th className="py-2 pr-3">Before</th>
+                  <th className="py-2">After</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono font-bold">
+                {steps.map((step, i) => (
+                  <tr
+                    key={i}
+                    onClick={() => setCursor(i + 1)}
+                    className={`border-t border-slate-100 cursor-pointer ${i + 1 === position ? 'bg-indigo-50' : i + 1 > position ? 'text-slate-300' : 'text-slate-700'}`}
+                  >
+                    <td className="py-1 pr-3">{step.offset}</td>
+                    <td className="py-1 pr-3">{shorten(step.input)}</td>
+                    <td className="py-1 pr-3">{shorten(step.before) || '—'}</td>
+                    <td className={`py-1 ${step.wrapped ? 'text-red-500' : ''}`}>{shorten(step.after) || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {trace.tracedBytes !== null && (
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              Tracing the first {MAX_TRACE_BYTES} bytes; the result above is for that prefix, not the whole payload.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AlgorithmTrace;
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { ArqEventKind, ArqOptions, ArqProtocol, ArqResult, ChannelOptions, ChecksumConfig } from '../types';
+import { ARQ_PROTOCOLS, DEFAULT_ARQ_OPTIONS, MAX_ARQ_MESSAGE_BYTES, MAX_ARQ_WINDOW, arqGoodput, simulateArq } from '../utils/arq';
+import { describeChannel } from '../utils/channel';
+import ChannelControls from './ChannelControls';
+import { Repeat, Play, AlertCircle, ArrowRight, ArrowLeft, ListOrdered } from 'lucide-react';
+
+interface ArqSimulatorProps {
+  payload: Uint8Array;
+  payloadError?: string;
+  config: ChecksumConfig;
+  algorithmLabel: string;
+  channel: ChannelOptions;
+  onChannelChange: (options: ChannelOptions) => void;
+  onComplete?: (summary: string) => void;
+}
+
+type NumberField = 'frameBytes' | 'windowSize' | 'propagationDelay' | 'timeout';
+type RateField = 'frameLossRate' | 'ackLossRate';
+
+const NUMBER_FIELDS: { field: NumberField; label: string; min: number; max: number }[] = [
+  { field: 'frameBytes', label: 'Bytes / Frame', min: 1, max: 1024 },
+  { field: 'windowSize', label: 'Window', min: 1, max: MAX_ARQ_WINDOW },
+  { field: 'propagationDelay', label: 'Delay (ticks)', min: 1, max: 100 },
+  { field: 'timeout', label: 'Timeout (ticks)', min: 1, max: 1000 },
+];
+
+const RATE_FIELDS: { field: RateField; label: string }[] = [
+  { field: 'frameLossRate', label: 'Frame Loss' },
+  { field: 'ackLossRate', label: 'ACK Loss' },
+];
+
+// Receiver-side events are drawn arriving from the left
+const RECEIVER_EVENTS: ArqEventKind[] = ['accepted', 'undetected', 'rejected', 'duplicate', 'discarded', 'ack', 'nak', 'ack-lost'];
+
+const EVENT_STYLES: Record<ArqEventKind, string> = {
+  send: 'bg-indigo-100 text-indigo-700',
+  resend: 'bg-amber-100 text-amber-700',
+  lost: 'bg-slate-200 text-slate-500',
+  timeout: 'bg-amber-100 text-amber-700',
+  accepted: 'bg-emerald-100 text-emerald-700',
+  undetected: 'bg-red-600 text-white',
+  rejected: 'bg-red-100 text-red-700',
+  duplicate: 'bg-slate-100 text-slate-500',
+  discarded: 'bg-slate-100 text-slate-500',
+  ack: 'bg-emerald-50 text-emerald-600',
+  nak: 'bg-red-50 text-red-600',
+  'ack-lost': 'bg-slate-200 text-slate-500',
+};
+
+/**
+ * Frames the sender payload, sends it over the channel model under an ARQ
+ * protocol and shows the exchange as a timeline with the resulting goodput.
+ */
+const ArqSimulator: React.FC<ArqSimulatorProps> = ({ payload, payloadError, config, algorithmLabel, channel, onChannelChange, onComplete }) => {
+  const [options, setOptions] = useState<ArqOptions>(DEFAULT_ARQ_OPTIONS);
+  const [result, setResult] = useState<ArqResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const message = payload.subarray(0, MAX_ARQ_MESSAGE_BYTES);
+
+  const runSimulation = () => {
+    if (payloadError) {
+      setError(payloadError);
+      return;
+    }
+    if (payload.length === 0) {
+      setError('Enter a sender payload to transmit');
+      return;
+    }
+    setError(null);
+    try {
+      const run = simulateArq(message, config, channel, options);
+      setResult(run);
+      const protocol = ARQ_PROTOCOLS.find(p => p.id === options.protocol)!.label;
+      onComplete?.(`${protocol} over ${describeChannel(channel)}: ${run.frames.length} frames, ${run.retransmissions} retransmissions, ${run.undetectedFrames.length} undetected corrupt frame${run.undetectedFrames.length === 1 ? '' : 's'}`);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const goodput = result ? arqGoodput(result) : null;
+  const stats = result ? [
+    { label: 'Frames', value: result.frames.length },
+    { label: 'Transmissions', value: result.transmissions },
+    { label: 'Retransmissions', value: result.retransmissions },
+    { label: 'Elapsed (ticks)', value: result.elapsed },
+    { label: 'Rejected by checksum', value: result.rejectedFrames },
+    { label: 'Lost frames / ACKs', value: `${result.lostFrames} / ${result.lostAcks}` },
+    { label: 'Timeouts', value: result.timeouts },
+    { label: 'Goodput', value: `${goodput!.bytesPerTick.toFixed(2)} B/tick (${(goodput!.efficiency * 100).toFixed(1)}%)` },
+  ] : [];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <section className="lg:col-span-1 bg-white p-10 rounded-[3rem] border-4 border-slate-100 shadow-xl space-y-8 h-fit">
+        <h3 className="text-xl font-black flex items-center gap-4 uppercase tracking-tighter italic text-indigo-700">
+          <Repeat size={32} className="text-indigo-600" />
+          Link Setup
+        </h3>
+        <div>
+          <label className="text-xs font-black text-slate-400 mb-4 block tracking-[0.4em] uppercase">Channel</label>
+          <ChannelControls options={channel} onChange={onChannelChange} />
+        </div>
+        <div>
+          <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">Protocol</label>
+          <select
+            value={options.protocol}
+            onChange={(e) => setOptions({ ...options, protocol: e.target.value as ArqProtocol })}
+            className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-sm font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+          >
+            {ARQ_PROTOCOLS.map(protocol => (
+              <option key={protocol.id} value={protocol.id}>{protocol.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          {NUMBER_FIELDS.map(({ field, label, min, max }) => (
+            <div key={field}>
+              <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">{label}</label>
+              <input
+                type="number"
+                min={min}
+                max={max}
+                value={field === 'windowSize' && options.protocol === 'stop-and-wait' ? 1 : options[field]}
+                disabled={field === 'windowSize' && options.protocol === 'stop-and-wait'}
+                onChange={(e) => setOptions({ ...options, [field]: Math.min(max, Math.max(min, parseInt(e.target.value, 10) || min)) })}
+                className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black disabled:opacity-50"
+              />
+            </div>
+          ))}
+          {RATE_FIELDS.map(({ field, label }) => (
+            <div key={field}>
+              <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">{label}</label>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step="any"
+                value={options[field]}
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val >= 0 && val < 1) setOptions({ ...options, [field]: val });
+                }}
+                className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs font-bold text-slate-500">
+          Each frame carries a sequence byte and a {algorithmLabel} checksum. {payload.length > MAX_ARQ_MESSAGE_BYTES ? `Only the first ${MAX_ARQ_MESSAGE_BYTES / 1024} KiB of the payload is sent.` : `The ${payload.length}-byte sender payload is sent.`}
+        </p>
+        {error && (
+          <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+        )}
+        <button
+          onClick={runSimulation}
+          className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-2xl hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100 uppercase italic tracking-tighter flex items-center justify-center gap-4"
+        >
+          <Play size={28} /> TRANSMIT
+        </button>
+      </section>
+
+      <section className="lg:col-span-2 bg-white rounded-[3.5rem] border-4 border-slate-100 shadow-3xl overflow-hidden flex flex-col">
+        <div className="p-8 border-b-4 border-slate-50 bg-slate-50/50 flex items-center justify-between">
+          <span className="text-sm font-black uppercase tracking-[0.3em] text-slate-800 italic flex items-center gap-3"><ListOrdered size={20} /> Transfer Timeline</span>
+          {result && (
+            <span className={`text-xs font-black uppercase tracking-widest ${result.deliveredIntact ? 'text-emerald-600' : 'text-red-600'}`}>
+              {!result.completed ? 'Gave up: link too lossy' : result.deliveredIntact ? 'Message delivered intact' : 'Delivered message is corrupt'}
+            </span>
+          )}
+        </div>
+        {!result ? (
+          <p className="text-center py-24 text-2xl font-black uppercase tracking-[0.4em] text-slate-200 italic">No transfer yet</p>
+        ) : (
+          <div className="p-10 space-y-8">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map(stat => (
+                <div key={stat.label} className="p-4 bg-slate-50 rounded-2xl border-2 border-slate-100">
+                  <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{stat.label}</div>
+                  <div className="font-mono font-black text-lg text-slate-800 mt-1">{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {result.undetectedFrames.length > 0 && (
+              <div className="p-4 bg-red-50 border-2 border-red-200 rounded-2xl text-sm font-bold text-red-700">
+                {algorithmLabel} passed {result.undetectedFrames.length} corrupted frame{result.undetectedFrames.length === 1 ? '' : 's'} ({result.undetectedFrames.map(i => `#${i}`).join(', ')}); the receiver delivered {result.undetectedFrames.length === 1 ? 'it' : 'them'} as good data.
+              </div>
+            )}
+
+            <div>
+              <label className="text-xs font-black text-slate-400 mb-3 block tracking-[0.4em] uppercase">Sends per frame</label>
+              <div className="flex flex-wrap gap-1">
+                {result.frames.map(frame => (
+                  <div
+                    key={frame.index}
+                    title={`Frame ${frame.index}: sent ${frame.sends}×${frame.undetected ? ', corrupted but accepted' : ''}`}
+                    className={`w-7 h-7 rounded-md flex items-center justify-center text-[10px] font-mono font-black ${
+                      frame.undetected ? 'bg-red-600 text-white' : frame.sends > 1 ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'
+                    }`}
+                  >
+                    {frame.sends}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="max-h-[32rem] overflow-y-auto border-2 border-slate-100 rounded-2xl">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-slate-50 text-slate-400 uppercase tracking-widest">
+                  <tr>
+                    <th className="p-3 text-left">Tick</th>
+                    <th className="p-3 text-left">Sender</th>
+                    <th className="p-3"></th>
+                    <th className="p-3 text-left">Receiver</th>
+                    <th className="p-3 text-left">Detail</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.events.map((event, i) => {
+                    const atReceiver = RECEIVER_EVENTS.includes(event.kind);
+                    const badge = (
+                      <span className={`px-2 py-1 rounded-md font-black uppercase tracking-wide ${EVENT_STYLES[event.kind]}`}>
+                        {event.kind} {event.frame}
+                      </span>
+                    );
+                    return (
+                      <tr key={i} className="border-t border-slate-100">
+                        <td className="p-3 font-mono text-slate-400">{event.time}</td>
+                        <td className="p-3">{!atReceiver && badge}</td>
+                        <td className="p-3 text-slate-300">
+                          {event.kind === 'ack' || event.kind === 'nak' ? <ArrowLeft size={14} /> : event.kind === 'send' || event.kind === 'resend' ? <ArrowRight size={14} /> : null}
+                        </td>
+                        <td className="p-3">{atReceiver && badge}</td>
+                        <td className="p-3 text-slate-600 font-bold">{event.detail}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {result.eventCount > result.events.length && (
+                <p className="p-4 text-xs font-black text-slate-400 uppercase tracking-widest">
+                  Showing the first {result.events.length} of {result.eventCount} events
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ArqSimulator;
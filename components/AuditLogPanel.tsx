@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { AuditChainStatus, AuditFilter, AuditRecord } from '../types';
+import { DEFAULT_AUDIT_FILTER, auditToCsv, filterAuditRecords, verifyAuditChain } from '../utils/auditLog';
+import { downloadText } from '../utils/fileUtils';
+import { History as HistoryIcon, Trash2, X, Cpu, Download, Link2, Link2Off, ChevronDown } from 'lucide-react';
+
+interface AuditLogPanelProps {
+  records: AuditRecord[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const TYPES: AuditFilter['type'][] = ['all', 'single', 'batch', 'correction', 'experiment', 'audit'];
+const RESULTS: AuditFilter['result'][] = ['all', 'match', 'mismatch', 'corrected', 'info'];
+
+const filterClass = 'bg-slate-50 border-2 border-slate-100 rounded-xl p-2 text-xs font-black uppercase tracking-widest text-slate-600 hover:border-indigo-500 transition-all';
+
+/**
+ * Side panel over the hash-chained audit log: filters, chain verification and export.
+ */
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ records, onClear, onClose }) => {
+  const [filter, setFilter] = useState<AuditFilter>(DEFAULT_AUDIT_FILTER);
+  const [chain, setChain] = useState<AuditChainStatus | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    verifyAuditChain(records)
+      .then(status => { if (!cancelled) setChain(status); })
+      .catch(e => console.error('Audit chain verification failed', e));
+    return () => { cancelled = true; };
+  }, [records]);
+
+  const visible = filterAuditRecords(records, filter).reverse();
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <>
+      <div className="p-8 border-b-4 border-slate-50 sticky top-0 bg-white/95 backdrop-blur-3xl z-10 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-black flex items-center gap-4 text-2xl uppercase tracking-tighter italic text-indigo-700">
+            <HistoryIcon size={32} className="text-indigo-600" /> Integrity Log
+          </h3>
+          <div className="flex gap-2">
+            <button onClick={onClear} title="Clear log" className="p-4 text-slate-300 hover:text-red-600 transition-all bg-slate-50 rounded-2xl hover:bg-red-50 hover:shadow-lg"><Trash2 size={24} /></button>
+            <button onClick={onClose} className="p-4 text-slate-300 hover:text-slate-800 transition-all bg-slate-50 rounded-2xl hover:bg-slate-100 hover:shadow-lg"><X size={24} /></button>
+          </div>
+        </div>
+        {chain && (
+          <div className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest ${chain.ok ? 'text-emerald-600' : 'text-red-600'}`}>
+            {chain.ok ? <Link2 size={14} /> : <Link2Off size={14} />}
+            {chain.ok ? `Hash chain intact · ${chain.checked} records${chain.clearedThrough ? ` · #1–#${chain.clearedThrough} cleared` : ''}` : `Chain broken at #${chain.brokenAt}: ${chain.reason}`}
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <select value={filter.type} onChange={(e) => setFilter({ ...filter, type: e.target.value as AuditFilter['type'] })} className={filterClass}>
+            {TYPES.map(t => <option key={t} value={t}>{t === 'all' ? 'All types' : t}</option>)}
+          </select>
+          <select value={filter.result} onChange={(e) => setFilter({ ...filter, result: e.target.value as AuditFilter['result'] })} className={filterClass}>
+            {RESULTS.map(r => <option key={r} value={r}>{r === 'all' ? 'All results' : r}</option>)}
+          </select>
+          <input
+            type="text"
+            value={filter.algorithm}
+            onChange={(e) => setFilter({ ...filter, algorithm: e.target.value })}
+            placeholder="Algorithm"
+            className={`${filterClass} col-span-2 normal-case`}
+          />
+          <input type="date" value={filter.from} onChange={(e) => setFilter({ ...filter, from: e.target.value })} className={filterClass} />
+          <input type="date" value={filter.to} onChange={(e) => setFilter({ ...filter, to: e.target.value })} className={filterClass} />
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{visible.length} of {records.length} shown</span>
+          <div className="flex gap-2">
+            {(['json', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                disabled={visible.length === 0}
+                onClick={() => {
+                  const rows = [...visible].reverse();
+                  if (format === 'json') downloadText(`audit-log-${stamp}.json`, JSON.stringify(rows, null, 2), 'application/json');
+                  else downloadText(`audit-log-${stamp}.csv`, auditToCsv(rows), 'text/csv');
+                }}
+                className="px-3 py-2 border-2 border-slate-100 rounded-xl text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-1 hover:border-indigo-500 hover:text-indigo-600 transition-all disabled:opacity-40"
+              >
+                <Download size={12} /> {format}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="p-8 space-y-6 bg-slate-50/20">
+        {visible.length === 0 ? (
+          <div className="text-center py-32 text-slate-300 flex flex-col items-center">
+            <div className="w-24 h-24 bg-white rounded-3xl flex items-center justify-center mb-6 shadow-xl border-4 border-slate-50">
+              <HistoryIcon size={48} className="opacity-10" />
+            </div>
+            <p className="text-sm font-black uppercase tracking-[0.4em] opacity-40">{records.length === 0 ? 'Zero recorded events' : 'No events match'}</p>
+          </div>
+        ) : (
+          visible.map(entry => (
+            <div key={entry.seq} className={`p-8 rounded-[2.5rem] border-4 bg-white hover:border-indigo-500 hover:shadow-2xl transition-all duration-500 group cursor-default relative overflow-hidden ${chain && !chain.ok && chain.brokenAt === entry.seq ? 'border-red-400' : 'border-slate-50'}`}>
+              <div className="flex items-center justify-between mb-4">
+                <span className={`text-[10px] font-black px-4 py-1.5 rounded-full uppercase tracking-[0.3em] shadow-sm ${
+                  entry.type === 'single' ? 'bg-indigo-600 text-white' :
+                  entry.type === 'batch' ? 'bg-amber-500 text-white' :
+                  entry.type === 'experiment' ? 'bg-slate-800 text-white' :
+                  entry.type === 'audit' ? 'bg-red-600 text-white' : 'bg-emerald-600 text-white'
+                }`}>
+                  {entry.type}
+                </span>
+                <span className="text-xs text-slate-400 font-black font-mono">
+                  #{entry.seq} · {new Date(entry.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              <p className="text-lg font-black text-slate-800 mb-4 line-clamp-2 leading-tight group-hover:text-indigo-700 transition-colors uppercase italic tracking-tighter">{entry.summary}</p>
+              <button
+                onClick={() => setExpanded(expanded === entry.seq ? null : entry.seq)}
+                className="w-full flex items-center gap-3 text-xs text-slate-400 font-black uppercase tracking-[0.2em] pt-4 border-t-2 border-slate-50 group-hover:border-indigo-100"
+              >
+                <Cpu size={16} className="text-indigo-400" /> <span className="flex-1 text-left truncate">{entry.algorithm}</span>
+                <span className={entry.result === 'mismatch' ? 'text-red-600' : entry.result === 'match' ? 'text-emerald-600' : ''}>{entry.result}</span>
+                <ChevronDown size={16} className={`transition-transform ${expanded === entry.seq ? 'rotate-180' : ''}`} />
+              </button>
+              {expanded === entry.seq && (
+                <pre className="mt-4 p-4 bg-slate-900 text-slate-300 rounded-2xl text-[10px] font-mono whitespace-pre-wrap break-all">
+                  {JSON.stringify({ ...entry.details, prevHash: entry.prevHash, hash: entry.hash }, null, 2)}
+                </pre>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  );
+};
+
+export default AuditLogPanel;
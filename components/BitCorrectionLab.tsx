@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { HammingCode, HammingResult, PayloadEncoding } from '../types';
+import { Hamming, HAMMING_PRESETS, bitsToBytes, bytesToBits, codeLength, describeCode, maxDataBits, minDataBits } from '../utils/hamming';
+import { PAYLOAD_ENCODINGS, decodePayload, encodePayload, toHexDump } from '../utils/encoding';
+import ParityMatrix from './ParityMatrix';
+import { Binary, CheckCircle2, Info, RefreshCcw, AlertCircle, Terminal } from 'lucide-react';
+
+type InputMode = 'bits' | Exclude<PayloadEncoding, 'binary'>;
+
+// Rendering thousands of bit buttons freezes the tab; larger payloads are summarised
+const MAX_RENDERED_BLOCKS = 128;
+
+const isParityIndex = (index: number, code: HammingCode) => {
+  const position = code.extended ? index : index + 1;
+  return position === 0 || (position & (position - 1)) === 0;
+};
+
+const BitCorrectionLab: React.FC = () => {
+  const [presetIndex, setPresetIndex] = useState<number>(0);
+  const [customCode, setCustomCode] = useState<HammingCode>({ dataBits: 11, parityBits: 4, extended: false });
+  const [inputMode, setInputMode] = useState<InputMode>('bits');
+  const [hammingInput, setHammingInput] = useState<string>("1011");
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [hammingResult, setHammingResult] = useState<HammingResult | null>(null);
+  const [selectedBlock, setSelectedBlock] = useState<number>(0);
+
+  const code = presetIndex >= 0 ? HAMMING_PRESETS[presetIndex].code : customCode;
+
+  const runHamming = () => {
+    let bits: string;
+    try {
+      bits = inputMode === 'bits' ? hammingInput.replace(/[^01]/g, '') : bytesToBits(decodePayload(hammingInput, inputMode));
+    } catch (e) {
+      setInputError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    if (bits.length === 0) {
+      setInputError('Enter a payload to encode');
+      return;
+    }
+    setInputError(null);
+    setHammingResult({ code, original: bits, blocks: Hamming.encodeBlocks(bits, code) });
+    setSelectedBlock(0);
+  };
+
+  const flipBit = (blockIndex: number, index: number) => {
+    if (!hammingResult) return;
+    const block = hammingResult.blocks[blockIndex];
+    const bits = block.received.split('');
+    bits[index] = bits[index] === '0' ? '1' : '0';
+    const blocks = [...hammingResult.blocks];
+    blocks[blockIndex] = Hamming.decodeBlock(block, bits.join(''), hammingResult.code);
+    setHammingResult({ ...hammingResult, blocks });
+    setSelectedBlock(blockIndex);
+  };
+
+  const corrected = hammingResult?.blocks.filter(b => b.status === 'corrected').length || 0;
+  const uncorrectable = hammingResult?.blocks.filter(b => b.status === 'uncorrectable').length || 0;
+  const outputBits = hammingResult ? hammingResult.blocks.map(b => b.corrected).join('').slice(0, hammingResult.original.length) : '';
+
+  let outputText = outputBits;
+  if (hammingResult && inputMode !== 'bits') {
+    const bytes = bitsToBytes(outputBits);
+    try {
+      outputText = encodePayload(bytes, inputMode);
+    } catch {
+      outputText = toHexDump(bytes);
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="lg:col-span-1 space-y-10">
+         <section className="bg-white p-10 rounded-[3rem] border-4 border-slate-100 shadow-xl">
+            <h3 className="text-xl font-black mb-8 flex items-center gap-4 uppercase tracking-tighter italic text-indigo-700">
+              <Terminal size={32} className="text-indigo-600" />
+              Encoder Console
+            </h3>
+            <div className="space-y-8">
+              <div>
+                <label className="text-xs font-black text-slate-400 mb-4 block tracking-[0.4em] uppercase">Code</label>
+                <select
+                  value={presetIndex}
+                  onChange={(e) => setPresetIndex(parseInt(e.target.value, 10))}
+                  className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-4 text-base font-black cursor-pointer hover:border-indigo-500 transition-all"
+                >
+                  {HAMMING_PRESETS.map((preset, i) => (
+                    <option key={preset.label} value={i}>{preset.label}</option>
+                  ))}
+                  <option value={-1}>Custom ({describeCode(customCode)})</option>
+                </select>
+              </div>
+
+              {presetIndex < 0 && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">Parity r</label>
+                    <input
+                      type="number"
+                      min={2}
+                      max={8}
+                      value={customCode.parityBits}
+                      onChange={(e) => {
+                        const r = parseInt(e.target.value, 10);
+                        if (r >= 2 && r <= 8) setCustomCode({ ...customCode, parityBits: r, dataBits: maxDataBits(r) });
+                      }}
+                      className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">Data k</label>
+                    <input
+                      type="number"
+                      min={minDataBits(customCode.parityBits)}
+                      max={maxDataBits(customCode.parityBits)}
+                      value={customCode.dataBits}
+                      onChange={(e) => {
+                        const k = parseInt(e.target.value, 10);
+                        if (k >= minDataBits(customCode.parityBits) && k <= maxDataBits(customCode.parityBits)) setCustomCode({ ...customCode, dataBits: k });
+                      }}
+                      className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">SECDED</label>
+                    <button
+                      onClick={() => setCustomCode({ ...customCode, extended: !customCode.extended })}
+                      className={`w-full p-3 rounded-xl border-2 font-black uppercase text-sm transition-all ${customCode.extended ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-100 border-slate-200 text-slate-500'}`}
+                    >
+                      {customCode.extended ? 'On' : 'Off'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <label className="text-xs font-black text-slate-400 block tracking-[0.4em] uppercase">Payload</label>
+                  <select
+                    value={inputMode}
+                    onChange={(e) => setInputMode(e.target.value as InputMode)}
+                    className="bg-slate-100 border-2 border-slate-200 rounded-xl px-3 py-2 text-xs font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+                  >
+                    <option value="bits">Raw Bits</option>
+                    {PAYLOAD_ENCODINGS.filter(enc => enc.id !== 'binary').map(enc => (
+                      <option key={enc.id} value={enc.id}>{enc.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <textarea
+                  value={hammingInput}
+                  onChange={(e) => setHammingInput(inputMode === 'bits' ? e.target.value.replace(/[^01]/g, '') : e.target.value)}
+                  className="w-full h-32 text-2xl font-mono p-6 bg-slate-900 text-indigo-400 border-b-8 border-indigo-600 rounded-3xl tracking-[0.2em] focus:ring-8 focus:ring-indigo-500/20 outline-none font-black shadow-2xl resize-none break-all"
+                />
+                {inputError && (
+                  <p className="mt-2 text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {inputError}</p>
+                )}
+              </div>
+              <button onClick={runHamming} className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-2xl hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100 uppercase italic tracking-tighter">GENERATE SYMBOLS</button>
+            </div>
+         </section>
+
+         {hammingResult && (
+            <div className="bg-slate-900 text-white p-10 rounded-[3rem] border-t-8 border-emerald-500 shadow-3xl animate-in fade-in slide-in-from-left-8 duration-700 overflow-hidden relative">
+              <div className="absolute top-0 right-0 p-8 opacity-5">
+                <Binary size={100} />
+              </div>
+              <h4 className="text-xs font-black text-emerald-400 tracking-[0.4em] uppercase mb-8 border-b border-emerald-500/20 pb-4">{describeCode(hammingResult.code)} Protocol</h4>
+              <div className="space-y-6 font-mono text-base">
+                <div className="flex justify-between items-center group">
+                  <span className="opacity-40 uppercase font-black text-xs tracking-widest group-hover:opacity-100 transition-opacity">Payload</span>
+                  <span className="text-white font-black tracking-[0.2em] text-2xl">{hammingResult.original.length} BITS</span>
+                </div>
+                <div className="flex justify-between items-center group">
+                  <span className="opacity-40 uppercase font-black text-xs tracking-widest group-hover:opacity-100 transition-opacity">Correction</span>
+                  <span className="text-emerald-400 font-black tracking-[0.2em] text-2xl">+{codeLength(hammingResult.code) - hammingResult.code.dataBits} BITS / BLOCK</span>
+                </div>
+                <div className="flex justify-between items-center group">
+                  <span className="opacity-40 uppercase font-black text-xs tracking-widest group-hover:opacity-100 transition-opacity">Code Rate</span>
+                  <span className="text-white font-black tracking-[0.2em] text-2xl">{(hammingResult.code.dataBits / codeLength(hammingResult.code)).toFixed(3)}</span>
+                </div>
+                <div className="flex justify-between pt-6 border-t border-white/5">
+                  <span className="font-black text-emerald-500 text-xs uppercase tracking-widest">Codewords</span>
+                  <span className="text-emerald-400 font-black tracking-[0.2em] text-4xl">{hammingResult.blocks.length}</span>
+                </div>
+              </div>
+            </div>
+         )}
+      </div>
+
+      <div className="lg:col-span-2 h-full">
+         {hammingResult ? (
+           <section className="bg-white rounded-[3.5rem] border-4 border-slate-100 shadow-3xl overflow-hidden h-full flex flex-col transition-all">
+              <div className="p-8 border-b-4 border-slate-50 bg-slate-50/50 flex items-center justify-between">
+                 <span className="text-sm font-black uppercase tracking-[0.3em] text-slate-800 italic">Physical Interference Module</span>
+                 <span className="text-xs font-black text-indigo-600 bg-white border-2 border-indigo-100 px-5 py-2 rounded-2xl uppercase tracking-widest flex items-center gap-2 shadow-sm">
+                   <Info size={16} /> INTERACT WITH BITS TO INJECT NOISE
+                 </span>
+              </div>
+              <div className="p-10 flex-1 flex flex-col space-y-10">
+                 <div className="space-y-3 max-h-[520px] overflow-y-auto pr-2">
+                    {hammingResult.blocks.slice(0, MAX_RENDERED_BLOCKS).map((block, blockIndex) => (
+                      <div key={blockIndex} className="flex items-center gap-4">
+                        <button
+                          onClick={() => setSelectedBlock(blockIndex)}
+                          title="Show parity coverage"
+                          className={`w-12 text-left text-xs font-mono font-black ${selectedBlock === blockIndex ? 'text-indigo-600' : 'text-slate-300 hover:text-indigo-400'}`}
+                        >
+                          #{blockIndex}
+                        </button>
+                        <div className="flex flex-wrap gap-1 flex-1">
+                          {block.received.split('').map((bit, i) => (
+                            <button
+                              key={i}
+                              onClick={() => flipBit(blockIndex, i)}
+                              title={`${isParityIndex(i, hammingResult.code) ? 'Parity' : 'Data'} bit, index ${i}`}
+                              className={`w-8 h-10 rounded-lg border-2 font-mono font-black text-base transition-all active:scale-90 ${
+                                block.errorIndex === i
+                                  ? 'border-red-600 bg-red-600 text-white animate-pulse'
+                                  : bit !== block.encoded[i]
+                                    ? 'border-amber-500 bg-amber-100 text-amber-700'
+                                    : isParityIndex(i, hammingResult.code)
+                                      ? 'border-indigo-100 bg-indigo-50 text-indigo-600 hover:border-indigo-600'
+                                      : 'border-slate-100 bg-slate-50 text-slate-900 hover:border-indigo-600'
+                              }`}
+                            >
+                              {bit}
+                            </button>
+                          ))}
+                        </div>
+                        <span className="w-20 text-[10px] font-mono font-black text-slate-400 text-right">S={block.syndrome.toString(2).padStart(hammingResult.code.parityBits, '0')}</span>
+                        <span className={`w-32 text-center px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${
+                          block.status === 'clean' ? 'bg-emerald-100 text-emerald-700' :
+                          block.status === 'corrected' ? 'bg-amber-500 text-white' : 'bg-red-600 text-white'
+                        }`}>
+                          {block.status === 'uncorrectable' ? 'Detected' : block.status}
+                        </span>
+                      </div>
+                    ))}
+                    {hammingResult.blocks.length > MAX_RENDERED_BLOCKS && (
+                      <p className="text-xs font-black text-slate-400 uppercase tracking-widest pt-4">
+                        Showing first {MAX_RENDERED_BLOCKS} of {hammingResult.blocks.length} codewords
+                      </p>
+                    )}
+                 </div>
+
+                 {hammingResult.blocks[selectedBlock] && (
+                   <ParityMatrix code={hammingResult.code} block={hammingResult.blocks[selectedBlock]} blockIndex={selectedBlock} />
+                 )}
+
+                 <div className="w-full">
+                    <div className={`p-10 rounded-[4rem] border-8 transition-all duration-700 flex items-center gap-10 shadow-[0_20px_60px_-15px_rgba(0,0,0,0.3)] ${uncorrectable > 0 ? 'bg-red-700 border-red-500 text-white shadow-red-200' : corrected > 0 ? 'bg-red-600 border-red-400 text-white shadow-red-200' : 'bg-emerald-600 border-emerald-400 text-white shadow-emerald-200'}`}>
+                       <div className={`w-32 h-32 rounded-[2.5rem] flex items-center justify-center shadow-2xl flex-shrink-0 bg-white ${uncorrectable > 0 || corrected > 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                          {uncorrectable > 0 ? <AlertCircle size={64} /> : corrected > 0 ? <RefreshCcw size={64} className="animate-spin" /> : <CheckCircle2 size={64} />}
+                       </div>
+                       <div className="flex-1 min-w-0">
+                          <div className="text-5xl font-black leading-none uppercase tracking-tighter italic">
+                            {uncorrectable > 0 ? 'UNCORRECTABLE' : corrected > 0 ? 'CORRECTED' : 'CLEAN'}
+                          </div>
+                          <div className="text-xs font-black uppercase tracking-[0.3em] mt-4 opacity-80">
+                            {corrected} corrected &middot; {uncorrectable} detected but uncorrectable &middot; {hammingResult.blocks.length - corrected - uncorrectable} clean
+                          </div>
+                          <div className="text-base font-black uppercase tracking-[0.4em] mt-6 opacity-80 flex justify-between items-center gap-6 border-t border-white/20 pt-6">
+                            <span className="italic">OUTPUT:</span>
+                            <span className="font-mono font-black text-2xl tracking-[0.1em] break-all normal-case">{outputText}</span>
+                          </div>
+                       </div>
+                    </div>
+                 </div>
+              </div>
+           </section>
+         ) : (
+           <div className="h-full min-h-[600px] border-8 border-dashed border-slate-100 rounded-[4rem] flex flex-col items-center justify-center text-slate-300 bg-white/50 animate-in fade-in duration-1000">
+              <Binary size={120} className="mb-10 opacity-5" />
+              <p className="text-4xl font-black uppercase tracking-[0.5em] opacity-40 italic">Signal Ready</p>
+              <p className="text-base font-bold mt-6 opacity-20 uppercase tracking-widest border-t border-slate-100 pt-6">Initialize a symobol set to begin</p>
+           </div>
+         )}
+      </div>
+    </div>
+  );
+};
+
+export default BitCorrectionLab;
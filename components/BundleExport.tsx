@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { AlgorithmId, AlgorithmParams, MacAlgorithm, PayloadEncoding } from '../types';
+import { bundleFileName, bundleToUrl, createBundle } from '../utils/bundle';
+import { QR_MAX_BYTES, encodeQr, qrToSvgPath } from '../utils/qr';
+import { downloadText } from '../utils/fileUtils';
+import { Download, Link2, QrCode, AlertCircle, Check } from 'lucide-react';
+
+interface BundleExportProps {
+  algorithm: AlgorithmId;
+  params: AlgorithmParams;
+  checksum: string;
+  // null while the sender payload cannot be decoded
+  payload: { bytes: Uint8Array; encoding: PayloadEncoding; name?: string } | null;
+  mac: { algorithm: MacAlgorithm; tag: string } | null;
+}
+
+/**
+ * Packs the sender's configuration and checksum into a verification bundle
+ * for a receiver on another machine: JSON file, link or QR code.
+ */
+const BundleExport: React.FC<BundleExportProps> = ({ algorithm, params, checksum, payload, mac }) => {
+  const [includePayload, setIncludePayload] = useState(true);
+  const [showQr, setShowQr] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bundle = useMemo(
+    () => createBundle({ algorithm, params, checksum, payload: includePayload && payload ? payload : undefined, mac: mac || undefined }),
+    [algorithm, params, checksum, payload, mac, includePayload]
+  );
+  const url = useMemo(() => bundleToUrl(bundle, window.location.href), [bundle]);
+  const qr = useMemo(() => {
+    if (!showQr) return null;
+    const bytes = new TextEncoder().encode(url);
+    if (bytes.length > QR_MAX_BYTES) return { error: `Link is ${bytes.length} bytes; a QR code holds at most ${QR_MAX_BYTES}. Leave the payload out.` };
+    const matrix = encodeQr(bytes);
+    return { size: matrix.length + 8, path: qrToSvgPath(matrix) };
+  }, [showQr, url]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setError(null);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error('Clipboard write failed', e);
+      setError('Clipboard unavailable; copy the link from the field below');
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-2 px-4 py-3 rounded-xl border-2 border-slate-200 bg-white text-xs font-black uppercase tracking-widest text-slate-600 hover:border-indigo-500 hover:text-indigo-600 transition-all disabled:opacity-40';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setIncludePayload(!includePayload)}
+          disabled={!payload}
+          className={`px-4 py-3 rounded-xl border-2 text-xs font-black uppercase tracking-widest transition-all disabled:opacity-40 ${includePayload && payload ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-100 border-slate-200 text-slate-500 hover:border-indigo-500'}`}
+        >
+          {includePayload && payload ? `Payload included (${payload.bytes.length} B)` : 'Checksum only'}
+        </button>
+        <button
+          onClick={() => downloadText(bundleFileName(bundle), JSON.stringify(bundle, null, 2), 'application/json')}
+          disabled={!checksum}
+          className={buttonClass}
+        >
+          <Download size={16} /> JSON
+        </button>
+        <button onClick={copyLink} disabled={!checksum} className={buttonClass}>
+          {copied ? <Check size={16} /> : <Link2 size={16} />} {copied ? 'Copied' : 'Link'}
+        </button>
+        <button onClick={() => setShowQr(!showQr)} disabled={!checksum} className={buttonClass}>
+          <QrCode size={16} /> QR
+        </button>
+      </div>
+      <input
+        type="text"
+        readOnly
+        value={url}
+        onFocus={(e) => e.target.select()}
+        className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-[10px] font-mono text-slate-500 truncate"
+      />
+      {qr && ('error' in qr ? (
+        <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {qr.error}</p>
+      ) : (
+        <div className="flex justify-center">
+          <svg viewBox={`0 0 ${qr.size} ${qr.size}`} className="w-64 h-64 bg-white rounded-2xl border-4 border-slate-100" shapeRendering="crispEdges">
+            <path d={qr.path} fill="#0f172a" />
+          </svg>
+        </div>
+      ))}
+      {error && (
+        <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+      )}
+    </div>
+  );
+};
+
+export default BundleExport;
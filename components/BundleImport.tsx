@@ -0,0 +1,81 @@
+import React, { useRef, useState } from 'react';
+import { VerificationBundle } from '../types';
+import { parseBundle } from '../utils/bundle';
+import { describeAlgorithm } from '../utils/hashUtils';
+import { FileUp, PackageOpen, AlertCircle } from 'lucide-react';
+
+interface BundleImportProps {
+  bundle: VerificationBundle | null;
+  error: string | null;
+  onImport: (bundle: VerificationBundle) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Receiver-side entry point for bundles exported on another machine,
+ * from a JSON file or a pasted link.
+ */
+const BundleImport: React.FC<BundleImportProps> = ({ bundle, error, onImport, onError }) => {
+  const [text, setText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = (input: string) => {
+    try {
+      onImport(parseBundle(input));
+      setText('');
+    } catch (e) {
+      onError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) load(await file.text());
+  };
+
+  return (
+    <div className="p-6 rounded-[2rem] border-4 border-dashed border-slate-200 space-y-4">
+      <div className="text-xs font-black text-slate-400 uppercase tracking-[0.3em] flex items-center gap-2">
+        <PackageOpen size={16} /> Verification Bundle
+      </div>
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && text) load(text); }}
+          placeholder="Paste a bundle link or JSON"
+          className="flex-1 bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-xs font-mono hover:border-indigo-500 transition-all"
+        />
+        <button
+          onClick={() => load(text)}
+          disabled={!text}
+          className="px-4 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-indigo-600 transition-all disabled:opacity-40"
+        >
+          Import
+        </button>
+        <input type="file" accept=".json,application/json" ref={fileInputRef} onChange={handleFile} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="p-3 border-2 border-slate-200 rounded-xl text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all"
+          title="Load bundle file"
+        >
+          <FileUp size={16} />
+        </button>
+      </div>
+      {bundle && !error && (
+        <p className="text-xs font-black text-slate-500 uppercase tracking-widest">
+          Expecting {describeAlgorithm(bundle.algorithm, bundle.params)} = <span className="font-mono">{bundle.checksum}</span>
+          {bundle.createdAt && ` · sent ${new Date(bundle.createdAt).toLocaleString()}`}
+          {bundle.payload ? ' · payload included' : ' · load your own copy of the payload'}
+        </p>
+      )}
+      {error && (
+        <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+      )}
+    </div>
+  );
+};
+
+export default BundleImport;
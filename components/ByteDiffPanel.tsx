@@ -0,0 +1,175 @@
+import React, { useMemo } from 'react';
+import { ChecksumConfig, DiffOp } from '../types';
+import { alignBytes, analyzeImpact } from '../utils/byteDiff';
+import { GitCompare, AlertCircle } from 'lucide-react';
+
+interface ByteDiffPanelProps {
+  sender: Uint8Array;
+  receiver: Uint8Array;
+  config: ChecksumConfig;
+  algorithmLabel: string;
+}
+
+// Aligning is quadratic in the worst case and each change costs a checksum pass
+const MAX_DIFF_BYTES = 1024 * 1024;
+// Bytes of unchanged context kept around each change in the aligned view
+const CONTEXT = 6;
+const MAX_COLUMNS = 600;
+
+type Column = { sender?: number; receiver?: number; kind: DiffOp['kind'] } | { skipped: number };
+
+const hex = (byte: number) => byte.toString(16).toUpperCase().padStart(2, '0');
+
+const KIND_STYLES: Record<DiffOp['kind'], string> = {
+  equal: 'text-slate-400',
+  change: 'bg-amber-100 text-amber-800',
+  insert: 'bg-emerald-100 text-emerald-800',
+  delete: 'bg-red-100 text-red-700',
+};
+
+function alignedColumns(sender: Uint8Array, receiver: Uint8Array, ops: DiffOp[]): Column[] {
+  const columns: Column[] = [];
+  ops.forEach((op, index) => {
+    if (op.kind === 'equal') {
+      const length = op.senderEnd - op.senderStart;
+      const keepHead = index === 0 ? 0 : CONTEXT;
+      const keepTail = index === ops.length - 1 ? 0 : CONTEXT;
+      for (let i = 0; i < length; i++) {
+        if (i >= keepHead && i < length - keepTail) {
+          columns.push({ skipped: length - keepHead - keepTail });
+          i = length - keepTail - 1;
+          continue;
+        }
+        columns.push({ sender: sender[op.senderStart + i], receiver: receiver[op.receiverStart + i], kind: 'equal' });
+      }
+      return;
+    }
+    const width = Math.max(op.senderEnd - op.senderStart, op.receiverEnd - op.receiverStart);
+    for (let i = 0; i < width; i++) {
+      const s = op.senderStart + i < op.senderEnd ? sender[op.senderStart + i] : undefined;
+      const r = op.receiverStart + i < op.receiverEnd ? receiver[op.receiverStart + i] : undefined;
+      columns.push({ sender: s, receiver: r, kind: s === undefined ? 'insert' : r === undefined ? 'delete' : 'change' });
+    }
+  });
+  return columns;
+}
+
+const rangeLabel = (start: number, end: number) => (end === start ? `@${start}` : end - start === 1 ? `${start}` : `${start}–${end - 1}`);
+
+/**
+ * Lines the receiver's bytes up against the sender's and shows what each
+ * difference did to the checksum, or why the checksums still agree.
+ */
+const ByteDiffPanel: React.FC<ByteDiffPanelProps> = ({ sender, receiver, config, algorithmLabel }) => {
+  const tooLarge = sender.length > MAX_DIFF_BYTES || receiver.length > MAX_DIFF_BYTES;
+  const diff = useMemo(() => {
+    if (tooLarge) return null;
+    try {
+      const ops = alignBytes(sender, receiver);
+      return { ops, impact: analyzeImpact(sender, receiver, ops, config), columns: alignedColumns(sender, receiver, ops) };
+    } catch (e) {
+      console.error(e);
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [sender, receiver, config.algorithm, config.params, tooLarge]);
+
+  const edits = diff && 'ops' in diff ? diff.ops.filter(op => op.kind !== 'equal') : [];
+  // Nothing to explain when the checksums agree on identical payloads
+  if (diff && 'ops' in diff && edits.length === 0 && diff.impact.senderFinal === diff.impact.receiverFinal) return null;
+
+  return (
+    <div className="p-6 rounded-[2rem] border-4 border-slate-200 bg-white shadow-xl space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-base font-black uppercase tracking-[0.3em] flex items-center gap-2 text-slate-500">
+          <GitCompare size={20} /> Byte Diff
+        </div>
+        {diff && 'ops' in diff && (
+          <span className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest ${diff.impact.collision ? 'bg-amber-500 text-white' : 'bg-slate-200 text-slate-600'}`}>
+            {diff.impact.collision ? 'Collision' : `${edits.length} difference${edits.length === 1 ? '' : 's'}`}
+          </span>
+        )}
+      </div>
+
+      {tooLarge && (
+        <p className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <AlertCircle size={14} /> Payloads over {MAX_DIFF_BYTES / 1024} KiB are not diffed byte by byte; hash them in pieces on the Batch tab instead.
+        </p>
+      )}
+      {diff && 'error' in diff && (
+        <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {diff.error}</p>
+      )}
+
+      {diff && 'ops' in diff && (
+        <>
+          {edits.length === 0 ? (
+            <p className="text-xs font-black text-slate-500 uppercase tracking-widest">
+              The payloads are byte-for-byte identical, so the checksum value itself was altered in transit.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-x-1 gap-y-2 font-mono text-xs font-bold">
+                {diff.columns.slice(0, MAX_COLUMNS).map((column, i) => 'skipped' in column ? (
+                  <div key={i} className="flex items-center px-2 text-[10px] text-slate-400 italic">… {column.skipped} equal …</div>
+                ) : (
+                  <div key={i} className={`flex flex-col items-center rounded px-0.5 ${KIND_STYLES[column.kind]}`}>
+                    <span>{column.sender === undefined ? '--' : hex(column.sender)}</span>
+                    <span>{column.receiver === undefined ? '--' : hex(column.receiver)}</span>
+                  </div>
+                ))}
+                {diff.columns.length > MAX_COLUMNS && <div className="px-2 text-[10px] text-slate-400 italic">… {diff.columns.length - MAX_COLUMNS} more columns</div>}
+              </div>
+              <div className="flex flex-wrap gap-4 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <span>Top: sender · bottom: receiver</span>
+                <span className="px-1 rounded bg-amber-100 text-amber-800">Changed</span>
+                <span className="px-1 rounded bg-emerald-100 text-emerald-800">Inserted</span>
+                <span className="px-1 rounded bg-red-100 text-red-700">Deleted</span>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                      <th className="py-2 pr-3">Change</th>
+                      <th className="py-2 pr-3">Sender Bytes</th>
+                      <th className="py-2 pr-3">Receiver Bytes</th>
+                      <th className="py-2 pr-3">{diff.impact.mode === 'xor' ? 'Register ⊕ Alone' : 'Δ Alone'}</th>
+                      <th className="py-2">Running (Sender / Receiver)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono font-bold">
+                    {diff.impact.hunks.map(({ op, alone, senderRunning, receiverRunning }, i) => (
+                      <tr key={i} className="border-t border-slate-100 align-top">
+                        <td className="py-2 pr-3">
+                          <span className={`px-1.5 py-0.5 rounded text-[10px] font-black uppercase ${KIND_STYLES[op.kind]}`}>{op.kind}</span>
+                        </td>
+                        <td className="py-2 pr-3 text-slate-600">{rangeLabel(op.senderStart, op.senderEnd)}</td>
+                        <td className="py-2 pr-3 text-slate-600">{rangeLabel(op.receiverStart, op.receiverEnd)}</td>
+                        <td className="py-2 pr-3 text-slate-900">{alone}</td>
+                        <td className="py-2 break-all text-slate-500">
+                          {senderRunning} / <span className={senderRunning === receiverRunning ? 'text-emerald-600' : 'text-red-600'}>{receiverRunning}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="p-4 bg-slate-50 rounded-2xl border-2 border-slate-100 space-y-2">
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {algorithmLabel}: {diff.impact.senderFinal} → {diff.impact.receiverFinal}
+              {diff.impact.mode !== 'opaque' && ` · ${diff.impact.mode === 'xor' ? 'XOR' : 'difference'} ${diff.impact.totalDelta}`}
+            </div>
+            {edits.length > 0 && diff.impact.explanation.map((line, i) => (
+              <p key={i} className="text-sm font-bold text-slate-700">{line}</p>
+            ))}
+          </div>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Compared against the sender's current message.</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ByteDiffPanel;
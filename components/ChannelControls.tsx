@@ -0,0 +1,90 @@
+import React from 'react';
+import { ChannelModel, ChannelOptions } from '../types';
+import { CHANNEL_MODELS } from '../utils/channel';
+import { Dices, Radio } from 'lucide-react';
+
+interface ChannelControlsProps {
+  options: ChannelOptions;
+  onChange: (options: ChannelOptions) => void;
+}
+
+type RateField = 'bitErrorRate' | 'goodToBad' | 'badToGood' | 'burstBitErrorRate' | 'dropRate' | 'insertRate' | 'swapRate';
+
+const RATE_FIELDS: Record<ChannelModel, { field: RateField; label: string }[]> = {
+  'clean': [],
+  'ber': [{ field: 'bitErrorRate', label: 'Bit Error Rate' }],
+  'gilbert-elliott': [
+    { field: 'goodToBad', label: 'P(Good→Bad)' },
+    { field: 'badToGood', label: 'P(Bad→Good)' },
+    { field: 'bitErrorRate', label: 'BER Good' },
+    { field: 'burstBitErrorRate', label: 'BER Bad' },
+  ],
+  'drop-insert': [
+    { field: 'dropRate', label: 'Drop / Byte' },
+    { field: 'insertRate', label: 'Insert / Byte' },
+  ],
+  'swap': [{ field: 'swapRate', label: 'Swap / Byte' }],
+};
+
+/**
+ * Channel model picker shared by the transfer terminals and the experiment runner.
+ */
+const ChannelControls: React.FC<ChannelControlsProps> = ({ options, onChange }) => {
+  const fields = RATE_FIELDS[options.model];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Radio size={18} className="text-indigo-600 flex-shrink-0" />
+        <select
+          value={options.model}
+          onChange={(e) => onChange({ ...options, model: e.target.value as ChannelModel })}
+          className="flex-1 bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-sm font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+        >
+          {CHANNEL_MODELS.map(model => (
+            <option key={model.id} value={model.id}>{model.label}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Seed</label>
+          <input
+            type="number"
+            value={options.seed}
+            onChange={(e) => onChange({ ...options, seed: parseInt(e.target.value, 10) || 0 })}
+            className="w-24 bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-sm font-mono font-black"
+          />
+          <button
+            onClick={() => onChange({ ...options, seed: Math.floor(Math.random() * 1_000_000) })}
+            className="p-3 border-2 border-slate-200 rounded-xl text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all"
+            title="New random seed"
+          >
+            <Dices size={16} />
+          </button>
+        </div>
+      </div>
+      {fields.length > 0 && (
+        <div className={`grid gap-3 ${fields.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+          {fields.map(({ field, label }) => (
+            <div key={field}>
+              <label className="text-[10px] font-black text-slate-400 mb-1 block uppercase tracking-widest">{label}</label>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step="any"
+                value={options[field]}
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val >= 0 && val <= 1) onChange({ ...options, [field]: val });
+                }}
+                className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-sm font-mono font-black hover:border-indigo-500 transition-all"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChannelControls;
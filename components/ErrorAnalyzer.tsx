@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ChecksumConfig, ErrorClassResult } from '../types';
+import { analyzeUndetectableErrors, undetectedShare } from '../utils/errorAnalysis';
+import { ScanSearch, Play, AlertCircle, CheckCircle2, EyeOff } from 'lucide-react';
+
+interface ErrorAnalyzerProps {
+  payload: Uint8Array;
+  payloadError: string | null;
+  config: ChecksumConfig;
+  algorithmLabel: string;
+  onComplete?: (summary: string) => void;
+}
+
+const formatCount = (value: number) => (value >= 1e6 ? value.toExponential(2) : value.toLocaleString());
+const formatShare = (share: number) => (share === 0 ? '0%' : share < 0.0001 ? share.toExponential(1) : `${(share * 100).toFixed(2)}%`);
+
+/**
+ * Lists the error patterns the current checksum configuration cannot see,
+ * using the sender payload as the message under test.
+ */
+const ErrorAnalyzer: React.FC<ErrorAnalyzerProps> = ({ payload, payloadError, config, algorithmLabel, onComplete }) => {
+  const [results, setResults] = useState<ErrorClassResult[]>([]);
+  const [analyzedLabel, setAnalyzedLabel] = useState<string>('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAnalysis = async () => {
+    if (payloadError) {
+      setError(payloadError);
+      return;
+    }
+    setError(null);
+    setIsRunning(true);
+    setResults([]);
+    setAnalyzedLabel(algorithmLabel);
+    try {
+      const final = await analyzeUndetectableErrors(payload, config, setResults);
+      setResults(final);
+      const blind = final.filter(r => r.undetected > 0);
+      onComplete?.(blind.length === 0
+        ? `No blind spots found in ${final.length} error classes (${payload.length} bytes)`
+        : `Blind spots: ${blind.map(r => `${r.label} ${formatShare(undetectedShare(r).share)}`).join('; ')}`);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const blindClasses = results.filter(r => r.undetected > 0).length;
+
+  return (
+    <div className="space-y-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <section className="bg-white p-10 rounded-[3rem] border-4 border-slate-100 shadow-xl flex flex-col lg:flex-row lg:items-center gap-8">
+        <div className="flex-1">
+          <h3 className="text-xl font-black mb-4 flex items-center gap-4 uppercase tracking-tighter italic text-indigo-700">
+            <ScanSearch size={32} className="text-indigo-600" />
+            Blind Spot Analyzer
+          </h3>
+          <p className="text-sm font-bold text-slate-500 uppercase tracking-widest leading-relaxed">
+            {algorithmLabel} &middot; sender payload ({payload.length} bytes). Payloads small enough are checked exhaustively; larger ones are sampled.
+          </p>
+          {error && (
+            <p className="mt-4 text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+          )}
+        </div>
+        <button
+          onClick={runAnalysis}
+          disabled={isRunning}
+          className="px-10 py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-2xl hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100 uppercase italic tracking-tighter flex items-center justify-center gap-4 disabled:opacity-60"
+        >
+          <Play size={28} /> {isRunning ? 'ANALYZING…' : 'ANALYZE'}
+        </button>
+      </section>
+
+      {results.length > 0 && (
+        <section className="bg-white rounded-[3.5rem] border-4 border-slate-100 shadow-3xl overflow-hidden">
+          <div className={`p-8 border-b-4 flex items-center justify-between ${blindClasses > 0 ? 'bg-red-50 border-red-100' : 'bg-emerald-50 border-emerald-100'}`}>
+            <span className={`text-sm font-black uppercase tracking-[0.3em] italic flex items-center gap-3 ${blindClasses > 0 ? 'text-red-700' : 'text-emerald-700'}`}>
+              {blindClasses > 0 ? <EyeOff size={20} /> : <CheckCircle2 size={20} />}
+              {blindClasses > 0 ? `${blindClasses} of ${results.length} error classes slip through` : 'No undetected patterns found'}
+            </span>
+            <span className="text-xs font-black text-slate-400 uppercase tracking-widest">{analyzedLabel}</span>
+          </div>
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-xs font-black text-slate-400 uppercase tracking-[0.2em]">
+              <tr>
+                <th className="px-8 py-5">Error Class</th>
+                <th className="px-8 py-5">Method</th>
+                <th className="px-8 py-5 text-right">Patterns</th>
+                <th className="px-8 py-5 text-right">Undetected</th>
+                <th className="px-8 py-5">Share</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y-4 divide-slate-50">
+              {results.map(result => {
+                const { share, low, high } = undetectedShare(result);
+                const estimated = result.exact ? result.undetected : Math.round(share * result.total);
+                return (
+                  <tr key={result.id} className="align-top">
+                    <td className="px-8 py-6">
+                      <div className="text-base font-black text-slate-800">{result.label}</div>
+                      {result.examples.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {result.examples.map(example => (
+                            <li key={example} className="text-[11px] font-mono font-bold text-red-600">{example}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-8 py-6 text-xs font-black uppercase tracking-widest text-slate-500">
+                      {result.exact ? 'Exhaustive' : `Sampled (${result.examined.toLocaleString()})`}
+                    </td>
+                    <td className="px-8 py-6 text-right font-mono font-black text-slate-700">{result.exact ? '' : '≈'}{formatCount(result.total)}</td>
+                    <td className={`px-8 py-6 text-right font-mono font-black ${result.undetected > 0 ? 'text-red-600' : 'text-emerald-600'}`}>{result.exact ? '' : '≈'}{formatCount(estimated)}</td>
+                    <td className="px-8 py-6 w-64">
+                      <div className="text-xs font-black text-slate-600 mb-2">
+                        {formatShare(share)}{!result.exact && ` (95%: ${formatShare(low)}–${formatShare(high)})`}
+                      </div>
+                      <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-red-500 rounded-full" style={{ width: `${share * 100}%` }} />
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ErrorAnalyzer;
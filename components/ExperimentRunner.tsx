@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { ChannelOptions, ExperimentResult } from '../types';
+import { DEFAULT_EXPERIMENT_SUBJECTS, describeSubject, runDetectionExperiment, undetectedRate } from '../utils/experiments';
+import { describeChannel } from '../utils/channel';
+import ChannelControls from './ChannelControls';
+import { FlaskConical, Play, AlertCircle, BarChart3 } from 'lucide-react';
+
+interface ExperimentRunnerProps {
+  channel: ChannelOptions;
+  onChannelChange: (options: ChannelOptions) => void;
+  onComplete?: (summary: string) => void;
+}
+
+const formatRate = (rate: number) => (rate === 0 ? '0' : rate >= 0.001 ? `${(rate * 100).toFixed(2)}%` : rate.toExponential(1));
+
+/**
+ * Monte-Carlo runner: sends many random messages through the channel model
+ * and charts how often each checksum fails to notice the damage.
+ */
+const ExperimentRunner: React.FC<ExperimentRunnerProps> = ({ channel, onChannelChange, onComplete }) => {
+  const [selected, setSelected] = useState<boolean[]>(DEFAULT_EXPERIMENT_SUBJECTS.map(() => true));
+  const [trials, setTrials] = useState<number>(5000);
+  const [messageBytes, setMessageBytes] = useState<number>(32);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<ExperimentResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const runExperiment = async () => {
+    const subjects = DEFAULT_EXPERIMENT_SUBJECTS.filter((_, i) => selected[i]);
+    if (subjects.length === 0) {
+      setError('Select at least one algorithm');
+      return;
+    }
+    if (channel.model === 'clean') {
+      setError('A clean wire never corrupts anything; pick a noisy channel model');
+      return;
+    }
+    setError(null);
+    setIsRunning(true);
+    setProgress(0);
+    try {
+      const final = await runDetectionExperiment(subjects, channel, trials, messageBytes, (completed, partial) => {
+        setProgress(completed / trials);
+        setResults(partial);
+      });
+      setResults(final);
+      const worst = [...final].sort((a, b) => undetectedRate(b).rate - undetectedRate(a).rate)[0];
+      onComplete?.(`${trials} trials over ${describeChannel(channel)}; weakest: ${worst.label} (${worst.undetected}/${worst.corrupted} undetected)`);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Bars use a log scale so CRCs and 8-bit sums fit on the same chart
+  const floor = Math.log10(Math.min(...results.map(r => r.corrupted > 0 ? 1 / r.corrupted : 1), 1e-4));
+  const barWidth = (rate: number) => (rate <= 0 ? 0 : Math.max(2, 100 * (1 - Math.log10(rate) / floor)));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <section className="lg:col-span-1 bg-white p-10 rounded-[3rem] border-4 border-slate-100 shadow-xl space-y-8 h-fit">
+        <h3 className="text-xl font-black flex items-center gap-4 uppercase tracking-tighter italic text-indigo-700">
+          <FlaskConical size={32} className="text-indigo-600" />
+          Experiment Setup
+        </h3>
+        <div>
+          <label className="text-xs font-black text-slate-400 mb-4 block tracking-[0.4em] uppercase">Channel</label>
+          <ChannelControls options={channel} onChange={onChannelChange} />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">Messages</label>
+            <input
+              type="number"
+              min={100}
+              max={1000000}
+              value={trials}
+              onChange={(e) => setTrials(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">Bytes / Msg</label>
+            <input
+              type="number"
+              min={1}
+              max={65536}
+              value={messageBytes}
+              onChange={(e) => setMessageBytes(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="text-xs font-black text-slate-400 mb-4 block tracking-[0.4em] uppercase">Algorithms</label>
+          <div className="space-y-2">
+            {DEFAULT_EXPERIMENT_SUBJECTS.map((subject, i) => (
+              <label key={i} className="flex items-center gap-3 text-sm font-black text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected[i]}
+                  onChange={() => setSelected(selected.map((v, j) => (j === i ? !v : v)))}
+                  className="w-4 h-4 accent-indigo-600"
+                />
+                {describeSubject(subject)}
+              </label>
+            ))}
+          </div>
+        </div>
+        {error && (
+          <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+        )}
+        <button
+          onClick={runExperiment}
+          disabled={isRunning}
+          className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-2xl hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100 uppercase italic tracking-tighter flex items-center justify-center gap-4 disabled:opacity-60"
+        >
+          <Play size={28} /> {isRunning ? `${Math.round(progress * 100)}%` : 'RUN TRIALS'}
+        </button>
+      </section>
+
+      <section className="lg:col-span-2 bg-white rounded-[3.5rem] border-4 border-slate-100 shadow-3xl overflow-hidden flex flex-col">
+        <div className="p-8 border-b-4 border-slate-50 bg-slate-50/50 flex items-center justify-between">
+          <span className="text-sm font-black uppercase tracking-[0.3em] text-slate-800 italic flex items-center gap-3"><BarChart3 size={20} /> Undetected Error Rate</span>
+          <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Per corrupted message &middot; log scale</span>
+        </div>
+        {isRunning && (
+          <div className="h-2 bg-slate-100">
+            <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+        <div className="p-10 space-y-5">
+          {results.length === 0 ? (
+            <p className="text-center py-24 text-2xl font-black uppercase tracking-[0.4em] text-slate-200 italic">No trials yet</p>
+          ) : (
+            results.map(result => {
+              const { rate, upperBound } = undetectedRate(result);
+              return (
+                <div key={result.label}>
+                  <div className="flex items-center justify-between text-xs font-black uppercase tracking-widest mb-2">
+                    <span className="text-slate-700">{result.label}</span>
+                    <span className={upperBound ? 'text-emerald-600' : result.undetected > 0 ? 'text-red-600' : 'text-slate-400'}>
+                      {upperBound ? `< ${formatRate(rate)} (none seen)` : formatRate(rate)} &middot; {result.undetected}/{result.corrupted}
+                    </span>
+                  </div>
+                  <div className="h-6 bg-slate-100 rounded-lg overflow-hidden">
+                    <div
+                      className={`h-full rounded-lg transition-all ${upperBound ? 'bg-emerald-200' : 'bg-gradient-to-r from-amber-400 to-red-600'}`}
+                      style={{ width: `${barWidth(rate)}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ExperimentRunner;
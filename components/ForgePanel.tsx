@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { ChecksumConfig, ForgeCharset, ForgeResult, PayloadEncoding } from '../types';
+import { forgeChecksum, forgeMethod } from '../utils/forge';
+import { decodePayload, encodePayload, isTextEncoding, toHexDump } from '../utils/encoding';
+import { Skull, Wand2, Send, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface ForgePanelProps {
+  payload: Uint8Array;
+  encoding: PayloadEncoding;
+  targetChecksum: string;
+  config: ChecksumConfig;
+  algorithmLabel: string;
+  onDeliver: (bytes: Uint8Array, summary: string) => void;
+}
+
+/**
+ * Man-in-the-middle bench: edit the intercepted message, then compute
+ * compensating bytes so it still carries the sender's checksum.
+ */
+const ForgePanel: React.FC<ForgePanelProps> = ({ payload, encoding, targetChecksum, config, algorithmLabel, onDeliver }) => {
+  // Binary payloads are edited as hex; text stays in the sender's encoding
+  const editEncoding: PayloadEncoding = isTextEncoding(encoding) ? encoding : 'hex';
+  const [text, setText] = useState<string>('');
+  const [mode, setMode] = useState<'append' | 'replace'>('append');
+  const [start, setStart] = useState(0);
+  const [length, setLength] = useState(4);
+  const [charset, setCharset] = useState<ForgeCharset>('printable');
+  const [result, setResult] = useState<ForgeResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const supported = forgeMethod(config.algorithm) !== null;
+
+  const intercept = () => {
+    try {
+      setText(encodePayload(payload, editEncoding));
+    } catch {
+      setText(encodePayload(payload, 'hex'));
+    }
+    setResult(null);
+    setError(null);
+  };
+
+  const forge = async () => {
+    setError(null);
+    setResult(null);
+    try {
+      const edited = decodePayload(text, editEncoding);
+      const strategy = mode === 'append' ? { mode } as const : { mode, start, length } as const;
+      setResult(await forgeChecksum(edited, targetChecksum, config, strategy, charset));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const patch = result ? result.bytes.subarray(result.patchStart, result.patchStart + result.patchLength) : null;
+
+  return (
+    <section className="lg:col-span-2 lg:order-last bg-slate-900 text-slate-100 rounded-3xl border-4 border-slate-800 shadow-2xl p-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-black flex items-center gap-3 uppercase tracking-tighter italic text-red-400">
+            <Skull size={28} /> Man-in-the-Middle
+          </h3>
+          <p className="text-xs font-black text-slate-400 uppercase tracking-widest mt-2">
+            Edit the message in transit and keep {algorithmLabel} = {targetChecksum || '----'}
+          </p>
+        </div>
+        <button
+          onClick={intercept}
+          className="px-6 py-3 border-2 border-slate-700 rounded-xl text-xs font-black uppercase tracking-widest hover:border-red-400 hover:text-red-400 transition-all"
+        >
+          Intercept Sender Message
+        </button>
+      </div>
+
+      {!supported ? (
+        <p className="text-xs font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <AlertCircle size={14} /> Forging is available for the additive checksum and CRC models; {algorithmLabel} is out of scope.
+        </p>
+      ) : (
+        <>
+          <textarea
+            value={text}
+            onChange={(e) => { setText(e.target.value); setResult(null); }}
+            placeholder="Intercept the sender message, then edit it here"
+            className="w-full h-28 p-4 bg-slate-800 border-2 border-slate-700 rounded-2xl font-mono text-base resize-none focus:ring-4 focus:ring-red-500/30"
+          />
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="text-[10px] font-black text-slate-400 mb-1 block uppercase tracking-widest">Compensation</label>
+              <div className="flex rounded-xl overflow-hidden border-2 border-slate-700">
+                {(['append', 'replace'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    className={`px-4 py-2 text-xs font-black uppercase tracking-widest ${mode === option ? 'bg-red-500 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {option === 'append' ? 'Append' : 'Overwrite Range'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {mode === 'replace' && (
+              <>
+                <div>
+                  <label className="text-[10px] font-black text-slate-400 mb-1 block uppercase tracking-widest">Start Byte</label>
+                  <input type="number" min={0} value={start} onChange={(e) => setStart(Math.max(0, parseInt(e.target.value, 10) || 0))} className="w-24 bg-slate-800 border-2 border-slate-700 rounded-xl p-2 font-mono font-black" />
+                </div>
+                <div>
+                  <label className="text-[10px] font-black text-slate-400 mb-1 block uppercase tracking-widest">Length</label>
+                  <input type="number" min={1} value={length} onChange={(e) => setLength(Math.max(1, parseInt(e.target.value, 10) || 1))} className="w-24 bg-slate-800 border-2 border-slate-700 rounded-xl p-2 font-mono font-black" />
+                </div>
+              </>
+            )}
+            <div>
+              <label className="text-[10px] font-black text-slate-400 mb-1 block uppercase tracking-widest">Patch Bytes</label>
+              <select
+                value={charset}
+                onChange={(e) => setCharset(e.target.value as ForgeCharset)}
+                className="bg-slate-800 border-2 border-slate-700 rounded-xl p-2 text-xs font-black uppercase cursor-pointer"
+              >
+                <option value="printable">Printable characters</option>
+                <option value="binary">Any byte</option>
+              </select>
+            </div>
+            <button
+              onClick={forge}
+              disabled={!text}
+              className="ml-auto px-8 py-3 bg-red-500 text-white rounded-xl font-black uppercase tracking-widest flex items-center gap-2 hover:bg-red-600 transition-all disabled:opacity-40"
+            >
+              <Wand2 size={18} /> Forge
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="text-xs font-black text-red-400 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+      )}
+
+      {result && patch && (
+        <div className="p-6 bg-slate-800/60 rounded-2xl border-2 border-red-500/40 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <span className="text-xs font-black uppercase tracking-widest text-emerald-400 flex items-center gap-2">
+              <CheckCircle2 size={16} /> {result.patchLength} compensating byte{result.patchLength === 1 ? '' : 's'} at offset {result.patchStart} &middot; checksum {result.checksum}
+            </span>
+            <button
+              onClick={() => onDeliver(result.bytes, `Forged ${result.bytes.length}-byte message with ${result.patchLength} compensating bytes at offset ${result.patchStart}`)}
+              className="px-6 py-3 bg-white text-slate-900 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-red-100 transition-all"
+            >
+              <Send size={16} /> Deliver to Receiver
+            </button>
+          </div>
+          <div className="font-mono text-xs font-bold break-all text-slate-400">
+            <span className="text-red-300">patch:</span> {toHexDump(patch, 128)}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ForgePanel;
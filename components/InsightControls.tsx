@@ -0,0 +1,39 @@
+import React from 'react';
+import { InsightOptions, InsightProviderId } from '../types';
+import { INSIGHT_PROVIDERS } from '../services/insightService';
+
+interface InsightControlsProps {
+  options: InsightOptions;
+  onChange: (options: InsightOptions) => void;
+}
+
+/**
+ * Picks where ANALYZE gets its report from; the endpoint field only shows for HTTP.
+ */
+const InsightControls: React.FC<InsightControlsProps> = ({ options, onChange }) => (
+  <div className="flex items-center gap-2">
+    <select
+      value={options.provider}
+      onChange={(e) => onChange({ ...options, provider: e.target.value as InsightProviderId })}
+      title="Insight provider"
+      className="bg-slate-100 border-2 border-slate-200 rounded-xl px-3 py-2.5 text-xs font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+    >
+      {INSIGHT_PROVIDERS.map(provider => (
+        <option key={provider.id} value={provider.id} disabled={!provider.available}>
+          {provider.label}{provider.available ? '' : ' (no API key)'}
+        </option>
+      ))}
+    </select>
+    {options.provider === 'http' && (
+      <input
+        type="url"
+        value={options.endpoint}
+        onChange={(e) => onChange({ ...options, endpoint: e.target.value })}
+        placeholder="http://localhost:8787/insight"
+        className="w-56 bg-slate-100 border-2 border-slate-200 rounded-xl px-3 py-2.5 text-xs font-mono hover:border-indigo-500 transition-all"
+      />
+    )}
+  </div>
+);
+
+export default InsightControls;
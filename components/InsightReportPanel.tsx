@@ -0,0 +1,67 @@
+import React from 'react';
+import { InsightReport, InsightSection } from '../types';
+import { Activity, AlertCircle, Cpu } from 'lucide-react';
+
+interface InsightReportPanelProps {
+  report: InsightReport;
+  onClose: () => void;
+}
+
+const TONE_STYLES: Record<InsightSection['tone'], string> = {
+  neutral: 'border-indigo-500/30',
+  good: 'border-emerald-500/60',
+  warning: 'border-amber-400/70',
+};
+
+/**
+ * Diagnostic report modal; every provider's answer is rendered section by section.
+ */
+const InsightReportPanel: React.FC<InsightReportPanelProps> = ({ report, onClose }) => (
+  <div className="mt-20 bg-slate-900 text-slate-100 p-12 md:p-20 rounded-[5rem] border-[12px] border-slate-800 shadow-[0_80px_150px_-30px_rgba(0,0,0,0.7)] relative overflow-hidden group animate-in slide-in-from-bottom-20 duration-1000">
+    <div className="absolute top-0 right-0 p-16 opacity-10 group-hover:opacity-20 transition-all group-hover:rotate-12 group-hover:scale-110">
+      <Cpu size={300} />
+    </div>
+    <div className="relative z-10">
+      <div className="flex items-center gap-8 mb-16">
+        <div className="w-20 h-20 bg-indigo-600 rounded-3xl flex items-center justify-center shadow-[0_0_50px_rgba(79,70,229,0.5)] transform -rotate-3 group-hover:rotate-0 transition-transform">
+          <Activity size={48} />
+        </div>
+        <div>
+          <h3 className="text-5xl font-black tracking-tighter uppercase leading-none italic group-hover:text-indigo-400 transition-colors">Engineering Insights</h3>
+          <p className="text-sm font-black text-indigo-400 uppercase tracking-[0.6em] mt-4">{report.provider}</p>
+        </div>
+      </div>
+      {report.notice && (
+        <p className="mb-10 text-xs font-black text-amber-300 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {report.notice}</p>
+      )}
+      <p className="text-3xl font-light text-slate-100 max-w-6xl mb-12">{report.summary}</p>
+      <div className="space-y-12 max-w-6xl">
+        {report.sections.map((section, i) => (
+          <section
+            key={i}
+            className={`border-l-4 pl-12 animate-in fade-in slide-in-from-left-8 ${TONE_STYLES[section.tone]}`}
+            style={{ animationDelay: `${i * 150}ms` }}
+          >
+            <h4 className="text-sm font-black uppercase tracking-[0.4em] text-indigo-400 mb-4">{section.title}</h4>
+            <div className="text-slate-200 leading-relaxed space-y-4 font-light text-xl">
+              {section.paragraphs.map((paragraph, j) => <p key={j}>{paragraph}</p>)}
+            </div>
+            {section.facts.length > 0 && (
+              <dl className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-x-10 gap-y-2 text-sm">
+                {section.facts.map((fact, j) => (
+                  <div key={j} className="flex justify-between gap-6 border-b border-white/5 py-1">
+                    <dt className="text-slate-400 font-bold">{fact.label}</dt>
+                    <dd className="font-mono font-black text-right">{fact.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </section>
+        ))}
+      </div>
+      <button onClick={onClose} className="mt-16 px-16 py-6 border-4 border-slate-700 hover:bg-slate-800 hover:border-indigo-500 rounded-3xl text-sm font-black transition-all uppercase tracking-[0.5em] shadow-2xl active:scale-95">CLOSE DIAGNOSTIC REPORT</button>
+    </div>
+  </div>
+);
+
+export default InsightReportPanel;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { MacAlgorithm, MacOptions } from '../types';
+import { MAC_ALGORITHMS } from '../utils/mac';
+import { KeyRound, Eye, EyeOff } from 'lucide-react';
+
+interface MacControlsProps {
+  options: MacOptions;
+  onChange: (options: MacOptions) => void;
+}
+
+/**
+ * Shared-key settings for authenticated transfers between the terminals.
+ * The key is masked unless revealed and is never saved with the other settings.
+ */
+const MacControls: React.FC<MacControlsProps> = ({ options, onChange }) => {
+  const [showKey, setShowKey] = useState(false);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onChange({ ...options, enabled: !options.enabled })}
+          className={`flex items-center gap-2 px-4 py-3 rounded-xl border-2 text-xs font-black uppercase tracking-widest transition-all ${options.enabled ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-100 border-slate-200 text-slate-500 hover:border-indigo-500'}`}
+        >
+          <KeyRound size={16} /> {options.enabled ? 'Keyed' : 'Unkeyed'}
+        </button>
+        <select
+          value={options.algorithm}
+          disabled={!options.enabled}
+          onChange={(e) => onChange({ ...options, algorithm: e.target.value as MacAlgorithm })}
+          className="flex-1 bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-sm font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all disabled:opacity-50"
+        >
+          {MAC_ALGORITHMS.map(mac => (
+            <option key={mac.id} value={mac.id}>{mac.label}</option>
+          ))}
+        </select>
+      </div>
+      {options.enabled && (
+        <div className="flex items-center gap-3">
+          <input
+            type={showKey ? 'text' : 'password'}
+            value={options.key}
+            onChange={(e) => onChange({ ...options, key: e.target.value })}
+            placeholder="Shared secret key"
+            autoComplete="off"
+            className="flex-1 min-w-0 bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-sm font-mono font-black hover:border-indigo-500 transition-all"
+          />
+          <button
+            onClick={() => setShowKey(!showKey)}
+            title={showKey ? 'Hide key' : 'Show key'}
+            className="p-3 bg-slate-100 border-2 border-slate-200 rounded-xl text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all"
+          >
+            {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+          </button>
+          <select
+            value={options.keyEncoding}
+            onChange={(e) => onChange({ ...options, keyEncoding: e.target.value as MacOptions['keyEncoding'] })}
+            className="bg-slate-100 border-2 border-slate-200 rounded-xl p-3 text-sm font-black uppercase cursor-pointer hover:border-indigo-500 transition-all"
+          >
+            <option value="utf8">UTF-8</option>
+            <option value="hex">Hex</option>
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MacControls;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { HammingBlock, HammingCode } from '../types';
+import { codeLength, parityChecks, parityCoverage, positionLabel } from '../utils/hamming';
+import { Grid3x3 } from 'lucide-react';
+
+interface ParityMatrixProps {
+  code: HammingCode;
+  block: HammingBlock;
+  blockIndex: number;
+}
+
+/**
+ * Parity-coverage matrix of one codeword: which bits each check covers, the
+ * recomputed checks over the received bits, and how they form the syndrome.
+ */
+const ParityMatrix: React.FC<ParityMatrixProps> = ({ code, block, blockIndex }) => {
+  const coverage = parityCoverage(code);
+  const checks = parityChecks(block.received, code);
+  const columns = Array.from({ length: codeLength(code) }, (_, i) => i);
+  const hammingChecks = checks.slice(0, code.parityBits);
+  const syndromeBits = hammingChecks.map(check => (check.failed ? '1' : '0')).reverse().join('');
+  const overall = code.extended ? checks[code.parityBits] : null;
+
+  return (
+    <div className="p-6 rounded-[2rem] border-4 border-slate-100 bg-slate-50/50 space-y-5">
+      <div className="text-xs font-black text-slate-500 uppercase tracking-[0.3em] flex items-center gap-2">
+        <Grid3x3 size={16} /> Parity Coverage &middot; Codeword #{blockIndex}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-[10px] font-mono font-black border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th />
+              {columns.map(i => (
+                <th key={i} className={`w-7 text-center ${positionLabel(i, code).startsWith('P') ? 'text-indigo-600' : 'text-slate-400'}`}>{positionLabel(i, code)}</th>
+              ))}
+              <th className="pl-3 text-left text-slate-400 uppercase tracking-widest">Ones</th>
+              <th className="pl-3 text-left text-slate-400 uppercase tracking-widest">Check</th>
+            </tr>
+            <tr>
+              <th className="pr-2 text-right text-slate-400 uppercase tracking-widest">Rx</th>
+              {columns.map(i => (
+                <th key={i} className={`w-7 h-7 text-center rounded ${block.received[i] !== block.encoded[i] ? 'bg-amber-100 text-amber-700' : 'bg-white text-slate-900'}`}>{block.received[i]}</th>
+              ))}
+              <th />
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {coverage.map((row, r) => (
+              <tr key={row.label}>
+                <td className="pr-2 text-right text-indigo-600">{row.label}</td>
+                {columns.map(i => (
+                  <td
+                    key={i}
+                    className={`w-7 h-7 text-center rounded ${
+                      !row.covers[i] ? 'text-slate-200' : block.received[i] === '1' ? 'bg-indigo-600 text-white' : 'bg-indigo-100 text-indigo-600'
+                    }`}
+                  >
+                    {row.covers[i] ? block.received[i] : '·'}
+                  </td>
+                ))}
+                <td className="pl-3 text-slate-500">{checks[r].ones}</td>
+                <td className={`pl-3 ${checks[r].failed ? 'text-red-600' : 'text-emerald-600'}`}>
+                  {checks[r].failed ? 'odd → 1' : 'even → 0'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="space-y-1 text-xs font-black text-slate-600 uppercase tracking-widest">
+        <div>
+          Syndrome = {hammingChecks.map(c => c.label).reverse().join(' ')} = <span className="font-mono">{syndromeBits}</span>₂ = {block.syndrome}
+          {block.syndrome === 0
+            ? ' · every check passes'
+            : block.syndrome > code.dataBits + code.parityBits
+              ? ' · beyond the codeword: not a single-bit error'
+              : ` · points at position ${block.syndrome} (${positionLabel(code.extended ? block.syndrome : block.syndrome - 1, code)})`}
+        </div>
+        {overall && (
+          <div>
+            Overall parity P0 {overall.failed ? 'fails' : 'holds'}
+            {block.syndrome !== 0 && !overall.failed && ' · syndrome without an odd flip count means two errors: detected, not corrected'}
+            {block.syndrome === 0 && overall.failed && ' · only P0 itself flipped'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ParityMatrix;
@@ -0,0 +1,62 @@
+import React, { useRef } from 'react';
+import { BinaryPayload, PayloadEncoding } from '../types';
+import { PAYLOAD_ENCODINGS } from '../utils/encoding';
+import { Upload } from 'lucide-react';
+
+interface PayloadEncodingBarProps {
+  label: string;
+  labelClassName: string;
+  encoding: PayloadEncoding;
+  byteCount: number;
+  onEncodingChange: (encoding: PayloadEncoding) => void;
+  onBinaryLoaded: (payload: BinaryPayload) => void;
+}
+
+/**
+ * Header row above a terminal payload: encoding selector, byte count and
+ * the file picker used by the binary encoding.
+ */
+const PayloadEncodingBar: React.FC<PayloadEncodingBarProps> = ({
+  label, labelClassName, encoding, byteCount, onEncodingChange, onBinaryLoaded
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onBinaryLoaded({ name: file.name, bytes: new Uint8Array(await file.arrayBuffer()) });
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 mb-3">
+      <label className={`text-sm font-black block uppercase tracking-widest ${labelClassName}`}>{label}</label>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-mono font-black text-slate-400 uppercase tracking-widest">{byteCount} B</span>
+        <select
+          value={encoding}
+          onChange={(e) => onEncodingChange(e.target.value as PayloadEncoding)}
+          className="bg-slate-100 border-2 border-slate-200 rounded-xl px-3 py-2 text-xs font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+        >
+          {PAYLOAD_ENCODINGS.map(enc => (
+            <option key={enc.id} value={enc.id}>{enc.label}</option>
+          ))}
+        </select>
+        {encoding === 'binary' && (
+          <>
+            <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-2 border-2 border-slate-200 rounded-xl text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all"
+              title="Load binary file"
+            >
+              <Upload size={16} />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PayloadEncodingBar;
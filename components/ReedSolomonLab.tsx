@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import { ReedSolomonBlock, ReedSolomonCode, ReedSolomonResult, PayloadEncoding } from '../types';
+import { ReedSolomon, REED_SOLOMON_PRESETS, describeRsCode, validateRsCode } from '../utils/reedSolomon';
+import { PAYLOAD_ENCODINGS, decodePayload, encodePayload, toHexDump } from '../utils/encoding';
+import { Layers, CheckCircle2, Info, RefreshCcw, AlertCircle, Terminal, Zap, Eraser } from 'lucide-react';
+
+type InputEncoding = Exclude<PayloadEncoding, 'binary'>;
+type Tool = 'corrupt' | 'erase';
+
+// 255-symbol codewords get heavy quickly; larger payloads are summarised
+const MAX_RENDERED_BLOCKS = 16;
+
+const toHexByte = (value: number) => value.toString(16).toUpperCase().padStart(2, '0');
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+const randomNonZeroByte = () => 1 + Math.floor(Math.random() * 255);
+
+const ReedSolomonLab: React.FC = () => {
+  const [presetIndex, setPresetIndex] = useState<number>(4);
+  const [customCode, setCustomCode] = useState<ReedSolomonCode>({ n: 31, k: 23 });
+  const [encoding, setEncoding] = useState<InputEncoding>('utf8');
+  const [input, setInput] = useState<string>('Burst errors hit whole bytes.');
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [result, setResult] = useState<ReedSolomonResult | null>(null);
+  const [tool, setTool] = useState<Tool>('corrupt');
+  const [burstLength, setBurstLength] = useState<number>(4);
+
+  const code = presetIndex >= 0 ? REED_SOLOMON_PRESETS[presetIndex].code : customCode;
+  const codeError = validateRsCode(code);
+
+  const runEncoder = () => {
+    if (codeError) {
+      setInputError(codeError);
+      return;
+    }
+    let bytes: Uint8Array;
+    try {
+      bytes = decodePayload(input, encoding);
+    } catch (e) {
+      setInputError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    if (bytes.length === 0) {
+      setInputError('Enter a payload to encode');
+      return;
+    }
+    setInputError(null);
+    setResult({ code, original: bytes, blocks: ReedSolomon.encodeBlocks(bytes, code) });
+  };
+
+  const updateBlock = (blockIndex: number, received: Uint8Array, erasures: number[]) => {
+    if (!result) return;
+    const blocks = [...result.blocks];
+    blocks[blockIndex] = ReedSolomon.decodeBlock(result.blocks[blockIndex], received, erasures, result.code);
+    setResult({ ...result, blocks });
+  };
+
+  const touchSymbol = (blockIndex: number, index: number) => {
+    if (!result) return;
+    const block = result.blocks[blockIndex];
+    const received = block.received.slice();
+    if (tool === 'erase') {
+      // Erased symbols lose their value; the decoder only knows where they are
+      const erased = block.erasures.includes(index);
+      received[index] = erased ? block.encoded[index] : 0;
+      updateBlock(blockIndex, received, erased ? block.erasures.filter(i => i !== index) : [...block.erasures, index]);
+      return;
+    }
+    received[index] = received[index] !== block.encoded[index] ? block.encoded[index] : block.encoded[index] ^ randomNonZeroByte();
+    updateBlock(blockIndex, received, block.erasures);
+  };
+
+  const injectBurst = () => {
+    if (!result) return;
+    const blockIndex = Math.floor(Math.random() * Math.min(result.blocks.length, MAX_RENDERED_BLOCKS));
+    const block = result.blocks[blockIndex];
+    const length = Math.min(burstLength, result.code.n);
+    const start = Math.floor(Math.random() * (result.code.n - length + 1));
+    const received = block.received.slice();
+    for (let i = start; i < start + length; i++) received[i] ^= randomNonZeroByte();
+    updateBlock(blockIndex, received, block.erasures);
+  };
+
+  const resetChannel = () => {
+    if (!result) return;
+    setResult({
+      ...result,
+      blocks: result.blocks.map(block => ReedSolomon.decodeBlock(block, block.encoded, [], result.code))
+    });
+  };
+
+  const isMiscorrected = (block: ReedSolomonBlock) => block.status === 'corrected' && !sameBytes(block.corrected, block.data);
+  const damagedSymbols = (block: ReedSolomonBlock) => {
+    let errors = 0;
+    for (let i = 0; i < block.received.length; i++) {
+      if (block.received[i] !== block.encoded[i] && !block.erasures.includes(i)) errors++;
+    }
+    return errors;
+  };
+
+  const corrected = result?.blocks.filter(b => b.status === 'corrected' && !isMiscorrected(b)).length || 0;
+  const miscorrected = result?.blocks.filter(isMiscorrected).length || 0;
+  const uncorrectable = result?.blocks.filter(b => b.status === 'uncorrectable').length || 0;
+
+  let outputText = '';
+  if (result) {
+    const output = new Uint8Array(result.blocks.length * result.code.k);
+    result.blocks.forEach((block, i) => output.set(block.corrected, i * result.code.k));
+    const bytes = output.slice(0, result.original.length);
+    try {
+      outputText = encodePayload(bytes, encoding);
+    } catch {
+      outputText = toHexDump(bytes);
+    }
+  }
+
+  const bannerFailed = uncorrectable > 0 || miscorrected > 0;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="lg:col-span-1 space-y-10">
+         <section className="bg-white p-10 rounded-[3rem] border-4 border-slate-100 shadow-xl">
+            <h3 className="text-xl font-black mb-8 flex items-center gap-4 uppercase tracking-tighter italic text-indigo-700">
+              <Terminal size={32} className="text-indigo-600" />
+              Symbol Encoder
+            </h3>
+            <div className="space-y-8">
+              <div>
+                <label className="text-xs font-black text-slate-400 mb-4 block tracking-[0.4em] uppercase">Code over GF(2^8)</label>
+                <select
+                  value={presetIndex}
+                  onChange={(e) => setPresetIndex(parseInt(e.target.value, 10))}
+                  className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-4 text-base font-black cursor-pointer hover:border-indigo-500 transition-all"
+                >
+                  {REED_SOLOMON_PRESETS.map((preset, i) => (
+                    <option key={preset.label} value={i}>{preset.label}</option>
+                  ))}
+                  <option value={-1}>Custom ({describeRsCode(customCode)})</option>
+                </select>
+              </div>
+
+              {presetIndex < 0 && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">Codeword n</label>
+                    <input
+                      type="number"
+                      min={2}
+                      max={255}
+                      value={customCode.n}
+                      onChange={(e) => setCustomCode({ ...customCode, n: parseInt(e.target.value, 10) || 0 })}
+                      className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">Message k</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={254}
+                      value={customCode.k}
+                      onChange={(e) => setCustomCode({ ...customCode, k: parseInt(e.target.value, 10) || 0 })}
+                      className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black"
+                    />
+                  </div>
+                  {codeError && (
+                    <p className="col-span-2 text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {codeError}</p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <label className="text-xs font-black text-slate-400 block tracking-[0.4em] uppercase">Payload</label>
+                  <select
+                    value={encoding}
+                    onChange={(e) => setEncoding(e.target.value as InputEncoding)}
+                    className="bg-slate-100 border-2 border-slate-200 rounded-xl px-3 py-2 text-xs font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+                  >
+                    {PAYLOAD_ENCODINGS.filter(enc => enc.id !== 'binary').map(enc => (
+                      <option key={enc.id} value={enc.id}>{enc.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <textarea
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  className="w-full h-32 text-xl font-mono p-6 bg-slate-900 text-indigo-400 border-b-8 border-indigo-600 rounded-3xl focus:ring-8 focus:ring-indigo-500/20 outline-none font-black shadow-2xl resize-none break-all"
+                />
+                {inputError && (
+                  <p className="mt-2 text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {inputError}</p>
+                )}
+              </div>
+              <button onClick={runEncoder} className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-2xl hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100 uppercase italic tracking-tighter">ENCODE SYMBOLS</button>
+            </div>
+         </section>
+
+         {result && (
+            <div className="bg-slate-900 text-white p-10 rounded-[3rem] border-t-8 border-emerald-500 shadow-3xl animate-in fade-in slide-in-from-left-8 duration-700 overflow-hidden relative">
+              <div className="absolute top-0 right-0 p-8 opacity-5">
+                <Layers size={100} />
+              </div>
+              <h4 className="text-xs font-black text-emerald-400 tracking-[0.4em] uppercase mb-8 border-b border-emerald-500/20 pb-4">{describeRsCode(result.code)} Protocol</h4>
+              <div className="space-y-6 font-mono text-base">
+                <div className="flex justify-between items-center group">
+                  <span className="opacity-40 uppercase font-black text-xs tracking-widest group-hover:opacity-100 transition-opacity">Payload</span>
+                  <span className="text-white font-black tracking-[0.2em] text-2xl">{result.original.length} BYTES</span>
+                </div>
+                <div className="flex justify-between items-center group">
+                  <span className="opacity-40 uppercase font-black text-xs tracking-widest group-hover:opacity-100 transition-opacity">Parity</span>
+                  <span className="text-emerald-400 font-black tracking-[0.2em] text-2xl">+{result.code.n - result.code.k} / BLOCK</span>
+                </div>
+                <div className="flex justify-between items-center group">
+                  <span className="opacity-40 uppercase font-black text-xs tracking-widest group-hover:opacity-100 transition-opacity">Budget</span>
+                  <span className="text-white font-black tracking-[0.1em] text-lg">2·ERR + ERASE &le; {result.code.n - result.code.k}</span>
+                </div>
+                <div className="flex justify-between pt-6 border-t border-white/5">
+                  <span className="font-black text-emerald-500 text-xs uppercase tracking-widest">Codewords</span>
+                  <span className="text-emerald-400 font-black tracking-[0.2em] text-4xl">{result.blocks.length}</span>
+                </div>
+              </div>
+            </div>
+         )}
+      </div>
+
+      <div className="lg:col-span-2 h-full">
+         {result ? (
+           <section className="bg-white rounded-[3.5rem] border-4 border-slate-100 shadow-3xl overflow-hidden h-full flex flex-col transition-all">
+              <div className="p-8 border-b-4 border-slate-50 bg-slate-50/50 flex flex-wrap items-center justify-between gap-4">
+                 <span className="text-sm font-black uppercase tracking-[0.3em] text-slate-800 italic">Symbol Interference Module</span>
+                 <div className="flex flex-wrap items-center gap-2">
+                   {(['corrupt', 'erase'] as Tool[]).map(t => (
+                     <button
+                       key={t}
+                       onClick={() => setTool(t)}
+                       className={`flex items-center gap-2 px-4 py-2 rounded-xl border-2 text-xs font-black uppercase tracking-widest transition-all ${tool === t ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-500'}`}
+                     >
+                       {t === 'corrupt' ? <Zap size={14} /> : <Eraser size={14} />}
+                       {t}
+                     </button>
+                   ))}
+                   <input
+                     type="number"
+                     min={1}
+                     max={result.code.n}
+                     value={burstLength}
+                     onChange={(e) => setBurstLength(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                     title="Burst length in symbols"
+                     className="w-16 bg-white border-2 border-slate-200 rounded-xl px-2 py-2 font-mono font-black text-xs"
+                   />
+                   <button onClick={injectBurst} className="px-4 py-2 rounded-xl border-2 border-amber-500 bg-amber-50 text-amber-700 text-xs font-black uppercase tracking-widest hover:bg-amber-100 transition-all">Burst</button>
+                   <button onClick={resetChannel} className="p-2 rounded-xl border-2 border-slate-200 bg-white text-slate-500 hover:border-indigo-500 transition-all" title="Restore every codeword">
+                     <RefreshCcw size={16} />
+                   </button>
+                 </div>
+              </div>
+              <div className="px-10 pt-6">
+                <span className="text-xs font-black text-indigo-600 uppercase tracking-widest flex items-center gap-2">
+                  <Info size={16} /> CLICK SYMBOLS TO {tool === 'corrupt' ? 'CORRUPT THEM' : 'MARK THEM AS ERASED'}
+                </span>
+              </div>
+              <div className="p-10 flex-1 flex flex-col space-y-10">
+                 <div className="space-y-6 max-h-[560px] overflow-y-auto pr-2">
+                    {result.blocks.slice(0, MAX_RENDERED_BLOCKS).map((block, blockIndex) => {
+                      const miscorrectedBlock = isMiscorrected(block);
+                      return (
+                        <div key={blockIndex} className="space-y-2">
+                          <div className="flex items-center gap-4 text-[10px] font-mono font-black uppercase tracking-widest text-slate-400">
+                            <span className="text-slate-300">#{blockIndex}</span>
+                            <span>{damagedSymbols(block)} err &middot; {block.erasures.length} erased</span>
+                            <span className="truncate">S=[{block.syndromes.slice(0, 8).map(toHexByte).join(' ')}{block.syndromes.length > 8 ? ' …' : ''}]</span>
+                            <span className={`ml-auto px-3 py-1 rounded-lg ${
+                              miscorrectedBlock ? 'bg-red-600 text-white' :
+                              block.status === 'clean' ? 'bg-emerald-100 text-emerald-700' :
+                              block.status === 'corrected' ? 'bg-amber-500 text-white' : 'bg-red-600 text-white'
+                            }`}>
+                              {miscorrectedBlock ? 'Miscorrected' : block.status === 'uncorrectable' ? 'Gave up' : block.status}
+                            </span>
+                          </div>
+                          <div className="flex flex-wrap gap-1">
+                            {Array.from(block.received).map((symbol, i) => {
+                              const erased = block.erasures.includes(i);
+                              return (
+                                <button
+                                  key={i}
+                                  onClick={() => touchSymbol(blockIndex, i)}
+                                  title={`${i < result.code.k ? 'Data' : 'Parity'} symbol ${i}, sent ${toHexByte(block.encoded[i])}`}
+                                  className={`w-8 h-8 rounded-md border-2 font-mono font-black text-[10px] transition-all active:scale-90 ${
+                                    erased
+                                      ? 'border-slate-400 bg-slate-300 text-slate-500 line-through'
+                                      : block.errorPositions.includes(i)
+                                        ? 'border-red-600 bg-red-600 text-white'
+                                        : symbol !== block.encoded[i]
+                                          ? 'border-amber-500 bg-amber-100 text-amber-700'
+                                          : i >= result.code.k
+                                            ? 'border-indigo-100 bg-indigo-50 text-indigo-600 hover:border-indigo-600'
+                                            : 'border-slate-100 bg-slate-50 text-slate-900 hover:border-indigo-600'
+                                  }`}
+                                >
+                                  {erased ? '??' : toHexByte(symbol)}
+                                </button>
+                              );
+                            })}
+                          </div>
+                          {block.failure && (
+                            <p className="text-[10px] font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={12} /> {block.failure}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                    {result.blocks.length > MAX_RENDERED_BLOCKS && (
+                      <p className="text-xs font-black text-slate-400 uppercase tracking-widest pt-4">
+                        Showing first {MAX_RENDERED_BLOCKS} of {result.blocks.length} codewords
+                      </p>
+                    )}
+                 </div>
+
+                 <div className="w-full">
+                    <div className={`p-10 rounded-[4rem] border-8 transition-all duration-700 flex items-center gap-10 shadow-[0_20px_60px_-15px_rgba(0,0,0,0.3)] ${bannerFailed ? 'bg-red-700 border-red-500 text-white shadow-red-200' : corrected > 0 ? 'bg-amber-500 border-amber-300 text-white shadow-amber-200' : 'bg-emerald-600 border-emerald-400 text-white shadow-emerald-200'}`}>
+                       <div className={`w-32 h-32 rounded-[2.5rem] flex items-center justify-center shadow-2xl flex-shrink-0 bg-white ${bannerFailed ? 'text-red-600' : corrected > 0 ? 'text-amber-500' : 'text-emerald-600'}`}>
+                          {bannerFailed ? <AlertCircle size={64} /> : corrected > 0 ? <RefreshCcw size={64} className="animate-spin" /> : <CheckCircle2 size={64} />}
+                       </div>
+                       <div className="flex-1 min-w-0">
+                          <div className="text-5xl font-black leading-none uppercase tracking-tighter italic">
+                            {miscorrected > 0 ? 'MISCORRECTED' : uncorrectable > 0 ? 'DECODER GAVE UP' : corrected > 0 ? 'RECOVERED' : 'CLEAN'}
+                          </div>
+                          <div className="text-xs font-black uppercase tracking-[0.3em] mt-4 opacity-80">
+                            {corrected} recovered &middot; {uncorrectable} uncorrectable &middot; {miscorrected} miscorrected &middot; {result.blocks.length - corrected - uncorrectable - miscorrected} clean
+                          </div>
+                          <div className="text-base font-black uppercase tracking-[0.4em] mt-6 opacity-80 flex justify-between items-center gap-6 border-t border-white/20 pt-6">
+                            <span className="italic">OUTPUT:</span>
+                            <span className="font-mono font-black text-xl tracking-[0.05em] break-all normal-case">{outputText}</span>
+                          </div>
+                       </div>
+                    </div>
+                 </div>
+              </div>
+           </section>
+         ) : (
+           <div className="h-full min-h-[600px] border-8 border-dashed border-slate-100 rounded-[4rem] flex flex-col items-center justify-center text-slate-300 bg-white/50 animate-in fade-in duration-1000">
+              <Layers size={120} className="mb-10 opacity-5" />
+              <p className="text-4xl font-black uppercase tracking-[0.5em] opacity-40 italic">Channel Idle</p>
+              <p className="text-base font-bold mt-6 opacity-20 uppercase tracking-widest border-t border-slate-100 pt-6">Encode a payload to begin</p>
+           </div>
+         )}
+      </div>
+    </div>
+  );
+};
+
+export default ReedSolomonLab;
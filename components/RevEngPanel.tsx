@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { RevEngModel, RevEngOptions, RevEngReport } from '../types';
+import { DEFAULT_REVENG_OPTIONS, MAX_REVENG_SAMPLES, parseRevEngSamples, reverseEngineer } from '../utils/reveng';
+import { SearchCode, Search, AlertCircle, ArrowRight, ListOrdered } from 'lucide-react';
+
+interface RevEngPanelProps {
+  onApply: (model: RevEngModel) => void;
+  onComplete?: (summary: string) => void;
+}
+
+type SearchField = 'tryByteSwap' | 'searchAdditive' | 'searchCrc';
+
+const SEARCH_FIELDS: { field: SearchField; label: string }[] = [
+  { field: 'searchCrc', label: 'CRC models' },
+  { field: 'searchAdditive', label: 'Additive variants' },
+  { field: 'tryByteSwap', label: 'Byte-swapped checksums' },
+];
+
+const PLACEHOLDER = `# message hex   checksum hex
+313233343536373839  29B1
+616263646566676869  1E7C
+414243444546474849  02AE
+3132333435          4560`;
+
+/**
+ * Recovers checksum parameters from captured message/checksum pairs and
+ * hands a chosen model to the Sender Terminal.
+ */
+const RevEngPanel: React.FC<RevEngPanelProps> = ({ onApply, onComplete }) => {
+  const [text, setText] = useState('');
+  const [options, setOptions] = useState<RevEngOptions>(DEFAULT_REVENG_OPTIONS);
+  const [report, setReport] = useState<RevEngReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const runSearch = async () => {
+    setError(null);
+    setIsSearching(true);
+    try {
+      const samples = parseRevEngSamples(text);
+      const found = await reverseEngineer(samples, options);
+      setReport(found);
+      onComplete?.(`Searched ${samples.length} sample${samples.length === 1 ? '' : 's'}: ${found.models.length} fitting model${found.models.length === 1 ? '' : 's'}${found.models[0] ? `, first ${found.models[0].label}` : ''}`);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <section className="lg:col-span-1 bg-white p-10 rounded-[3rem] border-4 border-slate-100 shadow-xl space-y-8 h-fit">
+        <h3 className="text-xl font-black flex items-center gap-4 uppercase tracking-tighter italic text-indigo-700">
+          <SearchCode size={32} className="text-indigo-600" />
+          Captured Samples
+        </h3>
+        <div>
+          <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">One sample per line</label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={PLACEHOLDER}
+            spellCheck={false}
+            className="w-full h-56 bg-slate-100 border-2 border-slate-200 rounded-xl p-4 font-mono text-xs resize-none focus:border-indigo-500 outline-none"
+          />
+          <p className="mt-2 text-xs font-bold text-slate-500">
+            Message hex, then the checksum hex as captured, separated by a space, ':' or '|'. Up to {MAX_REVENG_SAMPLES} samples; CRCs need at least two of equal length.
+          </p>
+        </div>
+        <div>
+          <label className="text-xs font-black text-slate-400 mb-2 block tracking-widest uppercase">Width (bits, 0 = from digits)</label>
+          <input
+            type="number"
+            min={0}
+            max={64}
+            value={options.width}
+            onChange={(e) => setOptions({ ...options, width: Math.min(64, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            className="w-full bg-slate-100 border-2 border-slate-200 rounded-xl p-3 font-mono font-black"
+          />
+        </div>
+        <div className="space-y-3">
+          {SEARCH_FIELDS.map(({ field, label }) => (
+            <label key={field} className="flex items-center gap-3 text-sm font-black uppercase tracking-wide text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options[field]}
+                onChange={(e) => setOptions({ ...options, [field]: e.target.checked })}
+                className="w-5 h-5 accent-indigo-600"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        {error && (
+          <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+        )}
+        <button
+          onClick={runSearch}
+          disabled={isSearching || (!options.searchCrc && !options.searchAdditive)}
+          className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-2xl hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100 uppercase italic tracking-tighter flex items-center justify-center gap-4 disabled:opacity-50"
+        >
+          <Search size={28} /> {isSearching ? 'SEARCHING...' : 'SEARCH'}
+        </button>
+      </section>
+
+      <section className="lg:col-span-2 bg-white rounded-[3.5rem] border-4 border-slate-100 shadow-3xl overflow-hidden flex flex-col">
+        <div className="p-8 border-b-4 border-slate-50 bg-slate-50/50 flex items-center justify-between">
+          <span className="text-sm font-black uppercase tracking-[0.3em] text-slate-800 italic flex items-center gap-3"><ListOrdered size={20} /> Fitting Models</span>
+          {report && (
+            <span className={`text-xs font-black uppercase tracking-widest ${report.models.length > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+              {report.models.length === 0 ? 'No model fits every sample' : `${report.models.length} model${report.models.length === 1 ? '' : 's'} fit`}
+            </span>
+          )}
+        </div>
+        {!report ? (
+          <p className="text-center py-24 text-2xl font-black uppercase tracking-[0.4em] text-slate-200 italic">No search yet</p>
+        ) : (
+          <div className="p-10 space-y-8">
+            <div className="space-y-4">
+              {report.models.map((model, i) => (
+                <div key={i} className="p-6 bg-slate-50 rounded-2xl border-2 border-slate-100 flex items-start justify-between gap-6">
+                  <div className="space-y-2 min-w-0">
+                    <div className="font-mono font-black text-slate-800 break-all">{model.label}</div>
+                    {model.byteSwapped && (
+                      <span className="inline-block px-2 py-1 rounded-md bg-amber-100 text-amber-700 text-[10px] font-black uppercase tracking-widest">Checksum bytes reversed</span>
+                    )}
+                    {model.notes.map((note, j) => (
+                      <p key={j} className="text-xs font-bold text-slate-500">{note}</p>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => onApply(model)}
+                    className="shrink-0 px-5 py-3 bg-white border-2 border-indigo-200 text-indigo-600 rounded-xl text-xs font-black uppercase tracking-widest hover:bg-indigo-600 hover:text-white transition-all flex items-center gap-2"
+                  >
+                    Apply to Sender <ArrowRight size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {report.log.length > 0 && (
+              <div>
+                <label className="text-xs font-black text-slate-400 mb-3 block tracking-[0.4em] uppercase">Search log</label>
+                <ul className="space-y-1 text-xs font-bold text-slate-500 list-disc pl-5">
+                  {report.log.map((line, i) => <li key={i}>{line}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default RevEngPanel;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { SelfTestResult } from '../types';
+import { runSelfTests } from '../utils/selfTest';
+import { downloadText } from '../utils/fileUtils';
+import { Stethoscope, Play, CheckCircle2, AlertCircle, Download } from 'lucide-react';
+
+interface SelfTestPanelProps {
+  onComplete?: (passed: number, total: number) => void;
+}
+
+/**
+ * Diagnostics view for the known-answer tests in utils/selfTest.ts.
+ */
+const SelfTestPanel: React.FC<SelfTestPanelProps> = ({ onComplete }) => {
+  const [results, setResults] = useState<SelfTestResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [ranAt, setRanAt] = useState<Date | null>(null);
+
+  const runTests = async () => {
+    setIsRunning(true);
+    const collected: SelfTestResult[] = [];
+    try {
+      await runSelfTests(result => {
+        collected.push(result);
+        setResults([...collected]);
+      });
+      setRanAt(new Date());
+      onComplete?.(collected.filter(r => r.passed).length, collected.length);
+    } catch (e) {
+      console.error('Self-test run aborted', e);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const exportReport = () => {
+    const report = {
+      generatedAt: (ranAt || new Date()).toISOString(),
+      userAgent: navigator.userAgent,
+      passed: results.filter(r => r.passed).length,
+      total: results.length,
+      results
+    };
+    downloadText('self-test-report.json', JSON.stringify(report, null, 2), 'application/json');
+  };
+
+  const failed = results.filter(r => !r.passed).length;
+  const groups = [...new Set(results.map(r => r.group))];
+
+  return (
+    <div className="space-y-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <section className="bg-white p-10 rounded-[3rem] border-4 border-slate-100 shadow-xl flex flex-col lg:flex-row lg:items-center gap-8">
+        <div className="flex-1">
+          <h3 className="text-xl font-black mb-4 flex items-center gap-4 uppercase tracking-tighter italic text-indigo-700">
+            <Stethoscope size={32} className="text-indigo-600" />
+            Known-Answer Self-Test
+          </h3>
+          <p className="text-sm font-bold text-slate-500 uppercase tracking-widest leading-relaxed">
+            Published reference vectors for every algorithm: CRC catalogue check values, FIPS / RFC digests, RFC 4231 HMAC, Fletcher and Adler examples, Hamming codeword and syndrome tables.
+          </p>
+        </div>
+        <div className="flex gap-4">
+          {results.length > 0 && !isRunning && (
+            <button
+              onClick={exportReport}
+              className="px-6 py-6 border-4 border-slate-100 rounded-[2rem] font-black text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all flex items-center gap-3 uppercase tracking-widest text-sm"
+            >
+              <Download size={20} /> Report
+            </button>
+          )}
+          <button
+            onClick={runTests}
+            disabled={isRunning}
+            className="px-10 py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-2xl hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100 uppercase italic tracking-tighter flex items-center justify-center gap-4 disabled:opacity-60"
+          >
+            <Play size={28} /> {isRunning ? 'RUNNING…' : 'RUN SELF-TEST'}
+          </button>
+        </div>
+      </section>
+
+      {results.length > 0 && (
+        <section className="bg-white rounded-[3.5rem] border-4 border-slate-100 shadow-3xl overflow-hidden">
+          <div className={`p-8 border-b-4 flex items-center justify-between ${failed > 0 ? 'bg-red-50 border-red-100' : 'bg-emerald-50 border-emerald-100'}`}>
+            <span className={`text-sm font-black uppercase tracking-[0.3em] italic flex items-center gap-3 ${failed > 0 ? 'text-red-700' : 'text-emerald-700'}`}>
+              {failed > 0 ? <AlertCircle size={20} /> : <CheckCircle2 size={20} />}
+              {results.length - failed}/{results.length} passed{failed > 0 ? ` · ${failed} FAILED` : ''}
+            </span>
+            {ranAt && <span className="text-xs font-black text-slate-400 uppercase tracking-widest">{ranAt.toLocaleString()}</span>}
+          </div>
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-xs font-black text-slate-400 uppercase tracking-[0.2em]">
+              <tr>
+                <th className="px-8 py-5">Vector</th>
+                <th className="px-8 py-5">Reference</th>
+                <th className="px-8 py-5">Expected / Actual</th>
+                <th className="px-8 py-5 text-right">Result</th>
+              </tr>
+            </thead>
+            {groups.map(group => (
+              <tbody key={group} className="divide-y-2 divide-slate-50">
+                <tr className="bg-slate-50/60">
+                  <td colSpan={4} className="px-8 py-3 text-xs font-black text-indigo-600 uppercase tracking-[0.3em]">{group}</td>
+                </tr>
+                {results.filter(r => r.group === group).map(result => (
+                  <tr key={result.name} className={result.passed ? '' : 'bg-red-50'}>
+                    <td className="px-8 py-4 text-sm font-black text-slate-800">{result.name}</td>
+                    <td className="px-8 py-4 text-xs font-bold text-slate-400">{result.reference}</td>
+                    <td className="px-8 py-4 font-mono text-[11px] font-bold break-all max-w-md">
+                      <div className="text-slate-500">{result.expected}</div>
+                      {!result.passed && <div className="text-red-600">{result.actual}</div>}
+                    </td>
+                    <td className="px-8 py-4 text-right">
+                      <span className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest ${result.passed ? 'bg-emerald-100 text-emerald-700' : 'bg-red-600 text-white'}`}>
+                        {result.passed ? 'Pass' : 'Fail'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+          </table>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default SelfTestPanel;
@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AuditDetails, ChecksumConfig, FolderSnapshot, HistoryEntry, SnapshotEntry } from '../types';
+import { deleteSnapshot, diffSnapshots, listSnapshots, parseSnapshot, sameConfig, saveSnapshot, scanFolder } from '../utils/snapshot';
+import { describeAlgorithm } from '../utils/hashUtils';
+import { resolveParams } from '../utils/registry';
+import { downloadText } from '../utils/fileUtils';
+import { FolderTree, FolderOpen, Save, Download, Upload, Trash2, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface SnapshotPanelProps {
+  config: ChecksumConfig;
+  onComplete?: (entry: Omit<HistoryEntry, 'id' | 'timestamp'>, details: AuditDetails) => void;
+}
+
+interface Scan {
+  folder: string;
+  config: ChecksumConfig;
+  entries: SnapshotEntry[];
+  root: string;
+}
+
+const formatSize = (bytes: number) => (bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`);
+
+/**
+ * Folder snapshots: per-file digests plus a Merkle root, saved by name and
+ * diffed against later scans of the same tree.
+ */
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ config, onComplete }) => {
+  const [snapshots, setSnapshots] = useState<FolderSnapshot[]>([]);
+  const [baselineId, setBaselineId] = useState<string>('');
+  const [scan, setScan] = useState<Scan | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = () => listSnapshots().then(setSnapshots).catch(e => console.error('Failed to load snapshots', e));
+  useEffect(() => { reload(); }, []);
+
+  const baseline = snapshots.find(s => s.id === baselineId) || null;
+  const comparable = baseline && scan && sameConfig(baseline, scan.config);
+  const diff = useMemo(() => (comparable ? diffSnapshots(baseline.entries, scan.entries) : null), [comparable, baseline, scan]);
+
+  const handleFolder = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (files.length === 0) return;
+    // Comparisons need the baseline's algorithm, whatever the terminals are set to
+    const scanConfig: ChecksumConfig = baseline
+      ? { algorithm: baseline.algorithm, params: baseline.params }
+      : { algorithm: config.algorithm, params: resolveParams(config.algorithm, config.params) };
+    const folder = files[0].webkitRelativePath.split('/')[0] || 'folder';
+    setError(null);
+    setScan(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await scanFolder(files, scanConfig, (done, total) => setProgress({ done, total }));
+      const next = { folder, config: scanConfig, ...result };
+      setScan(next);
+      setName(folder);
+      const label = describeAlgorithm(scanConfig.algorithm, scanConfig.params);
+      if (baseline) {
+        const changes = diffSnapshots(baseline.entries, next.entries);
+        onComplete?.({
+          algorithm: label,
+          type: 'batch',
+          result: changes.identical ? 'match' : 'mismatch',
+          summary: changes.identical
+            ? `${folder} matches snapshot ${baseline.name} (${next.entries.length} files)`
+            : `${folder} vs ${baseline.name}: ${changes.added.length} added, ${changes.removed.length} removed, ${changes.modified.length} modified, ${changes.renamed.length} renamed`,
+        }, {
+          algorithmId: scanConfig.algorithm,
+          params: scanConfig.params,
+          expected: baseline.root,
+          computed: next.root,
+          items: [
+            ...changes.added.map(entry => ({ name: entry.path, computed: entry.digest, result: 'added' })),
+            ...changes.removed.map(entry => ({ name: entry.path, expected: entry.digest, result: 'removed' })),
+            ...changes.modified.map(({ before, after }) => ({ name: after.path, expected: before.digest, computed: after.digest, result: 'modified' })),
+            ...changes.renamed.map(({ from, to }) => ({ name: `${from.path} -> ${to.path}`, expected: from.digest, computed: to.digest, result: 'renamed' })),
+          ],
+        });
+      } else {
+        onComplete?.(
+          { algorithm: label, type: 'batch', result: 'info', summary: `Scanned ${folder}: ${next.entries.length} files, root ${next.root.slice(0, 16)}…` },
+          { algorithmId: scanConfig.algorithm, params: scanConfig.params, computed: next.root }
+        );
+      }
+    } catch (err) {
+      console.error('Folder scan failed', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const save = async () => {
+    if (!scan) return;
+    try {
+      await saveSnapshot({
+        id: Math.random().toString(36),
+        name: name.trim() || scan.folder,
+        createdAt: Date.now(),
+        algorithm: scan.config.algorithm,
+        params: scan.config.params || {},
+        root: scan.root,
+        entries: scan.entries,
+      });
+      await reload();
+    } catch (err) {
+      console.error('Failed to save snapshot', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const snapshot = parseSnapshot(await file.text());
+      await saveSnapshot(snapshot);
+      await reload();
+      setBaselineId(snapshot.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deleteSnapshot(id);
+      if (baselineId === id) setBaselineId('');
+      await reload();
+    } catch (err) {
+      console.error('Failed to delete snapshot', err);
+    }
+  };
+
+  const exportSnapshot = (snapshot: FolderSnapshot) => {
+    const { id, ...portable } = snapshot;
+    downloadText(`${snapshot.name.replace(/[^\w.-]+/g, '_')}.snapshot.json`, JSON.stringify(portable, null, 2), 'application/json');
+  };
+
+  const changeRows: { kind: string; className: string; path: string; detail: string }[] = diff ? [
+    ...diff.added.map(e => ({ kind: 'added', className: 'bg-emerald-600', path: e.path, detail: e.digest })),
+    ...diff.removed.map(e => ({ kind: 'removed', className: 'bg-red-600', path: e.path, detail: e.digest })),
+    ...diff.modified.map(({ before, after }) => ({ kind: 'modified', className: 'bg-amber-500', path: after.path, detail: `${before.digest} → ${after.digest}` })),
+    ...diff.renamed.map(({ from, to }) => ({ kind: 'renamed', className: 'bg-indigo-600', path: `${from.path} → ${to.path}`, detail: to.digest })),
+  ] : [];
+
+  return (
+    <div className="mt-10 bg-white rounded-[2.5rem] shadow-2xl border-4 border-slate-100 overflow-hidden animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="p-10 border-b-4 border-slate-50 flex flex-wrap items-center justify-between gap-6 bg-slate-50/50">
+        <div>
+          <h2 className="text-3xl font-black tracking-tighter text-slate-800 uppercase italic flex items-center gap-4"><FolderTree size={32} className="text-indigo-600" /> Folder Snapshots</h2>
+          <p className="text-base text-slate-500 font-bold mt-2 uppercase tracking-wide">Merkle-rooted directory trees, diffed release to deployment</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={baselineId}
+            onChange={(e) => setBaselineId(e.target.value)}
+            className="bg-slate-100 border-2 border-slate-200 rounded-xl px-3 py-3 text-xs font-black uppercase tracking-wide cursor-pointer hover:border-indigo-500 transition-all"
+          >
+            <option value="">No baseline</option>
+            {snapshots.map(s => <option key={s.id} value={s.id}>Compare with {s.name}</option>)}
+          </select>
+          <input type="file" ref={folderInputRef} onChange={handleFolder} className="hidden" {...{ webkitdirectory: '', directory: '' }} />
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={progress !== null}
+            className="px-8 py-4 bg-indigo-600 text-white rounded-2xl text-base font-black flex items-center gap-3 active:scale-95 transition-all shadow-xl shadow-indigo-100 hover:bg-indigo-700 uppercase tracking-tight disabled:opacity-50"
+          >
+            <FolderOpen size={24} /> Scan Folder
+          </button>
+        </div>
+      </div>
+
+      <div className="p-10 space-y-8">
+        {progress && (
+          <div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}></div>
+            </div>
+            <div className="text-xs font-mono font-black text-slate-400 mt-2">{formatSize(progress.done)} / {formatSize(progress.total)}</div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-xs font-black text-red-600 uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> {error}</p>
+        )}
+
+        {scan && (
+          <div className="p-8 bg-slate-900 rounded-[2rem] text-white space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4 text-xs font-black uppercase tracking-widest text-slate-400">
+              <span>{scan.folder} &middot; {scan.entries.length} files &middot; {formatSize(scan.entries.reduce((sum, e) => sum + e.size, 0))} &middot; {describeAlgorithm(scan.config.algorithm, scan.config.params)}</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Snapshot name"
+                  className="bg-slate-800 border-2 border-slate-700 rounded-xl p-2 text-xs font-black text-white normal-case"
+                />
+                <button onClick={save} className="px-4 py-2 bg-white text-slate-900 rounded-xl flex items-center gap-2 hover:bg-indigo-100 transition-all"><Save size={14} /> Save</button>
+              </div>
+            </div>
+            <div className="font-mono text-sm font-black break-all text-indigo-300">Merkle root: {scan.root}</div>
+          </div>
+        )}
+
+        {baseline && scan && !comparable && (
+          <p className="text-xs font-black text-amber-600 uppercase tracking-widest flex items-center gap-2">
+            <AlertCircle size={14} /> {baseline.name} uses {describeAlgorithm(baseline.algorithm, baseline.params)}; scan the folder again to compare.
+          </p>
+        )}
+
+        {diff && baseline && (
+          <div className="space-y-4">
+            <div className={`flex flex-wrap items-center gap-4 text-xs font-black uppercase tracking-widest ${diff.identical ? 'text-emerald-600' : 'text-red-600'}`}>
+              {diff.identical ? <CheckCircle2 size={18} /> : <AlertCircle size={18} />}
+              {diff.identical ? `Matches ${baseline.name}: same root, ${diff.unchanged} files` : `Differs from ${baseline.name}`}
+              <span className="text-slate-400">{diff.added.length} added · {diff.removed.length} removed · {diff.modified.length} modified · {diff.renamed.length} renamed · {diff.unchanged} unchanged</span>
+            </div>
+            {changeRows.length > 0 && (
+              <div className="max-h-96 overflow-y-auto border-4 border-slate-50 rounded-2xl">
+                <table className="w-full text-left text-sm">
+                  <tbody>
+                    {changeRows.map((row, i) => (
+                      <tr key={i} className="border-b-2 border-slate-50 last:border-0">
+                        <td className="px-6 py-3 w-32"><span className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest text-white ${row.className}`}>{row.kind}</span></td>
+                        <td className="px-6 py-3 font-black text-slate-800 break-all">{row.path}</td>
+                        <td className="px-6 py-3 font-mono text-xs text-slate-400 break-all">{row.detail}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <label className="text-xs font-black text-slate-400 tracking-[0.3em] uppercase">Saved Snapshots</label>
+            <input type="file" accept=".json,application/json" ref={importInputRef} onChange={handleImport} className="hidden" />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="px-4 py-2 border-2 border-slate-200 rounded-xl text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2 hover:border-indigo-500 hover:text-indigo-600 transition-all"
+            >
+              <Upload size={14} /> Import
+            </button>
+          </div>
+          {snapshots.length === 0 ? (
+            <p className="text-sm font-black text-slate-300 uppercase tracking-[0.2em]">No snapshots saved yet</p>
+          ) : (
+            <div className="space-y-3">
+              {snapshots.map(s => (
+                <div key={s.id} className={`p-4 rounded-2xl border-4 flex flex-wrap items-center gap-4 ${s.id === baselineId ? 'border-indigo-500' : 'border-slate-50'}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-black text-slate-800 truncate">{s.name}</div>
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                      {new Date(s.createdAt).toLocaleString()} &middot; {s.entries.length} files &middot; {describeAlgorithm(s.algorithm, s.params)} &middot; <span className="font-mono">{s.root.slice(0, 16)}…</span>
+                    </div>
+                  </div>
+                  <button onClick={() => exportSnapshot(s)} title="Export snapshot" className="p-2 text-slate-400 hover:text-indigo-600 transition-all"><Download size={18} /></button>
+                  <button onClick={() => remove(s.id)} title="Delete snapshot" className="p-2 text-slate-300 hover:text-red-600 transition-all"><Trash2 size={18} /></button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotPanel;
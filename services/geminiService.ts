@@ -1,21 +1,57 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
+import { InsightProvider, insightWireRequest, parseInsightReport } from "./insightProvider";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export async function getIntegrityInsight(data: string, algorithm: string) {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Explain how the ${algorithm} algorithm works to ensure data integrity for this specific input: "${data}". Discuss collision resistance and use cases. Keep it concise and professional.`,
-      config: {
-        temperature: 0.7,
-        topP: 0.8,
+// Same shape as InsightReport, so the model's answer renders like any other provider's
+const REPORT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          tone: { type: Type.STRING, enum: ['neutral', 'good', 'warning'] },
+          paragraphs: { type: Type.ARRAY, items: { type: Type.STRING } },
+          facts: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { label: { type: Type.STRING }, value: { type: Type.STRING } },
+              required: ['label', 'value'],
+            },
+          },
+        },
+        required: ['title', 'tone', 'paragraphs'],
       },
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "Could not generate AI insights at this time.";
-  }
+    },
+  },
+  required: ['summary', 'sections'],
+};
+
+/**
+ * Cloud provider backed by Gemini structured output. The client is only
+ * created on the first request, so configuring a key costs nothing offline.
+ */
+export function createGeminiInsightProvider(apiKey: string): InsightProvider {
+  let ai: GoogleGenAI | null = null;
+  return {
+    label: 'Gemini',
+    analyze: async (request) => {
+      ai ??= new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent({
+        model: "gemini-3-flash-preview",
+        contents: `Analyse this checksum configuration and payload for data integrity. Cover bit width, collision probability and the error classes it misses, then give a recommendation. Keep it concise and professional.\n${JSON.stringify(insightWireRequest(request))}`,
+        config: {
+          temperature: 0.7,
+          topP: 0.8,
+          responseMimeType: "application/json",
+          responseSchema: REPORT_SCHEMA,
+        },
+      });
+      return parseInsightReport(JSON.parse(response.text || 'null'), 'Gemini');
+    },
+  };
 }
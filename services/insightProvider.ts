@@ -0,0 +1,93 @@
+import { InsightReport, InsightRequest, InsightSection } from '../types';
+import { getChecksumWidth } from '../utils/hashUtils';
+import { toHex } from '../utils/digests';
+
+/**
+ * Anything that can turn a checksum configuration and payload into a
+ * structured report: the offline engine, an HTTP endpoint, or a cloud model.
+ */
+export interface InsightProvider {
+  label: string;
+  analyze: (request: InsightRequest) => Promise<InsightReport>;
+}
+
+// Remote providers see the opening bytes only
+const PREVIEW_BYTES = 256;
+const HTTP_TIMEOUT_MS = 15_000;
+
+/**
+ * JSON body sent to remote providers. Versioned so a mock or in-house
+ * server can reject requests it does not understand.
+ */
+export function insightWireRequest(request: InsightRequest) {
+  return {
+    format: 'checksum-integrity-hub/insight-request',
+    version: 1,
+    algorithm: request.algorithm,
+    label: request.label,
+    params: request.params,
+    width: getChecksumWidth(request.algorithm, request.params),
+    payloadLength: request.payload.length,
+    payloadHex: toHex(request.payload.subarray(0, PREVIEW_BYTES)),
+  };
+}
+
+const TONES: InsightSection['tone'][] = ['neutral', 'good', 'warning'];
+
+/**
+ * Validates a report from an untrusted provider. Unknown tones fall back to
+ * neutral and a bare `body` string is accepted in place of `paragraphs`.
+ */
+export function parseInsightReport(value: unknown, provider: string): InsightReport {
+  const raw = value as Partial<InsightReport> | null;
+  if (!raw || typeof raw !== 'object') throw new Error(`${provider} did not return a JSON object`);
+  if (typeof raw.summary !== 'string') throw new Error(`${provider} report has no summary`);
+  if (!Array.isArray(raw.sections)) throw new Error(`${provider} report has no sections`);
+  const sections = raw.sections.map((section: Partial<InsightSection> & { body?: unknown }, i) => {
+    if (!section || typeof section.title !== 'string') throw new Error(`${provider} report section ${i + 1} has no title`);
+    const paragraphs = Array.isArray(section.paragraphs)
+      ? section.paragraphs.filter((p): p is string => typeof p === 'string')
+      : typeof section.body === 'string' ? [section.body] : [];
+    const facts = Array.isArray(section.facts)
+      ? section.facts.filter(f => f && typeof f.label === 'string').map(f => ({ label: f.label, value: String(f.value) }))
+      : [];
+    return { title: section.title, tone: TONES.includes(section.tone!) ? section.tone! : 'neutral', paragraphs, facts };
+  });
+  return { provider: typeof raw.provider === 'string' && raw.provider ? raw.provider : provider, summary: raw.summary, sections };
+}
+
+/**
+ * POSTs the wire request to `endpoint` and expects an InsightReport back.
+ */
+export function createHttpInsightProvider(endpoint: string): InsightProvider {
+  const label = (() => {
+    try {
+      return `HTTP · ${new URL(endpoint).host}`;
+    } catch {
+      return 'HTTP endpoint';
+    }
+  })();
+  return {
+    label,
+    analyze: async (request) => {
+      if (!endpoint) throw new Error('No insight endpoint is configured');
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(insightWireRequest(request)),
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error(`Insight endpoint answered ${response.status} ${response.statusText}`.trim());
+        return parseInsightReport(await response.json(), label);
+      } catch (e) {
+        if (controller.signal.aborted) throw new Error(`Insight endpoint did not answer within ${HTTP_TIMEOUT_MS / 1000} s`);
+        throw e;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
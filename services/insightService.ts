@@ -0,0 +1,36 @@
+import { InsightOptions, InsightProviderId, InsightReport, InsightRequest } from '../types';
+import { InsightProvider, createHttpInsightProvider } from './insightProvider';
+import { localInsightProvider } from './localInsights';
+import { createGeminiInsightProvider } from './geminiService';
+
+export const DEFAULT_INSIGHT_OPTIONS: InsightOptions = { provider: 'local', endpoint: 'http://localhost:8787/insight' };
+
+const GEMINI_API_KEY = process.env.API_KEY;
+
+export const INSIGHT_PROVIDERS: { id: InsightProviderId; label: string; available: boolean }[] = [
+  { id: 'local', label: 'Offline engine', available: true },
+  { id: 'http', label: 'HTTP endpoint', available: true },
+  { id: 'gemini', label: 'Gemini (cloud)', available: Boolean(GEMINI_API_KEY) },
+];
+
+export function getInsightProvider(options: InsightOptions): InsightProvider {
+  if (options.provider === 'http') return createHttpInsightProvider(options.endpoint.trim());
+  if (options.provider === 'gemini' && GEMINI_API_KEY) return createGeminiInsightProvider(GEMINI_API_KEY);
+  return localInsightProvider;
+}
+
+/**
+ * Asks the configured provider for a report. Remote failures fall back to the
+ * offline engine, with a notice saying why, so the report works without a network.
+ */
+export async function getIntegrityInsight(request: InsightRequest, options: InsightOptions): Promise<InsightReport> {
+  const provider = getInsightProvider(options);
+  if (provider === localInsightProvider) return localInsightProvider.analyze(request);
+  try {
+    return await provider.analyze(request);
+  } catch (error) {
+    console.error(`${provider.label} insight error:`, error);
+    const report = await localInsightProvider.analyze(request);
+    return { ...report, notice: `${provider.label} failed (${error instanceof Error ? error.message : String(error)}); showing the offline analysis instead.` };
+  }
+}
@@ -0,0 +1,161 @@
+import { AlgorithmParams, HashAlgorithm, InsightReport, InsightRequest, InsightSection } from '../types';
+import { getAlgorithm } from '../utils/registry';
+import { getChecksumWidth } from '../utils/hashUtils';
+import { FLETCHER_VARIANTS } from '../utils/sums';
+import { analyzeUndetectableErrors, undetectedShare } from '../utils/errorAnalysis';
+import type { InsightProvider } from './insightProvider';
+
+// The error-class sweep runs on the opening bytes so the report stays quick
+const ANALYSIS_BYTES = 32;
+const POPULATIONS = [1e3, 1e6, 1e9];
+const BROKEN_DIGESTS: string[] = [HashAlgorithm.MD5, HashAlgorithm.SHA1];
+
+const compact = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+const formatCount = (n: number) => (n >= 1e15 ? n.toExponential(1).replace('e+', 'e') : compact.format(n));
+
+const formatProbability = (p: number) => {
+  if (p >= 0.995) return '≈ certain';
+  if (p >= 0.01) return `${(p * 100).toFixed(1)}%`;
+  if (p === 0) return '0';
+  return `≈ 1 in ${(1 / p).toExponential(1).replace('e+', 'e')}`;
+};
+
+/**
+ * Distinct values the configuration can actually produce, as log2. Modular
+ * sums lose a little of their nominal width to the reduced modulus.
+ */
+function effectiveBits(algorithm: string, params: AlgorithmParams, width: number): number {
+  const fletcher = FLETCHER_VARIANTS[algorithm as HashAlgorithm];
+  if (fletcher) return 2 * Math.log2(fletcher.modulus);
+  // Ones'-complement arithmetic has two zeros, leaving 2^n - 1 values
+  if (algorithm === HashAlgorithm.INTERNET) return Math.log2(0xFFFF);
+  if (algorithm === HashAlgorithm.ADDITIVE && params.endAroundCarry) return Math.log2(2 ** width - 1);
+  return width;
+}
+
+// Birthday bound: chance that some two of n independent random inputs share a value
+function collisionChance(n: number, bits: number): number {
+  const x = (n * (n - 1)) / 2 / 2 ** bits;
+  return x < 1e-9 ? x : 1 - Math.exp(-x);
+}
+
+function familyNotes(family: string, algorithm: string, width: number): { weaknesses: string[]; advice: string; tone: InsightSection['tone'] } {
+  if (family === 'Additive') {
+    return {
+      weaknesses: [
+        'Addition is commutative, so reordered bytes or words always produce the same value.',
+        algorithm === HashAlgorithm.INTERNET
+          ? 'Inserted or removed 0x0000 words and swaps of 0x0000 with 0xFFFF leave the ones\'-complement sum unchanged.'
+          : 'Inserted or removed 0x00 bytes add nothing to the sum, and a +x on one byte cancels a −x on another.',
+      ],
+      advice: 'Fine for catching random line noise on short frames; use a CRC for structured or bursty errors and a keyed MAC against tampering.',
+      tone: 'warning',
+    };
+  }
+  if (family === 'Fletcher / Adler') {
+    return {
+      weaknesses: [
+        'The position-weighted second sum catches reorderings that a plain sum misses.',
+        algorithm === HashAlgorithm.ADLER32
+          ? 'Adler-32 is weak on short inputs: sum A rarely wraps, so only a fraction of the 32-bit space is used.'
+          : 'Arithmetic modulo 2^n − 1 cannot tell all-zero words from all-one words.',
+      ],
+      advice: 'A cheap step up from additive sums; a CRC of the same width gives guaranteed burst detection.',
+      tone: 'neutral',
+    };
+  }
+  if (family === 'CRC') {
+    return {
+      weaknesses: [
+        `Every single-bit error and every burst up to ${width} bits long is detected (for any generator with a constant term, as all standard ones have).`,
+        'CRCs are linear: anyone can alter the data and fix up the checksum, so they offer no protection against deliberate tampering.',
+      ],
+      advice: 'Well suited to detecting transmission errors; pair with a keyed MAC when an attacker may touch the data.',
+      tone: 'good',
+    };
+  }
+  if (family === 'Digest') {
+    return {
+      weaknesses: BROKEN_DIGESTS.includes(algorithm)
+        ? [`Practical collision attacks against ${algorithm} are public; two different files with the same digest can be crafted on purpose.`]
+        : ['No practical collision or preimage attacks are known; a mismatch reliably means the data changed.'],
+      advice: BROKEN_DIGESTS.includes(algorithm)
+        ? 'Keep it for legacy compatibility only; prefer SHA-256, SHA-512 or BLAKE3 for new manifests.'
+        : 'Strong for integrity; a digest is unkeyed, so authenticity still needs a MAC or signature.',
+      tone: BROKEN_DIGESTS.includes(algorithm) ? 'warning' : 'good',
+    };
+  }
+  return { weaknesses: ['This is a registered in-house algorithm; only the measured error classes below apply.'], advice: 'Compare it against a standard CRC with the Blind Spots analysis.', tone: 'neutral' };
+}
+
+/**
+ * Deterministic report built from the project's own analysis: the same
+ * configuration and payload always give the same sections, with no network.
+ */
+export async function buildLocalInsight(request: InsightRequest): Promise<InsightReport> {
+  const definition = getAlgorithm(request.algorithm);
+  const width = getChecksumWidth(request.algorithm, request.params);
+  // Rounded so near-full spaces (Adler-32, Internet) don't print as 2^32.00
+  const bits = Number(effectiveBits(request.algorithm, request.params, width).toFixed(4));
+  const notes = familyNotes(definition.family, request.algorithm, width);
+  const sections: InsightSection[] = [];
+
+  sections.push({
+    title: 'Bit Width',
+    tone: width >= 32 ? 'good' : 'warning',
+    paragraphs: [
+      `${request.label} produces a ${width}-bit value${bits < width ? `, but its arithmetic only reaches about 2^${bits} distinct values` : ''}.`,
+      `A random corruption slips through with probability about 2^-${bits}; structured errors can do far better, as the error classes below show.`,
+    ],
+    facts: [
+      { label: 'Nominal width', value: `${width} bits` },
+      { label: 'Effective space', value: bits < 53 ? Math.round(2 ** bits).toLocaleString('en') : `2^${bits}` },
+      { label: 'Random miss rate', value: formatProbability(2 ** -bits) },
+    ],
+  });
+
+  sections.push({
+    title: 'Collision Probability',
+    tone: collisionChance(1e6, bits) > 0.01 ? 'warning' : 'good',
+    paragraphs: [
+      `By the birthday bound, a collection of about ${formatCount(Math.round(1.1774 * 2 ** (bits / 2)))} random inputs has an even chance that two share a value.`,
+      ...(definition.family === 'Digest' && BROKEN_DIGESTS.includes(request.algorithm) ? ['This assumes random inputs; deliberately crafted collisions are far cheaper for this digest.'] : []),
+    ],
+    facts: POPULATIONS.map(n => ({ label: `${formatCount(n)} files`, value: formatProbability(collisionChance(n, bits)) })),
+  });
+
+  const sample = request.payload.subarray(0, ANALYSIS_BYTES);
+  if (sample.length >= 2) {
+    const results = await analyzeUndetectableErrors(sample, { algorithm: request.algorithm, params: request.params });
+    const weak = results.filter(r => r.undetected > 0);
+    sections.push({
+      title: 'Weak Error Classes',
+      tone: weak.length ? 'warning' : notes.tone,
+      paragraphs: [
+        ...notes.weaknesses,
+        weak.length
+          ? `Measured on the first ${sample.length} bytes: ${weak.map(r => r.label.toLowerCase()).join('; ')} can go unnoticed.`
+          : `Measured on the first ${sample.length} bytes: no pattern in the tested classes went unnoticed.`,
+      ],
+      facts: results.map(r => ({
+        label: r.label,
+        value: `${r.undetected.toLocaleString('en')} / ${r.examined.toLocaleString('en')} missed (${(undetectedShare(r).share * 100).toFixed(2)}%${r.exact ? '' : ', sampled'})`,
+      })),
+    });
+  } else {
+    sections.push({ title: 'Weak Error Classes', tone: notes.tone, paragraphs: [...notes.weaknesses, 'Enter at least 2 bytes to measure the error classes on this payload.'], facts: [] });
+  }
+
+  sections.push({ title: 'Recommendation', tone: notes.tone, paragraphs: [notes.advice], facts: [] });
+
+  return {
+    provider: 'Offline engine',
+    summary: `${request.label}: ${width}-bit ${definition.family} check over a ${request.payload.length}-byte payload.`,
+    sections,
+  };
+}
+
+export const localInsightProvider: InsightProvider = {
+  label: 'Offline engine',
+  analyze: buildLocalInsight,
+};
@@ -1,35 +1,560 @@
 
 export enum HashAlgorithm {
-  ADDITIVE = 'Additive Checksum'
+  ADDITIVE = 'Additive Checksum',
+  FLETCHER16 = 'Fletcher-16',
+  FLETCHER32 = 'Fletcher-32',
+  FLETCHER64 = 'Fletcher-64',
+  ADLER32 = 'Adler-32',
+  INTERNET = 'Internet Checksum (RFC 1071)',
+  CRC8 = 'CRC-8',
+  CRC16_CCITT = 'CRC-16/CCITT',
+  CRC16_MODBUS = 'CRC-16/MODBUS',
+  CRC16_XMODEM = 'CRC-16/XMODEM',
+  CRC32 = 'CRC-32',
+  CRC32C = 'CRC-32C',
+  CRC64 = 'CRC-64/XZ',
+  CRC_CUSTOM = 'CRC (Custom Model)',
+  MD5 = 'MD5',
+  SHA1 = 'SHA-1',
+  SHA256 = 'SHA-256',
+  SHA384 = 'SHA-384',
+  SHA512 = 'SHA-512',
+  BLAKE2B = 'BLAKE2b-512',
+  BLAKE3 = 'BLAKE3'
 }
 
 export interface AdditiveOptions {
   bitWidth: 8 | 16 | 32;
   initialValue: number;
+  // Bytes added per step (1 = plain byte sum); wider words are read in `bigEndian` order
+  wordBytes: 1 | 2 | 4;
+  bigEndian: boolean;
+  // Ones'-complement addition: carries out of the top bit wrap back into bit 0
+  endAroundCarry: boolean;
+  // Negated result, so that data plus checksum sums to zero (Intel HEX, many serial frames)
+  negate: boolean;
+  finalXor: number;
+}
+
+/**
+ * Starting values of the two running sums shared by Fletcher and Adler.
+ */
+export interface FletcherOptions {
+  initialA: number;
+  initialB: number;
+}
+
+export interface InternetChecksumOptions {
+  initialValue: number;
+  complement: boolean;
+}
+
+/**
+ * Rocksoft-style CRC model. Values are hex strings so that 64-bit
+ * parameters survive JSON persistence without losing precision.
+ */
+export interface CrcOptions {
+  width: number;
+  poly: string;
+  init: string;
+  refin: boolean;
+  refout: boolean;
+  xorout: string;
+}
+
+/**
+ * Algorithms are identified by string so that registered in-house algorithms
+ * sit alongside the built-in HashAlgorithm values.
+ */
+export type AlgorithmId = HashAlgorithm | string;
+
+export type ParamValue = number | string | boolean;
+
+// Hex fields are stored as uppercase strings so 64-bit values survive JSON
+export type AlgorithmParams = Record<string, ParamValue>;
+
+/**
+ * One entry of an algorithm's parameter schema; the settings panel renders one control per field.
+ */
+export type ParamField =
+  | { key: string; label: string; type: 'select'; options: { value: number; label: string }[]; default: number }
+  | { key: string; label: string; type: 'hex'; digits: number; default: string }
+  | { key: string; label: string; type: 'number'; min: number; max: number; default: number }
+  | { key: string; label: string; type: 'toggle'; on: string; off: string; default: boolean };
+
+export type PayloadEncoding = 'utf8' | 'utf16le' | 'utf16be' | 'hex' | 'base64' | 'binary';
+
+export interface BinaryPayload {
+  name: string;
+  bytes: Uint8Array;
 }
 
 export interface BatchItem {
   id: string;
   name: string;
   size: number;
-  data: string;
+  // null for manifest entries that have no matching uploaded file
+  file: File | null;
+  bytesProcessed: number;
   checksum?: string;
-  status: 'pending' | 'processing' | 'completed';
+  algorithm?: AlgorithmId;
+  // Resolved settings of the last hashing attempt, so the log never reports parameters chosen later
+  params?: AlgorithmParams;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  error?: string;
+  expected?: string;
+  verification?: 'ok' | 'failed' | 'missing';
+  // Piece mode: per-chunk digests, the manifest's copy, and the byte ranges that disagree
+  pieces?: PieceHashes;
+  expectedPieces?: PieceHashes;
+  corruptRanges?: ByteRange[];
+}
+
+/**
+ * Per-piece digests of a file cut into fixed-size chunks (the last may be
+ * shorter), with a SHA-256 Merkle root over them.
+ */
+export interface PieceHashes {
+  size: number;
+  // File length in bytes, so truncation and growth are reported too
+  length: number;
+  root: string;
+  digests: string[];
+}
+
+// Half-open: bytes start <= i < end
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export type ManifestFormat = 'gnu' | 'bsd' | 'sfv' | 'pieces';
+
+export interface ManifestEntry {
+  path: string;
+  algorithm: AlgorithmId;
+  expected: string;
+  pieces?: PieceHashes;
+}
+
+export interface Manifest {
+  name: string;
+  format: ManifestFormat;
+  entries: ManifestEntry[];
+  errors: string[];
 }
 
 export interface HistoryEntry {
   id: string;
   timestamp: number;
   algorithm: string;
-  type: 'single' | 'batch' | 'correction';
+  type: 'single' | 'batch' | 'correction' | 'experiment' | 'audit';
   result: 'match' | 'mismatch' | 'corrected' | 'info';
   summary: string;
 }
 
-export interface HammingResult {
-  original: string;
+/**
+ * Everything needed to re-check a logged verification later.
+ * Input digests are SHA-256 of the exact bytes that were checksummed.
+ */
+export interface AuditDetails {
+  algorithmId?: AlgorithmId;
+  params?: AlgorithmParams;
+  inputLength?: number;
+  inputDigest?: string;
+  expected?: string;
+  computed?: string;
+  items?: { name: string; algorithmId?: AlgorithmId; params?: AlgorithmParams; expected?: string; computed?: string; result?: string }[];
+  notes?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A history entry as stored in the IndexedDB audit log. `hash` covers the
+ * record and `prevHash`, chaining every record to the one before it.
+ */
+export interface AuditRecord extends HistoryEntry {
+  seq: number;
+  details: AuditDetails;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditFilter {
+  type: HistoryEntry['type'] | 'all';
+  result: HistoryEntry['result'] | 'all';
+  algorithm: string;
+  // ISO dates (yyyy-mm-dd), inclusive; empty means unbounded
+  from: string;
+  to: string;
+}
+
+export interface AuditChainStatus {
+  ok: boolean;
+  checked: number;
+  // First record that fails verification, if any
+  brokenAt?: number;
+  reason?: string;
+  // Last seq removed by the most recent clear, if the log was ever cleared
+  clearedThrough?: number;
+}
+
+export interface HammingCode {
+  dataBits: number;
+  parityBits: number;
+  // SECDED: an extra overall parity bit (codeword index 0) detects double errors
+  extended: boolean;
+}
+
+export interface HammingBlock {
+  data: string;
   encoded: string;
   received: string;
   corrected: string;
-  errorPosition: number | null;
+  errorIndex: number | null;
+  syndrome: number;
+  status: 'clean' | 'corrected' | 'uncorrectable';
+}
+
+export interface HammingResult {
+  code: HammingCode;
+  original: string;
+  blocks: HammingBlock[];
+}
+
+export interface ReedSolomonCode {
+  // Codeword and message lengths in bytes (GF(2^8) symbols), n <= 255
+  n: number;
+  k: number;
+}
+
+export interface ReedSolomonBlock {
+  data: Uint8Array;
+  encoded: Uint8Array;
+  received: Uint8Array;
+  // Symbol indices the receiver has flagged as unreliable
+  erasures: number[];
+  corrected: Uint8Array;
+  errorPositions: number[];
+  syndromes: number[];
+  status: 'clean' | 'corrected' | 'uncorrectable';
+  failure?: string;
+}
+
+export interface ReedSolomonResult {
+  code: ReedSolomonCode;
+  original: Uint8Array;
+  blocks: ReedSolomonBlock[];
+}
+
+export type ChannelModel = 'clean' | 'ber' | 'gilbert-elliott' | 'drop-insert' | 'swap';
+
+export interface ChannelOptions {
+  model: ChannelModel;
+  seed: number;
+  // Per-bit error probability (the "good" state for Gilbert–Elliott)
+  bitErrorRate: number;
+  // Gilbert–Elliott: per-bit state transition probabilities and the BER while in the bad state
+  goodToBad: number;
+  badToGood: number;
+  burstBitErrorRate: number;
+  // Per-byte probabilities
+  dropRate: number;
+  insertRate: number;
+  swapRate: number;
+}
+
+export interface ChannelReport {
+  bitFlips: number;
+  drops: number;
+  inserts: number;
+  swaps: number;
+}
+
+export interface ExperimentResult {
+  label: string;
+  trials: number;
+  // Trials where the channel actually changed the message
+  corrupted: number;
+  undetected: number;
+}
+
+/**
+ * A complete checksum configuration, for features that evaluate it away from the terminals.
+ */
+export interface ChecksumConfig {
+  algorithm: AlgorithmId;
+  // Missing fields fall back to the algorithm's schema defaults
+  params?: AlgorithmParams;
+}
+
+export interface ErrorClassResult {
+  id: string;
+  label: string;
+  // Number of distinct error patterns of this class for the payload (estimated when sampled)
+  total: number;
+  examined: number;
+  undetected: number;
+  exact: boolean;
+  examples: string[];
+}
+
+export interface SelfTestResult {
+  group: string;
+  name: string;
+  // Where the expected value comes from, e.g. "FIPS 180-4 B.1"
+  reference: string;
+  expected: string;
+  actual: string;
+  passed: boolean;
+}
+
+export type MacAlgorithm = 'hmac-sha256' | 'blake2b-keyed';
+
+/**
+ * Authenticated transfer: both terminals share `key` and exchange a tag alongside the checksum.
+ */
+export interface MacOptions {
+  enabled: boolean;
+  algorithm: MacAlgorithm;
+  key: string;
+  keyEncoding: 'utf8' | 'hex';
+}
+
+export type ForgeCharset = 'binary' | 'printable';
+
+// Where the compensating bytes go: appended, or overwriting `length` bytes from `start`
+export type ForgeStrategy = { mode: 'append' } | { mode: 'replace'; start: number; length: number };
+
+export interface ForgeResult {
+  bytes: Uint8Array;
+  patchStart: number;
+  patchLength: number;
+  checksum: string;
+}
+
+/**
+ * Everything a receiver on another machine needs to verify a transfer.
+ * The optional payload travels as Base64 of the exact checksummed bytes.
+ */
+export interface VerificationBundle {
+  format: 'checksum-integrity-hub/bundle';
+  version: 1;
+  algorithm: AlgorithmId;
+  params: AlgorithmParams;
+  checksum: string;
+  createdAt: string;
+  payload?: { encoding: PayloadEncoding; name?: string; data: string };
+  // The tag only; the key is shared out of band
+  mac?: { algorithm: MacAlgorithm; tag: string };
+}
+
+export interface SnapshotEntry {
+  // Relative to the scanned folder, '/'-separated
+  path: string;
+  size: number;
+  digest: string;
+}
+
+/**
+ * Per-file digests of a directory tree, summarised by a SHA-256 Merkle root
+ * over the entries in path order.
+ */
+export interface FolderSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  algorithm: AlgorithmId;
+  params: AlgorithmParams;
+  root: string;
+  entries: SnapshotEntry[];
+}
+
+export interface SnapshotDiff {
+  added: SnapshotEntry[];
+  removed: SnapshotEntry[];
+  modified: { before: SnapshotEntry; after: SnapshotEntry }[];
+  // Same digest under a new path
+  renamed: { from: SnapshotEntry; to: SnapshotEntry }[];
+  unchanged: number;
+  identical: boolean;
+}
+
+/**
+ * One aligned stretch of a sender/receiver byte diff. Ranges are half-open;
+ * an insert has an empty sender range and a delete an empty receiver range.
+ */
+export interface DiffOp {
+  kind: 'equal' | 'change' | 'insert' | 'delete';
+  senderStart: number;
+  senderEnd: number;
+  receiverStart: number;
+  receiverEnd: number;
+}
+
+export interface HunkImpact {
+  op: DiffOp;
+  // Change of the final value if this were the only difference
+  alone: string;
+  // Checksums of both payloads up to the end of this hunk
+  senderRunning: string;
+  receiverRunning: string;
+}
+
+export interface ChecksumImpact {
+  // How values are compared: arithmetic difference, XOR, or not meaningfully at all
+  mode: 'sum' | 'xor' | 'opaque';
+  hunks: HunkImpact[];
+  senderFinal: string;
+  receiverFinal: string;
+  totalDelta: string;
+  collision: boolean;
+  explanation: string[];
+}
+
+/**
+ * One step of a checksum trace: a byte, word or block going into the
+ * accumulator, with the register before and after it.
+ */
+export interface TraceStep {
+  offset: number;
+  input: string;
+  before: string;
+  after: string;
+  // The accumulator overflowed its width or modulus and was reduced (for a CRC: the polynomial was XORed in)
+  wrapped: boolean;
+  // Intermediate values, e.g. one line per CRC bit
+  detail: string[];
+}
+
+export interface ChecksumTrace {
+  start: { value: string; note: string };
+  steps: TraceStep[];
+  // Post-processing after the last input, e.g. complement, reflection, xorout
+  finish: { value: string; note: string }[];
+  result: string;
+  // Only this many leading bytes were traced; null when the whole payload was
+  tracedBytes: number | null;
+}
+
+export type InsightProviderId = 'local' | 'http' | 'gemini';
+
+export interface InsightOptions {
+  provider: InsightProviderId;
+  // Only used by the HTTP provider
+  endpoint: string;
+}
+
+export interface InsightRequest {
+  algorithm: AlgorithmId;
+  params: AlgorithmParams;
+  label: string;
+  payload: Uint8Array;
+}
+
+export interface InsightSection {
+  title: string;
+  tone: 'neutral' | 'good' | 'warning';
+  paragraphs: string[];
+  facts: { label: string; value: string }[];
+}
+
+/**
+ * Structured analysis returned by every insight provider, rendered section
+ * by section in the diagnostic report.
+ */
+export interface InsightReport {
+  provider: string;
+  summary: string;
+  sections: InsightSection[];
+  // Set when the configured provider failed and another one answered instead
+  notice?: string;
+}
+
+export type ArqProtocol = 'stop-and-wait' | 'go-back-n' | 'selective-repeat';
+
+export interface ArqOptions {
+  protocol: ArqProtocol;
+  // Message bytes carried per frame, before the sequence byte and checksum
+  frameBytes: number;
+  // Frames in flight; Stop-and-Wait always uses 1
+  windowSize: number;
+  // Whole frames or ACK/NAKs that never arrive, on top of the channel model's damage
+  frameLossRate: number;
+  ackLossRate: number;
+  // In frame times: the sender puts one frame on the wire per tick
+  propagationDelay: number;
+  timeout: number;
+}
+
+export type ArqEventKind =
+  | 'send' | 'resend' | 'lost' | 'timeout'
+  | 'accepted' | 'undetected' | 'rejected' | 'duplicate' | 'discarded'
+  | 'ack' | 'nak' | 'ack-lost';
+
+export interface ArqEvent {
+  time: number;
+  // Frame index, or the acknowledged number for ACK/NAK events
+  frame: number;
+  kind: ArqEventKind;
+  detail: string;
+}
+
+export interface ArqFrameStatus {
+  index: number;
+  sends: number;
+  // Accepted by the receiver with contents that differ from what was sent
+  undetected: boolean;
+}
+
+export interface ArqResult {
+  frames: ArqFrameStatus[];
+  // Only the opening events are kept; eventCount covers the whole run
+  events: ArqEvent[];
+  eventCount: number;
+  transmissions: number;
+  retransmissions: number;
+  lostFrames: number;
+  lostAcks: number;
+  rejectedFrames: number;
+  timeouts: number;
+  undetectedFrames: number[];
+  // Ticks until the sender saw the last ACK, or gave up
+  elapsed: number;
+  wireBytes: number;
+  frameWireBytes: number;
+  // Delivered message bytes that arrived intact; the numerator of goodput
+  goodBytes: number;
+  delivered: Uint8Array;
+  deliveredIntact: boolean;
+  completed: boolean;
+}
+
+export interface RevEngSample {
+  message: Uint8Array;
+  // As captured, most significant digit first
+  checksum: string;
+}
+
+export interface RevEngOptions {
+  // Checksum width in bits; 0 infers it from the checksum's hex digits
+  width: number;
+  // Also try the checksum bytes reversed, as little-endian captures store them
+  tryByteSwap: boolean;
+  searchAdditive: boolean;
+  searchCrc: boolean;
+}
+
+export interface RevEngModel {
+  algorithm: AlgorithmId;
+  params: AlgorithmParams;
+  label: string;
+  // The checksum bytes had to be reversed to fit
+  byteSwapped: boolean;
+  notes: string[];
+}
+
+export interface RevEngReport {
+  models: RevEngModel[];
+  // What was searched, and why parts of the search may be incomplete
+  log: string[];
 }
@@ -0,0 +1,315 @@
+import { ArqEvent, ArqEventKind, ArqFrameStatus, ArqOptions, ArqProtocol, ArqResult, ChannelOptions, ChecksumConfig } from '../types';
+import { createHasher } from './hashUtils';
+import { createPrng, describeChannelReport, transmitThroughChannel } from './channel';
+
+export const ARQ_PROTOCOLS: { id: ArqProtocol; label: string }[] = [
+  { id: 'stop-and-wait', label: 'Stop-and-Wait' },
+  { id: 'go-back-n', label: 'Go-Back-N' },
+  { id: 'selective-repeat', label: 'Selective Repeat' },
+];
+
+export const DEFAULT_ARQ_OPTIONS: ArqOptions = {
+  protocol: 'go-back-n',
+  frameBytes: 16,
+  windowSize: 4,
+  frameLossRate: 0.05,
+  ackLossRate: 0.02,
+  propagationDelay: 2,
+  timeout: 12,
+};
+
+// One header byte carries the sequence number; windows must stay under half of it
+const SEQ_SPACE = 256;
+export const MAX_ARQ_WINDOW = SEQ_SPACE / 2 - 1;
+// Frames are simulated one by one, so long payloads are sent over their opening bytes only
+export const MAX_ARQ_MESSAGE_BYTES = 64 * 1024;
+export const MAX_TIMELINE_EVENTS = 1000;
+// Past this many sends per frame the link is declared unusable
+const MAX_SENDS_PER_FRAME = 50;
+
+interface Arrival {
+  time: number;
+  kind: 'frame' | 'ack' | 'nak';
+  // Frame index as sent, or the acknowledged number
+  number: number;
+  bytes?: Uint8Array;
+  damage?: string;
+}
+
+function checksumField(body: Uint8Array, config: ChecksumConfig, size: number): Uint8Array {
+  const hasher = createHasher(config.algorithm, config.params);
+  hasher.update(body);
+  const hex = hasher.digest().padStart(size * 2, '0');
+  return Uint8Array.from({ length: size }, (_, i) => parseInt(hex.slice(2 * i, 2 * i + 2), 16));
+}
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Frame layout: sequence number (index mod 256) ‖ payload ‖ checksum over both.
+ */
+function buildFrame(index: number, payload: Uint8Array, config: ChecksumConfig, checksumBytes: number): Uint8Array {
+  const frame = new Uint8Array(1 + payload.length + checksumBytes);
+  frame[0] = index % SEQ_SPACE;
+  frame.set(payload, 1);
+  frame.set(checksumField(frame.subarray(0, 1 + payload.length), config, checksumBytes), 1 + payload.length);
+  return frame;
+}
+
+/**
+ * Sends a message as numbered, checksummed frames over the noisy channel and
+ * replays the chosen ARQ protocol tick by tick. The same seed always gives the
+ * same run; frames the checksum failed to flag are reported, not hidden.
+ */
+export function simulateArq(message: Uint8Array, config: ChecksumConfig, channel: ChannelOptions, options: ArqOptions): ArqResult {
+  const { protocol } = options;
+  const frameBytes = Math.max(1, Math.floor(options.frameBytes));
+  const window = protocol === 'stop-and-wait' ? 1 : Math.min(MAX_ARQ_WINDOW, Math.max(1, Math.floor(options.windowSize)));
+  const delay = Math.max(1, Math.floor(options.propagationDelay));
+  const timeout = Math.max(1, Math.floor(options.timeout));
+  const random = createPrng(channel.seed);
+
+  const checksumBytes = Math.ceil(createHasher(config.algorithm, config.params).digest().length / 2);
+  const frameCount = Math.max(1, Math.ceil(message.length / frameBytes));
+  const originals = Array.from({ length: frameCount }, (_, i) =>
+    buildFrame(i, message.subarray(i * frameBytes, (i + 1) * frameBytes), config, checksumBytes));
+  const frames: ArqFrameStatus[] = originals.map((_, index) => ({ index, sends: 0, undetected: false }));
+
+  const events: ArqEvent[] = [];
+  let eventCount = 0;
+  const log = (time: number, frame: number, kind: ArqEventKind, detail: string) => {
+    eventCount++;
+    if (events.length < MAX_TIMELINE_EVENTS) events.push({ time, frame, kind, detail });
+  };
+  let transmissions = 0;
+  let retransmissions = 0;
+  let lostFrames = 0;
+  let lostAcks = 0;
+  let rejectedFrames = 0;
+  let timeouts = 0;
+  let wireBytes = 0;
+  const undetectedFrames: number[] = [];
+
+  let inFlight: Arrival[] = [];
+
+  // Sender: base is the oldest unacknowledged frame
+  let base = 0;
+  let nextSeq = 0;
+  const acked = new Array<boolean>(frameCount).fill(false);
+  let resendQueue: number[] = [];
+  // Stop-and-Wait and Go-Back-N run one timer for the base; Selective Repeat one per frame
+  let baseTimer: number | null = null;
+  const frameTimers = new Map<number, number>();
+
+  // Receiver: next frame owed to the application, and Selective Repeat's out-of-order buffer
+  let expected = 0;
+  // Windowed protocols NAK a missing frame once; a burst of rejects would otherwise trigger a resend each
+  let nakSentFor: number | null = null;
+  const buffered = new Map<number, Uint8Array>();
+  const deliveredParts: Uint8Array[] = [];
+  let goodBytes = 0;
+
+  const reply = (time: number, kind: 'ack' | 'nak', number: number, detail: string) => {
+    if (random() < options.ackLossRate) {
+      lostAcks++;
+      log(time, number, 'ack-lost', `${kind.toUpperCase()} ${number} lost on the return path`);
+      return;
+    }
+    inFlight.push({ time: time + delay, kind, number });
+    log(time, number, kind, detail);
+  };
+
+  const deliver = (index: number, frame: Uint8Array) => {
+    const payload = frame.subarray(1, frame.length - checksumBytes);
+    deliveredParts.push(payload);
+    if (!frames[index].undetected) goodBytes += payload.length;
+  };
+
+  // Accepts a frame whose checksum passed; false when it landed outside the message
+  const accept = (time: number, index: number, frame: Uint8Array, damage: string | undefined): boolean => {
+    if (index >= frameCount) {
+      log(time, index, 'discarded', `checksum passed but sequence ${frame[0]} points past the last frame`);
+      return false;
+    }
+    if (sameBytes(frame, originals[index])) {
+      log(time, index, 'accepted', 'checksum OK');
+    } else {
+      frames[index].undetected = true;
+      undetectedFrames.push(index);
+      log(time, index, 'undetected', `checksum OK, but the frame differs from frame ${index} as sent (${damage ?? 'damaged'})`);
+    }
+    return true;
+  };
+
+  const receive = (time: number, arrival: Arrival) => {
+    const frame = arrival.bytes!;
+    const body = frame.subarray(0, Math.max(0, frame.length - checksumBytes));
+    if (frame.length < 1 + checksumBytes || !sameBytes(checksumField(body, config, checksumBytes), frame.subarray(body.length))) {
+      rejectedFrames++;
+      log(time, arrival.number, 'rejected', `checksum mismatch (${arrival.damage}); frame dropped`);
+      if (protocol === 'stop-and-wait' || nakSentFor !== expected) {
+        nakSentFor = expected;
+        reply(time, 'nak', expected, `NAK ${expected}: frame ${expected} is still missing`);
+      }
+      return;
+    }
+    // Sequence numbers wrap at 256; resolve them against the receive window
+    const offset = (frame[0] - (expected % SEQ_SPACE) + SEQ_SPACE) % SEQ_SPACE;
+    if (offset >= SEQ_SPACE - window) {
+      const index = expected - (SEQ_SPACE - offset);
+      log(time, index, 'duplicate', 'already delivered; acknowledged again');
+      if (protocol === 'selective-repeat') reply(time, 'ack', index, `ACK ${index}`);
+      else reply(time, 'ack', expected, `ACK ${expected} (next expected)`);
+      return;
+    }
+    if (protocol !== 'selective-repeat') {
+      if (offset !== 0) {
+        log(time, expected + offset, 'discarded', `out of order, waiting for frame ${expected}`);
+        reply(time, 'ack', expected, `ACK ${expected} (repeated: frame ${expected} is still missing)`);
+        return;
+      }
+      if (!accept(time, expected, frame, arrival.damage)) return;
+      deliver(expected, frame);
+      expected++;
+      reply(time, 'ack', expected, `ACK ${expected} (next expected)`);
+      return;
+    }
+    if (offset >= window) {
+      log(time, expected + offset, 'discarded', `outside the receive window ${expected}–${expected + window - 1}`);
+      return;
+    }
+    const index = expected + offset;
+    if (buffered.has(index)) {
+      log(time, index, 'duplicate', 'already buffered; acknowledged again');
+    } else {
+      if (!accept(time, index, frame, arrival.damage)) return;
+      buffered.set(index, frame);
+    }
+    reply(time, 'ack', index, `ACK ${index}`);
+    while (buffered.has(expected)) {
+      deliver(expected, buffered.get(expected)!);
+      buffered.delete(expected);
+      expected++;
+    }
+  };
+
+  const queueFrom = (from: number) => {
+    resendQueue = [];
+    for (let i = from; i < nextSeq; i++) resendQueue.push(i);
+  };
+
+  const onReply = (time: number, arrival: Arrival) => {
+    const n = arrival.number;
+    if (arrival.kind === 'nak') {
+      if (protocol === 'selective-repeat') {
+        if (n < nextSeq && !acked[n] && !resendQueue.includes(n)) resendQueue.push(n);
+      } else if (n === base && base < nextSeq) {
+        queueFrom(base);
+        baseTimer = time + timeout;
+      }
+      return;
+    }
+    if (protocol === 'selective-repeat') {
+      if (n < base || n >= frameCount || acked[n]) return;
+      acked[n] = true;
+      frameTimers.delete(n);
+      while (base < frameCount && acked[base]) base++;
+      return;
+    }
+    // Cumulative: everything below n has arrived
+    if (n <= base) return;
+    for (let i = base; i < n; i++) acked[i] = true;
+    base = n;
+    baseTimer = base < nextSeq ? time + timeout : null;
+  };
+
+  const transmit = (time: number, index: number, retransmit: boolean) => {
+    const frame = originals[index];
+    frames[index].sends++;
+    transmissions++;
+    wireBytes += frame.length;
+    if (retransmit) retransmissions++;
+    log(time, index, retransmit ? 'resend' : 'send', `${frame.length} bytes on the wire${retransmit ? `, attempt ${frames[index].sends}` : ''}`);
+    if (protocol === 'selective-repeat') frameTimers.set(index, time + timeout);
+    else if (baseTimer === null) baseTimer = time + timeout;
+    if (random() < options.frameLossRate) {
+      lostFrames++;
+      log(time, index, 'lost', 'frame lost in transit');
+      return;
+    }
+    const { bytes, report } = transmitThroughChannel(frame, channel, random);
+    inFlight.push({ time: time + 1 + delay, kind: 'frame', number: index, bytes, damage: describeChannelReport(report) });
+  };
+
+  const maxTransmissions = frameCount * MAX_SENDS_PER_FRAME;
+  let completed = true;
+  let time = 0;
+  for (; base < frameCount; time++) {
+    if (transmissions >= maxTransmissions) {
+      completed = false;
+      break;
+    }
+    const arriving = inFlight.filter(a => a.time === time);
+    inFlight = inFlight.filter(a => a.time !== time);
+    for (const arrival of arriving) {
+      if (arrival.kind === 'frame') receive(time, arrival);
+      else onReply(time, arrival);
+    }
+    if (base >= frameCount) break;
+
+    if (protocol === 'selective-repeat') {
+      for (const [index, expiry] of frameTimers) {
+        if (expiry > time || acked[index]) continue;
+        timeouts++;
+        log(time, index, 'timeout', `no ACK for frame ${index}; resending it alone`);
+        frameTimers.delete(index);
+        if (!resendQueue.includes(index)) resendQueue.push(index);
+      }
+    } else if (baseTimer !== null && baseTimer <= time) {
+      timeouts++;
+      log(time, base, 'timeout', protocol === 'go-back-n' && nextSeq - base > 1 ? `no ACK for frame ${base}; going back to resend ${base}–${nextSeq - 1}` : `no ACK for frame ${base}; resending it`);
+      queueFrom(base);
+      baseTimer = time + timeout;
+    }
+
+    // One frame per tick: retransmissions first, then new frames while the window allows
+    resendQueue = resendQueue.filter(i => !acked[i]);
+    if (resendQueue.length > 0) transmit(time, resendQueue.shift()!, true);
+    else if (nextSeq < frameCount && nextSeq < base + window) transmit(time, nextSeq++, false);
+  }
+
+  const delivered = new Uint8Array(deliveredParts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of deliveredParts) {
+    delivered.set(part, offset);
+    offset += part.length;
+  }
+  return {
+    frames,
+    events,
+    eventCount,
+    transmissions,
+    retransmissions,
+    lostFrames,
+    lostAcks,
+    rejectedFrames,
+    timeouts,
+    undetectedFrames,
+    elapsed: time,
+    wireBytes,
+    frameWireBytes: 1 + frameBytes + checksumBytes,
+    goodBytes,
+    delivered,
+    deliveredIntact: completed && sameBytes(delivered, message),
+    completed,
+  };
+}
+
+/**
+ * Intact message bytes per tick, and the share of the link's capacity they use.
+ */
+export function arqGoodput(result: ArqResult): { bytesPerTick: number; efficiency: number } {
+  if (result.elapsed === 0) return { bytesPerTick: 0, efficiency: 0 };
+  const bytesPerTick = result.goodBytes / result.elapsed;
+  return { bytesPerTick, efficiency: bytesPerTick / result.frameWireBytes };
+}
@@ -0,0 +1,171 @@
+import { HashAlgorithm, AuditChainStatus, AuditDetails, AuditFilter, AuditRecord, HistoryEntry } from '../types';
+import { calculateChecksum, createHasher } from './hashUtils';
+import { runInStore } from './db';
+
+// Hash of the newest record, kept outside IndexedDB so truncating the log's tail is noticed too
+const HEAD_KEY = 'audit_head';
+const GENESIS = '0'.repeat(64);
+
+export const DEFAULT_AUDIT_FILTER: AuditFilter = { type: 'all', result: 'all', algorithm: '', from: '', to: '' };
+
+const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => runInStore('audit', mode, action);
+
+// Sorted keys, so the hash does not depend on property insertion order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  // calculateChecksum leaves empty payloads blank; the log wants the real digest of ""
+  if (bytes.length === 0) return createHasher(HashAlgorithm.SHA256).digest();
+  return calculateChecksum(bytes, HashAlgorithm.SHA256);
+}
+
+function hashRecord(record: Omit<AuditRecord, 'hash'>): Promise<string> {
+  return sha256Hex(new TextEncoder().encode(canonicalJson(record)));
+}
+
+// Appends are serialised so each one sees the record written before it
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+export async function listAuditRecords(): Promise<AuditRecord[]> {
+  // Let pending appends land first so the list never trails a record already handed out
+  await appendQueue;
+  const records = await run<AuditRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => a.seq - b.seq);
+}
+
+const lastRecord = () => run<IDBCursorWithValue | null>('readonly', store => store.openCursor(null, 'prev'))
+  .then(cursor => (cursor ? (cursor.value as AuditRecord) : null));
+
+async function signRecord(last: AuditRecord | null, entry: Omit<HistoryEntry, 'id' | 'timestamp'>, details: AuditDetails, timestamp: number): Promise<AuditRecord> {
+  const seq = last ? last.seq + 1 : 1;
+  const unsigned: Omit<AuditRecord, 'hash'> = {
+    ...entry,
+    id: `audit-${seq}`,
+    timestamp,
+    seq,
+    details,
+    prevHash: last ? last.hash : GENESIS,
+  };
+  return { ...unsigned, hash: await hashRecord(unsigned) };
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const next = appendQueue.then(task);
+  appendQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Adds a record to the end of the chain and returns it as stored.
+ */
+export function appendAuditRecord(entry: Omit<HistoryEntry, 'id' | 'timestamp'>, details: AuditDetails = {}, timestamp: number = Date.now()): Promise<AuditRecord> {
+  return enqueue(async () => {
+    const record = await signRecord(await lastRecord(), entry, details, timestamp);
+    await run('readwrite', store => store.add(record));
+    localStorage.setItem(HEAD_KEY, record.hash);
+    return record;
+  });
+}
+
+/**
+ * Deletes every record but keeps the chain going: a 'log cleared' record
+ * links to the old head, so wiping the log is itself on the record.
+ */
+export function clearAuditLog(): Promise<void> {
+  return enqueue(async () => {
+    const last = await lastRecord();
+    if (!last) return;
+    const removed = await run<number>('readonly', store => store.count());
+    const marker = await signRecord(last, {
+      algorithm: 'Audit Log',
+      type: 'audit',
+      result: 'info',
+      summary: `Log cleared: ${removed} record${removed === 1 ? '' : 's'} up to #${last.seq} removed`,
+    }, { notes: { clearedRecords: removed, clearedThrough: last.seq } }, Date.now());
+    // One transaction, so the records are never gone without the marker that accounts for them
+    await run('readwrite', store => {
+      store.clear();
+      return store.add(marker);
+    });
+    localStorage.setItem(HEAD_KEY, marker.hash);
+  });
+}
+
+/**
+ * Recomputes every hash and link. An edited record fails its own hash, a
+ * deleted one breaks the sequence or the next record's link, and a removed
+ * tail no longer matches the head hash remembered at the last append.
+ */
+export async function verifyAuditChain(records: AuditRecord[]): Promise<AuditChainStatus> {
+  // After a clear the chain resumes at the 'log cleared' record, whose link points into the removed records
+  const cleared = records[0]?.type === 'audit' ? records[0] : null;
+  const firstSeq = cleared ? cleared.seq : 1;
+  let prevHash = cleared ? cleared.prevHash : GENESIS;
+  for (let i = 0; i < records.length; i++) {
+    const { hash, ...unsigned } = records[i];
+    if (records[i].seq !== firstSeq + i) return { ok: false, checked: i, brokenAt: records[i].seq, reason: `record #${firstSeq + i} is missing` };
+    if (records[i].prevHash !== prevHash) return { ok: false, checked: i, brokenAt: records[i].seq, reason: 'link to the previous record does not match' };
+    if ((await hashRecord(unsigned)) !== hash) return { ok: false, checked: i, brokenAt: records[i].seq, reason: 'contents were modified after logging' };
+    prevHash = hash;
+  }
+  const head = localStorage.getItem(HEAD_KEY);
+  if (head && head !== (records.length > 0 ? prevHash : null)) {
+    return { ok: false, checked: records.length, brokenAt: records.length + 1, reason: 'newest records were removed' };
+  }
+  return { ok: true, checked: records.length, clearedThrough: cleared ? cleared.seq - 1 : undefined };
+}
+
+export function filterAuditRecords(records: AuditRecord[], filter: AuditFilter): AuditRecord[] {
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+  const algorithm = filter.algorithm.trim().toLowerCase();
+  return records.filter(record =>
+    (filter.type === 'all' || record.type === filter.type) &&
+    (filter.result === 'all' || record.result === filter.result) &&
+    (!algorithm || record.algorithm.toLowerCase().includes(algorithm)) &&
+    record.timestamp >= from && record.timestamp <= to
+  );
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function auditToCsv(records: AuditRecord[]): string {
+  const header = ['seq', 'timestamp', 'type', 'result', 'algorithm', 'summary', 'params', 'inputLength', 'inputDigest', 'expected', 'computed', 'items', 'notes', 'prevHash', 'hash'];
+  const rows = records.map(r => [
+    r.seq, new Date(r.timestamp).toISOString(), r.type, r.result, r.algorithm, r.summary,
+    r.details.params, r.details.inputLength, r.details.inputDigest, r.details.expected, r.details.computed,
+    r.details.items, r.details.notes, r.prevHash, r.hash,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+// Shared by every caller, so a second mount (React StrictMode) cannot import the entries twice
+let legacyImport: Promise<void> | null = null;
+
+/**
+ * One-time import of the capped localStorage history used by earlier versions, oldest first.
+ */
+export function importLegacyHistory(): Promise<void> {
+  legacyImport ??= (async () => {
+    const saved = localStorage.getItem('integrity_history');
+    if (!saved) return;
+    const entries: HistoryEntry[] = JSON.parse(saved);
+    for (const { id, timestamp, ...entry } of [...entries].reverse()) {
+      await appendAuditRecord(entry, { notes: { importedFrom: 'localStorage', legacyId: id } }, timestamp);
+    }
+    localStorage.removeItem('integrity_history');
+  })();
+  return legacyImport;
+}
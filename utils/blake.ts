@@ -0,0 +1,269 @@
+import type { Hasher } from './hashUtils';
+import { SHA512_INITIAL_STATE, toHex } from './digests';
+
+// --- BLAKE2b (RFC 7693) ---
+// 64-bit words are stored little-endian as [lo, hi] pairs in a Uint32Array.
+
+const BLAKE2B_IV = Uint32Array.from({ length: 16 }, (_, i) => SHA512_INITIAL_STATE[i ^ 1]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+function add64(v: Uint32Array, a: number, lo: number, hi: number) {
+  const sum = v[a] + lo;
+  v[a + 1] = v[a + 1] + hi + (sum >= 0x100000000 ? 1 : 0);
+  v[a] = sum;
+}
+
+function blake2bMix(v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number) {
+  add64(v, a, v[b], v[b + 1]);
+  add64(v, a, m[x], m[x + 1]);
+  let lo = v[d] ^ v[a], hi = v[d + 1] ^ v[a + 1];
+  v[d] = hi; v[d + 1] = lo; // rotr 32
+  add64(v, c, v[d], v[d + 1]);
+  lo = v[b] ^ v[c]; hi = v[b + 1] ^ v[c + 1];
+  v[b] = (lo >>> 24) | (hi << 8); v[b + 1] = (hi >>> 24) | (lo << 8);
+  add64(v, a, v[b], v[b + 1]);
+  add64(v, a, m[y], m[y + 1]);
+  lo = v[d] ^ v[a]; hi = v[d + 1] ^ v[a + 1];
+  v[d] = (lo >>> 16) | (hi << 16); v[d + 1] = (hi >>> 16) | (lo << 16);
+  add64(v, c, v[d], v[d + 1]);
+  lo = v[b] ^ v[c]; hi = v[b + 1] ^ v[c + 1];
+  v[b] = (hi >>> 31) | (lo << 1); v[b + 1] = (lo >>> 31) | (hi << 1); // rotr 63
+}
+
+function blake2bCompress(h: Uint32Array, block: Uint8Array, offset: number, counter: number, last: boolean) {
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  const view = new DataView(block.buffer, block.byteOffset + offset, 128);
+  for (let i = 0; i < 32; i++) m[i] = view.getUint32(i * 4, true);
+  v.set(h, 0);
+  v.set(BLAKE2B_IV, 16);
+  v[24] ^= counter % 0x100000000;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round % 10];
+    blake2bMix(v, m, 0, 8, 16, 24, s[0] * 2, s[1] * 2);
+    blake2bMix(v, m, 2, 10, 18, 26, s[2] * 2, s[3] * 2);
+    blake2bMix(v, m, 4, 12, 20, 28, s[4] * 2, s[5] * 2);
+    blake2bMix(v, m, 6, 14, 22, 30, s[6] * 2, s[7] * 2);
+    blake2bMix(v, m, 0, 10, 20, 30, s[8] * 2, s[9] * 2);
+    blake2bMix(v, m, 2, 12, 22, 24, s[10] * 2, s[11] * 2);
+    blake2bMix(v, m, 4, 14, 16, 26, s[12] * 2, s[13] * 2);
+    blake2bMix(v, m, 6, 8, 18, 28, s[14] * 2, s[15] * 2);
+  }
+  for (let i = 0; i < 16; i++) h[i] ^= v[i] ^ v[i + 16];
+}
+
+/**
+ * BLAKE2b with a configurable digest length (1-64 bytes) and optional key (up to 64 bytes).
+ */
+export function createBlake2bHasher(outputBytes: number = 64, key?: Uint8Array): Hasher {
+  const keyLength = key ? key.length : 0;
+  if (outputBytes < 1 || outputBytes > 64) throw new Error('BLAKE2b digest length must be 1-64 bytes');
+  if (keyLength > 64) throw new Error('BLAKE2b key must be at most 64 bytes');
+
+  const h = BLAKE2B_IV.slice();
+  h[0] ^= 0x01010000 ^ (keyLength << 8) ^ outputBytes;
+  const buffer = new Uint8Array(128);
+  let buffered = 0;
+  let counter = 0;
+
+  const update = (bytes: Uint8Array) => {
+    for (let i = 0; i < bytes.length; ) {
+      // The final block must be compressed with the last-block flag, so a full
+      // buffer is only flushed once more input is known to follow it
+      if (buffered === 128) {
+        counter += 128;
+        blake2bCompress(h, buffer, 0, counter, false);
+        buffered = 0;
+      }
+      const take = Math.min(128 - buffered, bytes.length - i);
+      buffer.set(bytes.subarray(i, i + take), buffered);
+      buffered += take;
+      i += take;
+    }
+  };
+
+  if (key && keyLength > 0) {
+    const keyBlock = new Uint8Array(128);
+    keyBlock.set(key);
+    update(keyBlock);
+  }
+
+  return {
+    update,
+    digest: () => {
+      const finalState = h.slice();
+      const lastBlock = new Uint8Array(128);
+      lastBlock.set(buffer.subarray(0, buffered));
+      blake2bCompress(finalState, lastBlock, 0, counter + buffered, true);
+      const out = new Uint8Array(64);
+      const view = new DataView(out.buffer);
+      for (let i = 0; i < 16; i++) view.setUint32(i * 4, finalState[i], true);
+      return toHex(out.subarray(0, outputBytes));
+    }
+  };
+}
+
+// --- BLAKE3 ---
+
+const BLAKE3_IV = Uint32Array.of(
+  0x6A09E667, 0xBB67AE85, 0x3C6EF372, 0xA54FF53A, 0x510E527F, 0x9B05688C, 0x1F83D9AB, 0x5BE0CD19
+);
+const MSG_PERMUTATION = [2, 6, 3, 10, 7, 0, 4, 13, 1, 11, 12, 5, 9, 14, 15, 8];
+const CHUNK_LEN = 1024;
+const CHUNK_START = 1;
+const CHUNK_END = 2;
+const PARENT = 4;
+const ROOT = 8;
+const KEYED_HASH = 16;
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+function blake3Mix(s: Uint32Array, a: number, b: number, c: number, d: number, mx: number, my: number) {
+  s[a] = s[a] + s[b] + mx;
+  s[d] = rotr(s[d] ^ s[a], 16);
+  s[c] = s[c] + s[d];
+  s[b] = rotr(s[b] ^ s[c], 12);
+  s[a] = s[a] + s[b] + my;
+  s[d] = rotr(s[d] ^ s[a], 8);
+  s[c] = s[c] + s[d];
+  s[b] = rotr(s[b] ^ s[c], 7);
+}
+
+function blake3Compress(cv: Uint32Array, blockWords: Uint32Array, counter: number, blockLen: number, flags: number): Uint32Array {
+  const s = new Uint32Array(16);
+  s.set(cv, 0);
+  s.set(BLAKE3_IV.subarray(0, 4), 8);
+  s[12] = counter % 0x100000000;
+  s[13] = Math.floor(counter / 0x100000000);
+  s[14] = blockLen;
+  s[15] = flags;
+  let m = blockWords.slice();
+  for (let round = 0; round < 7; round++) {
+    blake3Mix(s, 0, 4, 8, 12, m[0], m[1]);
+    blake3Mix(s, 1, 5, 9, 13, m[2], m[3]);
+    blake3Mix(s, 2, 6, 10, 14, m[4], m[5]);
+    blake3Mix(s, 3, 7, 11, 15, m[6], m[7]);
+    blake3Mix(s, 0, 5, 10, 15, m[8], m[9]);
+    blake3Mix(s, 1, 6, 11, 12, m[10], m[11]);
+    blake3Mix(s, 2, 7, 8, 13, m[12], m[13]);
+    blake3Mix(s, 3, 4, 9, 14, m[14], m[15]);
+    if (round < 6) m = Uint32Array.from(MSG_PERMUTATION, (p) => m[p]);
+  }
+  for (let i = 0; i < 8; i++) {
+    s[i] ^= s[i + 8];
+    s[i + 8] ^= cv[i];
+  }
+  return s;
+}
+
+function blockToWords(block: Uint8Array): Uint32Array {
+  const view = new DataView(block.buffer, block.byteOffset, 64);
+  return Uint32Array.from({ length: 16 }, (_, i) => view.getUint32(i * 4, true));
+}
+
+interface Blake3Output {
+  cv: Uint32Array;
+  blockWords: Uint32Array;
+  counter: number;
+  blockLen: number;
+  flags: number;
+}
+
+const chainingValue = (o: Blake3Output) => blake3Compress(o.cv, o.blockWords, o.counter, o.blockLen, o.flags).slice(0, 8);
+
+function parentOutput(left: Uint32Array, right: Uint32Array, key: Uint32Array, flags: number): Blake3Output {
+  const blockWords = new Uint32Array(16);
+  blockWords.set(left, 0);
+  blockWords.set(right, 8);
+  return { cv: key, blockWords, counter: 0, blockLen: 64, flags: flags | PARENT };
+}
+
+/**
+ * BLAKE3 with the default 32-byte output; pass a 32-byte key for keyed-hash mode.
+ */
+export function createBlake3Hasher(key?: Uint8Array): Hasher {
+  if (key && key.length !== 32) throw new Error('BLAKE3 key must be exactly 32 bytes');
+  const keyWords = key ? Uint32Array.from({ length: 8 }, (_, i) => new DataView(key.buffer, key.byteOffset, 32).getUint32(i * 4, true)) : BLAKE3_IV;
+  const baseFlags = key ? KEYED_HASH : 0;
+  const cvStack: Uint32Array[] = [];
+
+  let chunkCounter = 0;
+  let chunkCv = keyWords.slice();
+  let block = new Uint8Array(64);
+  let blockLen = 0;
+  let blocksCompressed = 0;
+
+  const startFlag = () => (blocksCompressed === 0 ? CHUNK_START : 0);
+  const chunkLength = () => blocksCompressed * 64 + blockLen;
+  const chunkOutput = (): Blake3Output => ({
+    cv: chunkCv,
+    blockWords: blockToWords(block),
+    counter: chunkCounter,
+    blockLen,
+    flags: baseFlags | startFlag() | CHUNK_END
+  });
+
+  const pushChunk = (cv: Uint32Array, totalChunks: number) => {
+    // Merge completed subtrees: one merge per trailing zero bit of the chunk count
+    let merged = cv;
+    while ((totalChunks & 1) === 0) {
+      merged = chainingValue(parentOutput(cvStack.pop()!, merged, keyWords, baseFlags));
+      totalChunks /= 2;
+    }
+    cvStack.push(merged);
+  };
+
+  return {
+    update: (bytes) => {
+      for (let i = 0; i < bytes.length; ) {
+        if (chunkLength() === CHUNK_LEN) {
+          const totalChunks = chunkCounter + 1;
+          pushChunk(chainingValue(chunkOutput()), totalChunks);
+          chunkCounter = totalChunks;
+          chunkCv = keyWords.slice();
+          block = new Uint8Array(64);
+          blockLen = 0;
+          blocksCompressed = 0;
+        }
+        if (blockLen === 64) {
+          chunkCv = blake3Compress(chunkCv, blockToWords(block), chunkCounter, 64, baseFlags | startFlag()).slice(0, 8);
+          blocksCompressed++;
+          block = new Uint8Array(64);
+          blockLen = 0;
+        }
+        const take = Math.min(64 - blockLen, bytes.length - i);
+        block.set(bytes.subarray(i, i + take), blockLen);
+        blockLen += take;
+        i += take;
+      }
+    },
+    digest: () => {
+      let output = chunkOutput();
+      for (let i = cvStack.length - 1; i >= 0; i--) {
+        output = parentOutput(cvStack[i], chainingValue(output), keyWords, baseFlags);
+      }
+      const words = blake3Compress(output.cv, output.blockWords, 0, output.blockLen, output.flags | ROOT);
+      const out = new Uint8Array(32);
+      const view = new DataView(out.buffer);
+      for (let i = 0; i < 8; i++) view.setUint32(i * 4, words[i], true);
+      return toHex(out);
+    }
+  };
+}
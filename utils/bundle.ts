@@ -0,0 +1,118 @@
+import { AlgorithmId, AlgorithmParams, MacAlgorithm, PayloadEncoding, VerificationBundle } from '../types';
+import { getAlgorithm, hasAlgorithm, resolveParams } from './registry';
+import { MAC_ALGORITHMS } from './mac';
+import { PAYLOAD_ENCODINGS, decodePayload, encodePayload } from './encoding';
+
+const FORMAT = 'checksum-integrity-hub/bundle';
+// Links carry the bundle after this marker in the URL fragment, so it never reaches a server
+const FRAGMENT_PREFIX = 'bundle=';
+
+interface BundleSource {
+  algorithm: AlgorithmId;
+  params: AlgorithmParams;
+  checksum: string;
+  payload?: { bytes: Uint8Array; encoding: PayloadEncoding; name?: string };
+  mac?: { algorithm: MacAlgorithm; tag: string };
+}
+
+export function createBundle(source: BundleSource): VerificationBundle {
+  const bundle: VerificationBundle = {
+    format: FORMAT,
+    version: 1,
+    algorithm: source.algorithm,
+    params: source.params,
+    checksum: source.checksum.toUpperCase(),
+    createdAt: new Date().toISOString(),
+  };
+  if (source.payload) {
+    const { bytes, encoding, name } = source.payload;
+    bundle.payload = { encoding, name, data: encodePayload(bytes, 'base64') };
+  }
+  if (source.mac) bundle.mac = source.mac;
+  return bundle;
+}
+
+export function bundlePayload(bundle: VerificationBundle): Uint8Array | null {
+  return bundle.payload ? decodePayload(bundle.payload.data, 'base64') : null;
+}
+
+export function bundleFileName(bundle: VerificationBundle): string {
+  const stem = bundle.payload?.name?.replace(/\.[^.]*$/, '') || 'transfer';
+  return `${stem}.bundle.json`;
+}
+
+export function bundleToFragment(bundle: VerificationBundle): string {
+  const base64 = encodePayload(new TextEncoder().encode(JSON.stringify(bundle)), 'base64');
+  return FRAGMENT_PREFIX + base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function bundleToUrl(bundle: VerificationBundle, base: string): string {
+  return `${base.replace(/#.*$/, '')}#${bundleToFragment(bundle)}`;
+}
+
+export function isBundleFragment(hash: string): boolean {
+  return hash.replace(/^#/, '').startsWith(FRAGMENT_PREFIX);
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid bundle: ${message}`);
+}
+
+/**
+ * Reads a bundle from its JSON text, a shared link or a bare fragment,
+ * checking every field before anything is applied to the receiver.
+ */
+export function parseBundle(input: string): VerificationBundle {
+  const text = input.trim();
+  let json = text;
+  const marker = text.indexOf(FRAGMENT_PREFIX);
+  if (!text.startsWith('{') && marker !== -1) {
+    try {
+      json = new TextDecoder('utf-8', { fatal: true }).decode(decodePayload(text.slice(marker + FRAGMENT_PREFIX.length), 'base64'));
+    } catch {
+      fail('the link is truncated or corrupted');
+    }
+  }
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    fail('expected bundle JSON or a bundle link');
+  }
+  if (!raw || typeof raw !== 'object' || raw.format !== FORMAT) fail('not a verification bundle');
+  if (raw.version !== 1) fail(`unsupported version ${String(raw.version)}`);
+  if (typeof raw.algorithm !== 'string' || !hasAlgorithm(raw.algorithm)) fail(`unknown algorithm "${String(raw.algorithm)}"`);
+  if (typeof raw.checksum !== 'string' || !/^[0-9A-Fa-f]+$/.test(raw.checksum)) fail('checksum must be hexadecimal');
+
+  const params = (raw.params ?? {}) as Record<string, unknown>;
+  if (typeof params !== 'object' || Object.values(params).some(v => !['number', 'string', 'boolean'].includes(typeof v))) {
+    fail('params must map names to plain values');
+  }
+  const bundle: VerificationBundle = {
+    format: FORMAT,
+    version: 1,
+    algorithm: raw.algorithm,
+    params: resolveParams(raw.algorithm, params as AlgorithmParams),
+    checksum: raw.checksum.toUpperCase(),
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : '',
+  };
+  const width = getAlgorithm(bundle.algorithm).width(bundle.params);
+  if (bundle.checksum.length !== Math.ceil(width / 4)) fail(`checksum has ${bundle.checksum.length} digits, ${getAlgorithm(bundle.algorithm).name} produces ${Math.ceil(width / 4)}`);
+
+  const payload = raw.payload as VerificationBundle['payload'] | undefined;
+  if (payload) {
+    if (typeof payload.data !== 'string' || !PAYLOAD_ENCODINGS.some(e => e.id === payload.encoding)) fail('payload is malformed');
+    try {
+      decodePayload(payload.data, 'base64');
+    } catch {
+      fail('payload is not valid Base64');
+    }
+    bundle.payload = { encoding: payload.encoding, name: typeof payload.name === 'string' ? payload.name : undefined, data: payload.data };
+  }
+  const mac = raw.mac as VerificationBundle['mac'] | undefined;
+  if (mac) {
+    if (!MAC_ALGORITHMS.some(m => m.id === mac.algorithm) || typeof mac.tag !== 'string' || !/^[0-9A-Fa-f]+$/.test(mac.tag)) fail('authentication tag is malformed');
+    bundle.mac = { algorithm: mac.algorithm, tag: mac.tag.toUpperCase() };
+  }
+  return bundle;
+}
@@ -0,0 +1,187 @@
+import { ChecksumConfig, ChecksumImpact, DiffOp, HashAlgorithm, HunkImpact } from '../types';
+import { createHasher } from './hashUtils';
+import { getAlgorithm, paramsToAdditiveOptions, resolveParams } from './registry';
+import { FLETCHER_VARIANTS, unfinishAdditive } from './sums';
+
+// Beyond this many single-byte edits the alignment falls back to comparing offsets
+const MAX_EDITS = 2000;
+// Rough cap on edits × payload length, so large files fall back quickly
+const MAX_WORK = 20_000_000;
+// Per-change impacts cost one checksum pass each
+export const MAX_ANALYZED_HUNKS = 64;
+
+// Myers' O(ND) shortest edit script, as single-byte steps in order; null when it would exceed maxEdits
+function shortestEdit(a: Uint8Array, b: Uint8Array, maxEdits: number): ('equal' | 'insert' | 'delete')[] | null {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(maxEdits, n + m);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+  let found = -1;
+  for (let d = 0; d <= limit && found < 0; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? v[k + 1 + offset] : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[k + offset] = x;
+      if (x >= n && y >= m) { found = d; break; }
+    }
+  }
+  if (found < 0) return null;
+
+  const steps: ('equal' | 'insert' | 'delete')[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prev[k - 1 + offset] < prev[k + 1 + offset]) ? k + 1 : k - 1;
+    const prevX = prev[prevK + offset];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) { steps.push('equal'); x--; y--; }
+    if (d > 0) steps.push(x === prevX ? 'insert' : 'delete');
+    x = prevX;
+    y = prevY;
+  }
+  return steps.reverse();
+}
+
+/**
+ * Aligns the receiver's bytes against the sender's. Neighbouring deletes and
+ * inserts are reported together as a change.
+ */
+export function alignBytes(sender: Uint8Array, receiver: Uint8Array): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let s = 0;
+  let r = 0;
+  const push = (step: 'equal' | 'insert' | 'delete') => {
+    const last = ops[ops.length - 1];
+    const extend = last && (step === 'equal') === (last.kind === 'equal');
+    const op = extend ? last : { kind: 'equal' as DiffOp['kind'], senderStart: s, senderEnd: s, receiverStart: r, receiverEnd: r };
+    if (step !== 'insert') op.senderEnd = ++s;
+    if (step !== 'delete') op.receiverEnd = ++r;
+    if (step !== 'equal') {
+      const hasSender = op.senderEnd > op.senderStart;
+      const hasReceiver = op.receiverEnd > op.receiverStart;
+      op.kind = hasSender && hasReceiver ? 'change' : hasSender ? 'delete' : 'insert';
+    }
+    if (!extend) ops.push(op);
+  };
+
+  const maxEdits = Math.min(MAX_EDITS, Math.floor(MAX_WORK / (sender.length + receiver.length + 1)));
+  const steps = shortestEdit(sender, receiver, maxEdits);
+  if (steps) {
+    steps.forEach(push);
+    return ops;
+  }
+  // Too different to align cheaply: compare offset by offset and treat the tail as inserted or dropped
+  const common = Math.min(sender.length, receiver.length);
+  for (let i = 0; i < common; i++) {
+    if (sender[i] === receiver[i]) push('equal');
+    else { push('delete'); push('insert'); }
+  }
+  while (s < sender.length) push('delete');
+  while (r < receiver.length) push('insert');
+  return ops;
+}
+
+function checksumOf(config: ChecksumConfig, ...parts: Uint8Array[]): string {
+  const hasher = createHasher(config.algorithm, config.params);
+  parts.forEach(part => hasher.update(part));
+  return hasher.digest();
+}
+
+/**
+ * Traces how each difference moves the checksum and explains the outcome:
+ * why the final values differ, or why they collide despite the edits.
+ */
+export function analyzeImpact(sender: Uint8Array, receiver: Uint8Array, ops: DiffOp[], config: ChecksumConfig): ChecksumImpact {
+  const algorithm = getAlgorithm(config.algorithm);
+  const params = resolveParams(config.algorithm, config.params);
+  const width = algorithm.width(params);
+  const mode: ChecksumImpact['mode'] = algorithm.family === 'Additive' || algorithm.family === 'Fletcher / Adler'
+    ? 'sum'
+    : algorithm.family === 'CRC' ? 'xor' : 'opaque';
+  // Fletcher and Adler values are B ‖ A, so each half is tracked on its own
+  const dual = algorithm.family === 'Fletcher / Adler';
+  const partWidth = dual ? width / 2 : width;
+  // Additive values are compared as register sums, with any negation and final XOR undone
+  const additive = config.algorithm === HashAlgorithm.ADDITIVE ? paramsToAdditiveOptions(params) : null;
+  // Fletcher, Adler and ones'-complement sums wrap below a power of two
+  const modulus = dual
+    ? BigInt(FLETCHER_VARIANTS[config.algorithm as HashAlgorithm]?.modulus ?? 2 ** partWidth)
+    : config.algorithm === HashAlgorithm.INTERNET || additive?.endAroundCarry ? (1n << BigInt(width)) - 1n : 1n << BigInt(width);
+  const modulusLabel = modulus === 1n << BigInt(width) ? `2^${width}` : modulus.toString(16).toUpperCase();
+  const value = (hex: string) => (!hex ? 0n : additive ? BigInt(unfinishAdditive(parseInt(hex, 16), additive)) : BigInt('0x' + hex));
+  const signed = (from: bigint, to: bigint): string => {
+    const diff = (((to - from) % modulus) + modulus) % modulus;
+    // Report the smaller of the two directions around the modulus
+    return diff === 0n ? '0' : diff <= modulus / 2n ? `+${diff.toString(16).toUpperCase()}` : `-${(modulus - diff).toString(16).toUpperCase()}`;
+  };
+  const delta = (from: string, to: string): string => {
+    if (mode === 'opaque') return from === to ? '0' : 'scrambled';
+    if (mode === 'xor') return (value(from) ^ value(to)).toString(16).toUpperCase();
+    if (!dual) return signed(value(from), value(to));
+    const shift = BigInt(partWidth);
+    const mask = (1n << shift) - 1n;
+    return `A:${signed(value(from) & mask, value(to) & mask)} B:${signed(value(from) >> shift, value(to) >> shift)}`;
+  };
+
+  const senderFinal = checksumOf(config, sender);
+  const receiverFinal = checksumOf(config, receiver);
+  const senderHasher = createHasher(config.algorithm, config.params);
+  const receiverHasher = createHasher(config.algorithm, config.params);
+  const hunks: HunkImpact[] = [];
+  for (const op of ops) {
+    senderHasher.update(sender.subarray(op.senderStart, op.senderEnd));
+    receiverHasher.update(receiver.subarray(op.receiverStart, op.receiverEnd));
+    if (op.kind === 'equal' || hunks.length >= MAX_ANALYZED_HUNKS) continue;
+    const alone = checksumOf(config, sender.subarray(0, op.senderStart), receiver.subarray(op.receiverStart, op.receiverEnd), sender.subarray(op.senderEnd));
+    hunks.push({ op, alone: delta(senderFinal, alone), senderRunning: senderHasher.digest(), receiverRunning: receiverHasher.digest() });
+  }
+
+  const edits = ops.filter(op => op.kind !== 'equal');
+  const collision = senderFinal === receiverFinal && edits.length > 0;
+  // Equal totals are not enough: a deletion balanced by a later insertion still shifts the bytes between them
+  const inPlace = edits.every(op => op.senderEnd - op.senderStart === op.receiverEnd - op.receiverStart);
+  const complete = edits.length <= MAX_ANALYZED_HUNKS;
+  const explanation: string[] = [];
+  const name = algorithm.name;
+
+  if (mode === 'sum' && algorithm.family === 'Additive') {
+    explanation.push(additive && additive.wordBytes > 1
+      ? `${name} adds ${additive.wordBytes * 8}-bit ${additive.bigEndian ? 'big' : 'little'}-endian words, so each change moves the total by (words in) − (words out); a byte counts by its place in its word, and an inserted or dropped byte re-aligns every word after it.`
+      : `${name} only adds bytes up, so each change moves the total by (bytes in) − (bytes out), wherever it sits.`);
+    if (additive && (additive.negate || additive.finalXor)) explanation.push('Deltas are measured on the register sum, before the final negation and XOR.');
+    if (complete && !collision) explanation.push(`The changes add up to ${delta(senderFinal, receiverFinal)} mod ${modulusLabel}, which is the whole difference between the two values.`);
+    if (collision) {
+      explanation.push(hunks.every(h => h.alone === '0')
+        ? 'Every change keeps the byte total (reordered or swapped bytes, or edits that cancel), so the sum cannot see them.'
+        : `The deltas cancel out modulo ${modulusLabel}, so the damaged payload lands on the same sum.`);
+    }
+  } else if (mode === 'sum') {
+    explanation.push(`${name} keeps two sums: A adds the bytes, B adds A after every byte, so B weighs each byte by its distance from the end.`);
+    explanation.push('The same byte change therefore moves B by a different amount depending on where it happens, which is why reorderings are caught.');
+    if (collision) explanation.push('Here the changes cancel in both A and B, so the values collide.');
+  } else if (mode === 'xor') {
+    if (inPlace) {
+      explanation.push(`${name} is linear over GF(2): when every change keeps its length the final difference is the XOR of each change's contribution, independent of the bytes around it.`);
+      if (complete && edits.length > 0 && !collision) {
+        const combined = hunks.reduce((acc, h) => acc ^ value(h.alone), 0n).toString(16).toUpperCase();
+        explanation.push(`XOR of the contributions listed = ${combined}, the same as ${senderFinal} ⊕ ${receiverFinal}.`);
+      }
+      if (collision) explanation.push('The combined error pattern is a multiple of the generator polynomial, so it leaves the register exactly where the original did.');
+    } else {
+      explanation.push('Inserted or dropped bytes shift everything after them, so each later byte meets the generator at a different power of x and the register diverges from that point on.');
+      if (collision) explanation.push('Even so, the shifted stream happens to end in the same register state: a collision of this CRC.');
+    }
+  } else {
+    explanation.push(`${name} is built so that any change scrambles the whole value; the running values diverge at the first difference and per-change contributions carry no meaning.`);
+    if (collision) explanation.push(`Two different payloads with the same ${name} value is a genuine collision, which should not occur for a sound cryptographic digest.`);
+  }
+  if (!complete) explanation.push(`Only the first ${MAX_ANALYZED_HUNKS} of ${edits.length} differences are traced individually.`);
+
+  return { mode, hunks, senderFinal, receiverFinal, totalDelta: delta(senderFinal, receiverFinal), collision, explanation };
+}
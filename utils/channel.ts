@@ -0,0 +1,143 @@
+import { ChannelModel, ChannelOptions, ChannelReport } from '../types';
+
+export const CHANNEL_MODELS: { id: ChannelModel; label: string }[] = [
+  { id: 'clean', label: 'Clean Wire' },
+  { id: 'ber', label: 'Random Bit Errors (BER)' },
+  { id: 'gilbert-elliott', label: 'Gilbert–Elliott Bursts' },
+  { id: 'drop-insert', label: 'Byte Drops / Inserts' },
+  { id: 'swap', label: 'Adjacent Byte Swaps' },
+];
+
+export const DEFAULT_CHANNEL_OPTIONS: ChannelOptions = {
+  model: 'clean',
+  seed: 1,
+  bitErrorRate: 0.001,
+  goodToBad: 0.001,
+  badToGood: 0.1,
+  burstBitErrorRate: 0.3,
+  dropRate: 0.01,
+  insertRate: 0.01,
+  swapRate: 0.01,
+};
+
+/**
+ * mulberry32: small, fast and good enough for simulation. Returns floats in [0, 1).
+ */
+export function createPrng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Distance to the next event of a Bernoulli(p) process, so sparse errors cost nothing per bit.
+// Rates too small to register in floating point never produce an event.
+function geometricGap(p: number, random: () => number): number {
+  if (p >= 1) return 0;
+  const scale = Math.log1p(-p);
+  if (scale === 0) return Infinity;
+  const gap = Math.floor(Math.log1p(-random()) / scale);
+  return Number.isFinite(gap) ? gap : Infinity;
+}
+
+function flipRandomBits(bytes: Uint8Array, p: number, random: () => number): number {
+  if (!(p > 0 && p <= 1)) return 0;
+  const totalBits = bytes.length * 8;
+  let flips = 0;
+  for (let bit = geometricGap(p, random); bit < totalBits; bit += 1 + geometricGap(p, random)) {
+    bytes[bit >> 3] ^= 0x80 >> (bit & 7);
+    flips++;
+  }
+  return flips;
+}
+
+function flipBurstBits(bytes: Uint8Array, options: ChannelOptions, random: () => number): number {
+  let bad = false;
+  let flips = 0;
+  for (let bit = 0; bit < bytes.length * 8; bit++) {
+    bad = bad ? random() >= options.badToGood : random() < options.goodToBad;
+    if (random() < (bad ? options.burstBitErrorRate : options.bitErrorRate)) {
+      bytes[bit >> 3] ^= 0x80 >> (bit & 7);
+      flips++;
+    }
+  }
+  return flips;
+}
+
+/**
+ * Passes a payload through the configured channel model. The same seed and
+ * payload always produce the same damage.
+ */
+export function transmitThroughChannel(
+  payload: Uint8Array,
+  options: ChannelOptions,
+  random: () => number = createPrng(options.seed)
+): { bytes: Uint8Array; report: ChannelReport } {
+  const report: ChannelReport = { bitFlips: 0, drops: 0, inserts: 0, swaps: 0 };
+  const bytes = payload.slice();
+
+  if (options.model === 'ber') {
+    report.bitFlips = flipRandomBits(bytes, options.bitErrorRate, random);
+    return { bytes, report };
+  }
+
+  if (options.model === 'gilbert-elliott') {
+    report.bitFlips = flipBurstBits(bytes, options, random);
+    return { bytes, report };
+  }
+
+  if (options.model === 'drop-insert') {
+    const out: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      if (random() < options.insertRate) {
+        out.push(Math.floor(random() * 256));
+        report.inserts++;
+      }
+      if (random() < options.dropRate) {
+        report.drops++;
+        continue;
+      }
+      out.push(bytes[i]);
+    }
+    return { bytes: Uint8Array.from(out), report };
+  }
+
+  if (options.model === 'swap') {
+    for (let i = 0; i + 1 < bytes.length; i++) {
+      if (random() >= options.swapRate || bytes[i] === bytes[i + 1]) continue;
+      [bytes[i], bytes[i + 1]] = [bytes[i + 1], bytes[i]];
+      report.swaps++;
+      i++;
+    }
+    return { bytes, report };
+  }
+
+  return { bytes, report };
+}
+
+/**
+ * Short description of the channel for history entries, e.g. "BER 1e-3".
+ */
+export function describeChannel(options: ChannelOptions): string {
+  switch (options.model) {
+    case 'ber': return `BER ${options.bitErrorRate.toExponential(0)}`;
+    case 'gilbert-elliott': return `Gilbert–Elliott (p=${options.goodToBad}, r=${options.badToGood}, burst BER ${options.burstBitErrorRate})`;
+    case 'drop-insert': return `Drops ${options.dropRate} / Inserts ${options.insertRate}`;
+    case 'swap': return `Swaps ${options.swapRate}`;
+    default: return 'Clean wire';
+  }
+}
+
+export function describeChannelReport(report: ChannelReport): string {
+  const parts = [
+    report.bitFlips && `${report.bitFlips} bit flip${report.bitFlips === 1 ? '' : 's'}`,
+    report.drops && `${report.drops} dropped`,
+    report.inserts && `${report.inserts} inserted`,
+    report.swaps && `${report.swaps} swapped`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no damage';
+}
@@ -0,0 +1,123 @@
+import { HashAlgorithm, CrcOptions } from '../types';
+import type { Hasher } from './hashUtils';
+
+/**
+ * Rocksoft parameter sets for the named CRC presets.
+ * Check values (CRC of ASCII "123456789") are noted for reference.
+ */
+export const CRC_PRESETS: Partial<Record<HashAlgorithm, CrcOptions>> = {
+  // check: F4
+  [HashAlgorithm.CRC8]: { width: 8, poly: '07', init: '00', refin: false, refout: false, xorout: '00' },
+  // check: 29B1
+  [HashAlgorithm.CRC16_CCITT]: { width: 16, poly: '1021', init: 'FFFF', refin: false, refout: false, xorout: '0000' },
+  // check: 4B37
+  [HashAlgorithm.CRC16_MODBUS]: { width: 16, poly: '8005', init: 'FFFF', refin: true, refout: true, xorout: '0000' },
+  // check: 31C3
+  [HashAlgorithm.CRC16_XMODEM]: { width: 16, poly: '1021', init: '0000', refin: false, refout: false, xorout: '0000' },
+  // check: CBF43926
+  [HashAlgorithm.CRC32]: { width: 32, poly: '04C11DB7', init: 'FFFFFFFF', refin: true, refout: true, xorout: 'FFFFFFFF' },
+  // check: E3069283
+  [HashAlgorithm.CRC32C]: { width: 32, poly: '1EDC6F41', init: 'FFFFFFFF', refin: true, refout: true, xorout: 'FFFFFFFF' },
+  // check: 995DC9BBDF1939FA
+  [HashAlgorithm.CRC64]: { width: 64, poly: '42F0E1EBA9EA3693', init: 'FFFFFFFFFFFFFFFF', refin: true, refout: true, xorout: 'FFFFFFFFFFFFFFFF' },
+};
+
+export const DEFAULT_CUSTOM_CRC: CrcOptions = { ...CRC_PRESETS[HashAlgorithm.CRC32]! };
+
+export function parseHexParam(value: string): bigint {
+  const clean = value.trim().replace(/^0x/i, '');
+  if (!/^[0-9a-f]+$/i.test(clean)) return 0n;
+  return BigInt('0x' + clean);
+}
+
+export function reflect(value: bigint, width: number): bigint {
+  let out = 0n;
+  for (let i = 0; i < width; i++) {
+    if ((value >> BigInt(i)) & 1n) out |= 1n << BigInt(width - 1 - i);
+  }
+  return out;
+}
+
+// Hashers are created per message in the experiment runner; tables are reused across them
+const tableCache = new Map<string, bigint[]>();
+
+/**
+ * Byte-wise lookup table. Widths below 8 are processed in an 8-bit register
+ * with the polynomial shifted up, then shifted back when finalising.
+ */
+function buildTable(registerWidth: number, poly: bigint, reflected: boolean): bigint[] {
+  const key = `${registerWidth}:${poly.toString(16)}:${reflected}`;
+  const cached = tableCache.get(key);
+  if (cached) return cached;
+  const mask = (1n << BigInt(registerWidth)) - 1n;
+  const topBit = 1n << BigInt(registerWidth - 1);
+  const table: bigint[] = [];
+  for (let i = 0; i < 256; i++) {
+    let r = reflected ? BigInt(i) : BigInt(i) << BigInt(registerWidth - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      if (reflected) r = r & 1n ? (r >> 1n) ^ poly : r >> 1n;
+      else r = r & topBit ? ((r << 1n) ^ poly) & mask : (r << 1n) & mask;
+    }
+    table.push(r);
+  }
+  tableCache.set(key, table);
+  return table;
+}
+
+export function createCrcHasher(options: CrcOptions): Hasher {
+  const width = Math.min(64, Math.max(1, Math.floor(options.width)));
+  const widthMask = (1n << BigInt(width)) - 1n;
+  const registerWidth = Math.max(width, 8);
+  const shift = BigInt(registerWidth - width);
+  const poly = parseHexParam(options.poly) & widthMask;
+  const init = parseHexParam(options.init) & widthMask;
+  const xorout = parseHexParam(options.xorout) & widthMask;
+  const pad = Math.ceil(width / 4);
+
+  const table = options.refin
+    ? buildTable(registerWidth, reflect(poly, width), true)
+    : buildTable(registerWidth, poly << shift, false);
+  const startRegister = options.refin ? reflect(init, width) : init << shift;
+
+  const finalise = (register: bigint): string => {
+    let crc = options.refin ? register : register >> shift;
+    if (options.refin !== options.refout) crc = reflect(crc, width);
+    return ((crc ^ xorout) & widthMask).toString(16).toUpperCase().padStart(pad, '0');
+  };
+
+  // Registers up to 32 bits stay on plain numbers; BigInt is only paid for wider models
+  if (registerWidth <= 32) {
+    const fastTable = Uint32Array.from(table, Number);
+    const mask = registerWidth === 32 ? 0xFFFFFFFF : (1 << registerWidth) - 1;
+    const high = registerWidth - 8;
+    let crc = Number(startRegister);
+    return {
+      update: (bytes) => {
+        let r = crc;
+        if (options.refin) {
+          for (let i = 0; i < bytes.length; i++) r = (r >>> 8) ^ fastTable[(r ^ bytes[i]) & 0xFF];
+        } else {
+          for (let i = 0; i < bytes.length; i++) r = ((r << 8) ^ fastTable[((r >>> high) ^ bytes[i]) & 0xFF]) & mask;
+        }
+        crc = r >>> 0;
+      },
+      digest: () => finalise(BigInt(crc))
+    };
+  }
+
+  const mask = (1n << BigInt(registerWidth)) - 1n;
+  const high = BigInt(registerWidth - 8);
+  let crc = startRegister;
+  return {
+    update: (bytes) => {
+      let r = crc;
+      if (options.refin) {
+        for (let i = 0; i < bytes.length; i++) r = (r >> 8n) ^ table[Number((r ^ BigInt(bytes[i])) & 0xFFn)];
+      } else {
+        for (let i = 0; i < bytes.length; i++) r = ((r << 8n) ^ table[Number(((r >> high) ^ BigInt(bytes[i])) & 0xFFn)]) & mask;
+      }
+      crc = r;
+    },
+    digest: () => finalise(crc)
+  };
+}
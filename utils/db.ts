@@ -0,0 +1,54 @@
+const DB_NAME = 'checksum-integrity-hub';
+const DB_VERSION = 2;
+
+// Object stores by key path; new stores are created on upgrade, existing ones are kept
+const STORES = {
+  audit: 'seq',
+  snapshots: 'id',
+} as const;
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, keyPath] of Object.entries(STORES)) {
+        if (db.objectStoreNames.contains(name)) continue;
+        const store = db.createObjectStore(name, { keyPath });
+        if (name === 'audit') store.createIndex('timestamp', 'timestamp');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a request in its own transaction and resolves with its result once the
+ * transaction has committed. Requests the action issues before it share the
+ * transaction, so they commit or roll back together.
+ */
+export function runInStore<T>(storeName: keyof typeof STORES, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    let request: IDBRequest<T>;
+    try {
+      request = action(tx.objectStore(storeName));
+    } catch (e) {
+      // A request that throws outright (e.g. an uncloneable value) must not let earlier ones commit
+      tx.abort();
+      db.close();
+      reject(e);
+      return;
+    }
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    // A quota failure can abort the transaction without an error event
+    tx.onerror = tx.onabort = () => {
+      db.close();
+      reject(tx.error ?? request.error);
+    };
+  }));
+}
@@ -0,0 +1,356 @@
+import { HashAlgorithm } from '../types';
+import type { Hasher } from './hashUtils';
+
+/**
+ * Streaming implementations of the Merkle–Damgård digests (MD5, SHA-1, SHA-2).
+ * WebCrypto has no incremental API, so these back the chunked file pipeline and
+ * any context where `crypto.subtle` is unavailable (e.g. plain-HTTP lab hosts).
+ */
+
+interface MdEngine {
+  blockSize: 64 | 128;
+  littleEndian: boolean;
+  init: () => Uint32Array;
+  compress: (state: Uint32Array, block: Uint8Array, offset: number) => void;
+  output: (state: Uint32Array) => Uint8Array;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += bytes[i].toString(16).padStart(2, '0');
+  return out.toUpperCase();
+}
+
+function wordsToBytes(words: ArrayLike<number>, count: number, littleEndian: boolean): Uint8Array {
+  const out = new Uint8Array(count * 4);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < count; i++) view.setUint32(i * 4, words[i], littleEndian);
+  return out;
+}
+
+// Message length in bits, in the final 8 bytes of the padded input
+function writeBitLength(padded: Uint8Array, totalBytes: number, littleEndian: boolean): void {
+  const view = new DataView(padded.buffer, padded.byteOffset, padded.length);
+  const bitsLo = (totalBytes % 0x20000000) * 8;
+  const bitsHi = Math.floor(totalBytes / 0x20000000);
+  if (littleEndian) {
+    view.setUint32(padded.length - 8, bitsLo, true);
+    view.setUint32(padded.length - 4, bitsHi, true);
+  } else {
+    view.setUint32(padded.length - 8, bitsHi, false);
+    view.setUint32(padded.length - 4, bitsLo, false);
+  }
+}
+
+function createMdHasher(engine: MdEngine): Hasher {
+  const { blockSize, littleEndian } = engine;
+  const state = engine.init();
+  const buffer = new Uint8Array(blockSize);
+  let buffered = 0;
+  let totalBytes = 0;
+
+  return {
+    update: (bytes) => {
+      totalBytes += bytes.length;
+      let i = 0;
+      if (buffered > 0) {
+        const take = Math.min(blockSize - buffered, bytes.length);
+        buffer.set(bytes.subarray(0, take), buffered);
+        buffered += take;
+        i = take;
+        if (buffered < blockSize) return;
+        engine.compress(state, buffer, 0);
+        buffered = 0;
+      }
+      for (; i + blockSize <= bytes.length; i += blockSize) engine.compress(state, bytes, i);
+      buffer.set(bytes.subarray(i), 0);
+      buffered = bytes.length - i;
+    },
+    digest: () => {
+      // Pad a copy so the hasher can keep accepting data after a digest
+      const finalState = state.slice();
+      const lengthBytes = blockSize === 128 ? 16 : 8;
+      const padded = new Uint8Array(buffered + 1 + lengthBytes <= blockSize ? blockSize : blockSize * 2);
+      padded.set(buffer.subarray(0, buffered));
+      padded[buffered] = 0x80;
+      writeBitLength(padded, totalBytes, littleEndian);
+      for (let off = 0; off < padded.length; off += blockSize) engine.compress(finalState, padded, off);
+      return toHex(engine.output(finalState));
+    }
+  };
+}
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+// --- MD5 (RFC 1321) ---
+
+const MD5_K = Uint32Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32));
+const MD5_S = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+
+const md5: MdEngine = {
+  blockSize: 64,
+  littleEndian: true,
+  init: () => Uint32Array.of(0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476),
+  compress: (state, block, offset) => {
+    const view = new DataView(block.buffer, block.byteOffset + offset, 64);
+    const m = new Array<number>(16);
+    for (let i = 0; i < 16; i++) m[i] = view.getUint32(i * 4, true);
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      const round = i >> 4;
+      let f: number, g: number;
+      if (round === 0) { f = (b & c) | (~b & d); g = i; }
+      else if (round === 1) { f = (d & b) | (~d & c); g = (5 * i + 1) & 15; }
+      else if (round === 2) { f = b ^ c ^ d; g = (3 * i + 5) & 15; }
+      else { f = c ^ (b | ~d); g = (7 * i) & 15; }
+      const tmp = d;
+      d = c;
+      c = b;
+      b = (b + rotl((a + f + MD5_K[i] + m[g]) | 0, MD5_S[(round << 2) | (i & 3)])) | 0;
+      a = tmp;
+    }
+    state[0] += a; state[1] += b; state[2] += c; state[3] += d;
+  },
+  output: (state) => wordsToBytes(state, 4, true)
+};
+
+// --- SHA-1 (FIPS 180-4) ---
+
+const sha1: MdEngine = {
+  blockSize: 64,
+  littleEndian: false,
+  init: () => Uint32Array.of(0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476, 0xC3D2E1F0),
+  compress: (state, block, offset) => {
+    const view = new DataView(block.buffer, block.byteOffset + offset, 64);
+    const w = new Uint32Array(80);
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(i * 4, false);
+    for (let i = 16; i < 80; i++) w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    let [a, b, c, d, e] = state;
+    for (let i = 0; i < 80; i++) {
+      let f: number, k: number;
+      if (i < 20) { f = (b & c) | (~b & d); k = 0x5A827999; }
+      else if (i < 40) { f = b ^ c ^ d; k = 0x6ED9EBA1; }
+      else if (i < 60) { f = (b & c) | (b & d) | (c & d); k = 0x8F1BBCDC; }
+      else { f = b ^ c ^ d; k = 0xCA62C1D6; }
+      const tmp = (rotl(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = tmp;
+    }
+    state[0] += a; state[1] += b; state[2] += c; state[3] += d; state[4] += e;
+  },
+  output: (state) => wordsToBytes(state, 5, false)
+};
+
+// --- SHA-256 (FIPS 180-4) ---
+
+const SHA256_K = Uint32Array.of(
+  0x428A2F98, 0x71374491, 0xB5C0FBCF, 0xE9B5DBA5, 0x3956C25B, 0x59F111F1, 0x923F82A4, 0xAB1C5ED5,
+  0xD807AA98, 0x12835B01, 0x243185BE, 0x550C7DC3, 0x72BE5D74, 0x80DEB1FE, 0x9BDC06A7, 0xC19BF174,
+  0xE49B69C1, 0xEFBE4786, 0x0FC19DC6, 0x240CA1CC, 0x2DE92C6F, 0x4A7484AA, 0x5CB0A9DC, 0x76F988DA,
+  0x983E5152, 0xA831C66D, 0xB00327C8, 0xBF597FC7, 0xC6E00BF3, 0xD5A79147, 0x06CA6351, 0x14292967,
+  0x27B70A85, 0x2E1B2138, 0x4D2C6DFC, 0x53380D13, 0x650A7354, 0x766A0ABB, 0x81C2C92E, 0x92722C85,
+  0xA2BFE8A1, 0xA81A664B, 0xC24B8B70, 0xC76C51A3, 0xD192E819, 0xD6990624, 0xF40E3585, 0x106AA070,
+  0x19A4C116, 0x1E376C08, 0x2748774C, 0x34B0BCB5, 0x391C0CB3, 0x4ED8AA4A, 0x5B9CCA4F, 0x682E6FF3,
+  0x748F82EE, 0x78A5636F, 0x84C87814, 0x8CC70208, 0x90BEFFFA, 0xA4506CEB, 0xBEF9A3F7, 0xC67178F2
+);
+
+const sha256: MdEngine = {
+  blockSize: 64,
+  littleEndian: false,
+  init: () => Uint32Array.of(
+    0x6A09E667, 0xBB67AE85, 0x3C6EF372, 0xA54FF53A, 0x510E527F, 0x9B05688C, 0x1F83D9AB, 0x5BE0CD19
+  ),
+  compress: (state, block, offset) => {
+    const view = new DataView(block.buffer, block.byteOffset + offset, 64);
+    const w = new Uint32Array(64);
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(i * 4, false);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    state[0] += a; state[1] += b; state[2] += c; state[3] += d;
+    state[4] += e; state[5] += f; state[6] += g; state[7] += h;
+  },
+  output: (state) => wordsToBytes(state, 8, false)
+};
+
+// --- SHA-384 / SHA-512 (FIPS 180-4) ---
+// 64-bit words are held as [hi, lo] pairs of unsigned 32-bit numbers.
+
+const SHA512_K = Uint32Array.of(
+  0x428A2F98, 0xD728AE22, 0x71374491, 0x23EF65CD, 0xB5C0FBCF, 0xEC4D3B2F, 0xE9B5DBA5, 0x8189DBBC,
+  0x3956C25B, 0xF348B538, 0x59F111F1, 0xB605D019, 0x923F82A4, 0xAF194F9B, 0xAB1C5ED5, 0xDA6D8118,
+  0xD807AA98, 0xA3030242, 0x12835B01, 0x45706FBE, 0x243185BE, 0x4EE4B28C, 0x550C7DC3, 0xD5FFB4E2,
+  0x72BE5D74, 0xF27B896F, 0x80DEB1FE, 0x3B1696B1, 0x9BDC06A7, 0x25C71235, 0xC19BF174, 0xCF692694,
+  0xE49B69C1, 0x9EF14AD2, 0xEFBE4786, 0x384F25E3, 0x0FC19DC6, 0x8B8CD5B5, 0x240CA1CC, 0x77AC9C65,
+  0x2DE92C6F, 0x592B0275, 0x4A7484AA, 0x6EA6E483, 0x5CB0A9DC, 0xBD41FBD4, 0x76F988DA, 0x831153B5,
+  0x983E5152, 0xEE66DFAB, 0xA831C66D, 0x2DB43210, 0xB00327C8, 0x98FB213F, 0xBF597FC7, 0xBEEF0EE4,
+  0xC6E00BF3, 0x3DA88FC2, 0xD5A79147, 0x930AA725, 0x06CA6351, 0xE003826F, 0x14292967, 0x0A0E6E70,
+  0x27B70A85, 0x46D22FFC, 0x2E1B2138, 0x5C26C926, 0x4D2C6DFC, 0x5AC42AED, 0x53380D13, 0x9D95B3DF,
+  0x650A7354, 0x8BAF63DE, 0x766A0ABB, 0x3C77B2A8, 0x81C2C92E, 0x47EDAEE6, 0x92722C85, 0x1482353B,
+  0xA2BFE8A1, 0x4CF10364, 0xA81A664B, 0xBC423001, 0xC24B8B70, 0xD0F89791, 0xC76C51A3, 0x0654BE30,
+  0xD192E819, 0xD6EF5218, 0xD6990624, 0x5565A910, 0xF40E3585, 0x5771202A, 0x106AA070, 0x32BBD1B8,
+  0x19A4C116, 0xB8D2D0C8, 0x1E376C08, 0x5141AB53, 0x2748774C, 0xDF8EEB99, 0x34B0BCB5, 0xE19B48A8,
+  0x391C0CB3, 0xC5C95A63, 0x4ED8AA4A, 0xE3418ACB, 0x5B9CCA4F, 0x7763E373, 0x682E6FF3, 0xD6B2B8A3,
+  0x748F82EE, 0x5DEFB2FC, 0x78A5636F, 0x43172F60, 0x84C87814, 0xA1F0AB72, 0x8CC70208, 0x1A6439EC,
+  0x90BEFFFA, 0x23631E28, 0xA4506CEB, 0xDE82BDE9, 0xBEF9A3F7, 0xB2C67915, 0xC67178F2, 0xE372532B,
+  0xCA273ECE, 0xEA26619C, 0xD186B8C7, 0x21C0C207, 0xEADA7DD6, 0xCDE0EB1E, 0xF57D4F7F, 0xEE6ED178,
+  0x06F067AA, 0x72176FBA, 0x0A637DC5, 0xA2C898A6, 0x113F9804, 0xBEF90DAE, 0x1B710B35, 0x131C471B,
+  0x28DB77F5, 0x23047D84, 0x32CAAB7B, 0x40C72493, 0x3C9EBE0A, 0x15C9BEBC, 0x431D67C4, 0x9C100D4C,
+  0x4CC5D4BE, 0xCB3E42B6, 0x597F299C, 0xFC657E2A, 0x5FCB6FAB, 0x3AD6FAEC, 0x6C44198C, 0x4A475817
+);
+
+const rotrHi = (hi: number, lo: number, n: number) =>
+  n < 32 ? (hi >>> n) | (lo << (32 - n)) : (lo >>> (n - 32)) | (hi << (64 - n));
+const rotrLo = (hi: number, lo: number, n: number) =>
+  n < 32 ? (lo >>> n) | (hi << (32 - n)) : (hi >>> (n - 32)) | (lo << (64 - n));
+
+function createSha512Engine(iv: number[], outputWords: number): MdEngine {
+  const wHi = new Uint32Array(80);
+  const wLo = new Uint32Array(80);
+  return {
+    blockSize: 128,
+    littleEndian: false,
+    init: () => Uint32Array.from(iv),
+    compress: (state, block, offset) => {
+      const view = new DataView(block.buffer, block.byteOffset + offset, 128);
+      for (let i = 0; i < 16; i++) {
+        wHi[i] = view.getUint32(i * 8, false);
+        wLo[i] = view.getUint32(i * 8 + 4, false);
+      }
+      for (let i = 16; i < 80; i++) {
+        const h15 = wHi[i - 15], l15 = wLo[i - 15], h2 = wHi[i - 2], l2 = wLo[i - 2];
+        const s0Hi = rotrHi(h15, l15, 1) ^ rotrHi(h15, l15, 8) ^ (h15 >>> 7);
+        const s0Lo = rotrLo(h15, l15, 1) ^ rotrLo(h15, l15, 8) ^ ((l15 >>> 7) | (h15 << 25));
+        const s1Hi = rotrHi(h2, l2, 19) ^ rotrHi(h2, l2, 61) ^ (h2 >>> 6);
+        const s1Lo = rotrLo(h2, l2, 19) ^ rotrLo(h2, l2, 61) ^ ((l2 >>> 6) | (h2 << 26));
+        const lo = (s0Lo >>> 0) + (s1Lo >>> 0) + wLo[i - 16] + wLo[i - 7];
+        wLo[i] = lo;
+        wHi[i] = s0Hi + s1Hi + wHi[i - 16] + wHi[i - 7] + Math.floor(lo / 0x100000000);
+      }
+
+      const v = state.slice();
+      for (let i = 0; i < 80; i++) {
+        const aHi = v[0], aLo = v[1], eHi = v[8], eLo = v[9];
+        const sig1Hi = rotrHi(eHi, eLo, 14) ^ rotrHi(eHi, eLo, 18) ^ rotrHi(eHi, eLo, 41);
+        const sig1Lo = rotrLo(eHi, eLo, 14) ^ rotrLo(eHi, eLo, 18) ^ rotrLo(eHi, eLo, 41);
+        const chHi = (eHi & v[10]) ^ (~eHi & v[12]);
+        const chLo = (eLo & v[11]) ^ (~eLo & v[13]);
+        const t1Lo = v[15] + (sig1Lo >>> 0) + (chLo >>> 0) + SHA512_K[i * 2 + 1] + wLo[i];
+        const t1Hi = v[14] + sig1Hi + chHi + SHA512_K[i * 2] + wHi[i] + Math.floor(t1Lo / 0x100000000);
+        const sig0Hi = rotrHi(aHi, aLo, 28) ^ rotrHi(aHi, aLo, 34) ^ rotrHi(aHi, aLo, 39);
+        const sig0Lo = rotrLo(aHi, aLo, 28) ^ rotrLo(aHi, aLo, 34) ^ rotrLo(aHi, aLo, 39);
+        const majHi = (aHi & v[2]) ^ (aHi & v[4]) ^ (v[2] & v[4]);
+        const majLo = (aLo & v[3]) ^ (aLo & v[5]) ^ (v[3] & v[5]);
+        const t2Lo = (sig0Lo >>> 0) + (majLo >>> 0);
+        const t2Hi = sig0Hi + majHi + Math.floor(t2Lo / 0x100000000);
+
+        // Shift h..b down one slot (pairs), then insert the new e and a
+        v.copyWithin(2, 0, 14);
+        const eNewLo = v[9] + (t1Lo >>> 0);
+        v[9] = eNewLo;
+        v[8] = v[8] + t1Hi + Math.floor(eNewLo / 0x100000000);
+        const aNewLo = (t1Lo >>> 0) + (t2Lo >>> 0);
+        v[1] = aNewLo;
+        v[0] = t1Hi + t2Hi + Math.floor(aNewLo / 0x100000000);
+      }
+
+      for (let i = 0; i < 16; i += 2) {
+        const lo = state[i + 1] + v[i + 1];
+        state[i + 1] = lo;
+        state[i] = state[i] + v[i] + Math.floor(lo / 0x100000000);
+      }
+    },
+    output: (state) => wordsToBytes(state, outputWords, false)
+  };
+}
+
+const SHA384_IV = [
+  0xCBBB9D5D, 0xC1059ED8, 0x629A292A, 0x367CD507, 0x9159015A, 0x3070DD17, 0x152FECD8, 0xF70E5939,
+  0x67332667, 0xFFC00B31, 0x8EB44A87, 0x68581511, 0xDB0C2E0D, 0x64F98FA7, 0x47B5481D, 0xBEFA4FA4
+];
+
+const SHA512_IV = [
+  0x6A09E667, 0xF3BCC908, 0xBB67AE85, 0x84CAA73B, 0x3C6EF372, 0xFE94F82B, 0xA54FF53A, 0x5F1D36F1,
+  0x510E527F, 0xADE682D1, 0x9B05688C, 0x2B3E6C1F, 0x1F83D9AB, 0xFB41BD6B, 0x5BE0CD19, 0x137E2179
+];
+
+export const SHA512_INITIAL_STATE: readonly number[] = SHA512_IV;
+
+const MD_ENGINES: Partial<Record<HashAlgorithm, () => MdEngine>> = {
+  [HashAlgorithm.MD5]: () => md5,
+  [HashAlgorithm.SHA1]: () => sha1,
+  [HashAlgorithm.SHA256]: () => sha256,
+  [HashAlgorithm.SHA384]: () => createSha512Engine(SHA384_IV, 12),
+  [HashAlgorithm.SHA512]: () => createSha512Engine(SHA512_IV, 16),
+};
+
+const WEBCRYPTO_ALGORITHMS: Partial<Record<HashAlgorithm, string>> = {
+  [HashAlgorithm.SHA1]: 'SHA-1',
+  [HashAlgorithm.SHA256]: 'SHA-256',
+  [HashAlgorithm.SHA384]: 'SHA-384',
+  [HashAlgorithm.SHA512]: 'SHA-512',
+};
+
+export function createMdDigestHasher(algorithm: HashAlgorithm): Hasher {
+  const engine = MD_ENGINES[algorithm];
+  if (!engine) throw new Error(`${algorithm} is not a Merkle–Damgård digest`);
+  return createMdHasher(engine());
+}
+
+/**
+ * Pads a (short) message in one go and records the chaining state around
+ * every compression, for the step-by-step trace.
+ */
+export function traceMdDigest(algorithm: HashAlgorithm, bytes: Uint8Array): {
+  blockSize: number;
+  padded: Uint8Array;
+  states: string[];
+  digest: string;
+} {
+  const factory = MD_ENGINES[algorithm];
+  if (!factory) throw new Error(`${algorithm} is not a Merkle–Damgård digest`);
+  const engine = factory();
+  const { blockSize, littleEndian } = engine;
+  const lengthBytes = blockSize === 128 ? 16 : 8;
+  const padded = new Uint8Array(Math.ceil((bytes.length + 1 + lengthBytes) / blockSize) * blockSize);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  writeBitLength(padded, bytes.length, littleEndian);
+  const state = engine.init();
+  const states = [toHex(wordsToBytes(state, state.length, littleEndian))];
+  for (let off = 0; off < padded.length; off += blockSize) {
+    engine.compress(state, padded, off);
+    states.push(toHex(wordsToBytes(state, state.length, littleEndian)));
+  }
+  return { blockSize, padded, states, digest: toHex(engine.output(state)) };
+}
+
+/**
+ * One-shot digest through WebCrypto where the platform offers it for this algorithm.
+ * Resolves to null when it does not, so callers can fall back to the streaming engine.
+ */
+export async function webCryptoDigest(algorithm: HashAlgorithm, bytes: Uint8Array): Promise<string | null> {
+  const name = WEBCRYPTO_ALGORITHMS[algorithm];
+  const subtle = globalThis.crypto?.subtle;
+  if (!name || !subtle) return null;
+  return toHex(new Uint8Array(await subtle.digest(name, bytes)));
+}
@@ -0,0 +1,101 @@
+import { BinaryPayload, PayloadEncoding } from '../types';
+
+export const PAYLOAD_ENCODINGS: { id: PayloadEncoding; label: string }[] = [
+  { id: 'utf8', label: 'UTF-8 Text' },
+  { id: 'utf16le', label: 'UTF-16LE Text' },
+  { id: 'utf16be', label: 'UTF-16BE Text' },
+  { id: 'hex', label: 'Hex String' },
+  { id: 'base64', label: 'Base64' },
+  { id: 'binary', label: 'Binary File' },
+];
+
+export function isTextEncoding(encoding: PayloadEncoding): boolean {
+  return encoding === 'utf8' || encoding === 'utf16le' || encoding === 'utf16be';
+}
+
+/**
+ * Converts the textual form of a payload into the exact bytes that get checksummed.
+ * Throws with a user-facing message when the text is not valid for the encoding.
+ * The 'binary' encoding has no textual form; its bytes come from a loaded file.
+ */
+export function decodePayload(text: string, encoding: PayloadEncoding): Uint8Array {
+  switch (encoding) {
+    case 'utf8':
+      return new TextEncoder().encode(text);
+    case 'utf16le':
+    case 'utf16be': {
+      const out = new Uint8Array(text.length * 2);
+      const view = new DataView(out.buffer);
+      for (let i = 0; i < text.length; i++) view.setUint16(i * 2, text.charCodeAt(i), encoding === 'utf16le');
+      return out;
+    }
+    case 'hex': {
+      // Accept common dump formats: "DE AD", "de:ad", "0xDE,0xAD"
+      const clean = text.replace(/0x/gi, '').replace(/[\s:,_-]/g, '');
+      if (!/^[0-9a-f]*$/i.test(clean)) throw new Error('Hex input may only contain 0-9 and A-F');
+      if (clean.length % 2 !== 0) throw new Error('Hex input must contain an even number of digits');
+      const out = new Uint8Array(clean.length / 2);
+      for (let i = 0; i < out.length; i++) out[i] = parseInt(clean.substr(i * 2, 2), 16);
+      return out;
+    }
+    case 'base64': {
+      const clean = text.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/');
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(clean) || clean.length % 4 === 1) throw new Error('Invalid Base64 input');
+      const binary = atob(clean.padEnd(Math.ceil(clean.length / 4) * 4, '='));
+      return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    }
+    case 'binary':
+      throw new Error('Binary payloads are loaded from a file');
+  }
+}
+
+/**
+ * Inverse of decodePayload, used when switching the encoding of an existing payload.
+ * Throws when the bytes cannot be represented (e.g. invalid UTF-8).
+ */
+export function encodePayload(bytes: Uint8Array, encoding: PayloadEncoding): string {
+  switch (encoding) {
+    case 'utf8':
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    case 'utf16le':
+    case 'utf16be': {
+      if (bytes.length % 2 !== 0) throw new Error('UTF-16 needs an even number of bytes');
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+      let out = '';
+      for (let i = 0; i < bytes.length; i += 2) out += String.fromCharCode(view.getUint16(i, encoding === 'utf16le'));
+      return out;
+    }
+    case 'hex':
+      return toHexDump(bytes);
+    case 'base64': {
+      let binary = '';
+      // Chunked to stay under the argument limit of String.fromCharCode
+      for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      return btoa(binary);
+    }
+    case 'binary':
+      throw new Error('Binary payloads have no text form');
+  }
+}
+
+export function toHexDump(bytes: Uint8Array, limit: number = Infinity): string {
+  const parts: string[] = [];
+  for (let i = 0; i < Math.min(bytes.length, limit); i++) parts.push(bytes[i].toString(16).toUpperCase().padStart(2, '0'));
+  return parts.join(' ') + (bytes.length > limit ? ' …' : '');
+}
+
+/**
+ * Bytes of a terminal payload, or the reason its text could not be decoded.
+ */
+export function resolvePayload(
+  text: string,
+  encoding: PayloadEncoding,
+  binary: BinaryPayload | null
+): { bytes: Uint8Array; error: string | null } {
+  if (encoding === 'binary') return { bytes: binary?.bytes || new Uint8Array(0), error: binary ? null : 'No file loaded' };
+  try {
+    return { bytes: decodePayload(text, encoding), error: null };
+  } catch (e) {
+    return { bytes: new Uint8Array(0), error: e instanceof Error ? e.message : String(e) };
+  }
+}
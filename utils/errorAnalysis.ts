@@ -0,0 +1,163 @@
+import { ChecksumConfig, ErrorClassResult } from '../types';
+import { createHasher } from './hashUtils';
+import { createPrng } from './channel';
+
+/**
+ * One family of error patterns. Patterns are addressed by index so the same
+ * definition drives both exhaustive enumeration and random sampling.
+ */
+interface ErrorClass {
+  id: string;
+  label: string;
+  space: (n: number) => number;
+  // Returns the damaged payload, or null when the pattern leaves the bytes unchanged
+  apply: (payload: Uint8Array, index: number) => { bytes: Uint8Array; description: string } | null;
+}
+
+const hex = (value: number) => `0x${value.toString(16).toUpperCase().padStart(2, '0')}`;
+
+// Index k of the pairs (i, j) with j < i, ordered as (1,0), (2,0), (2,1), (3,0)...
+function unrankPair(k: number): [number, number] {
+  let i = Math.floor((1 + Math.sqrt(1 + 8 * k)) / 2);
+  while (i * (i - 1) / 2 > k) i--;
+  while ((i + 1) * i / 2 <= k) i++;
+  return [i, k - i * (i - 1) / 2];
+}
+
+const pairs = (n: number) => n * (n - 1) / 2;
+
+export const ERROR_CLASSES: ErrorClass[] = [
+  {
+    id: 'single-bit',
+    label: 'Single bit flips',
+    space: n => 8 * n,
+    apply: (payload, index) => {
+      const bytes = payload.slice();
+      bytes[index >> 3] ^= 0x80 >> (index & 7);
+      return { bytes, description: `flip bit ${index & 7} of byte ${index >> 3}` };
+    }
+  },
+  {
+    id: 'double-bit',
+    label: 'Two-bit flips (incl. cancelling under the width mask)',
+    space: n => pairs(8 * n),
+    apply: (payload, index) => {
+      const [a, b] = unrankPair(index);
+      const bytes = payload.slice();
+      bytes[a >> 3] ^= 0x80 >> (a & 7);
+      bytes[b >> 3] ^= 0x80 >> (b & 7);
+      return { bytes, description: `flip bit ${b & 7} of byte ${b >> 3} and bit ${a & 7} of byte ${a >> 3}` };
+    }
+  },
+  {
+    id: 'transposition',
+    label: 'Byte reorderings (any two bytes swapped)',
+    space: pairs,
+    apply: (payload, index) => {
+      const [i, j] = unrankPair(index);
+      if (payload[i] === payload[j]) return null;
+      const bytes = payload.slice();
+      [bytes[i], bytes[j]] = [bytes[j], bytes[i]];
+      return { bytes, description: `swap byte ${j} (${hex(payload[j])}) with byte ${i} (${hex(payload[i])})` };
+    }
+  },
+  {
+    id: 'compensating',
+    label: 'Compensating +x / −x byte changes',
+    space: n => n * (n - 1) * 255,
+    apply: (payload, index) => {
+      const n = payload.length;
+      const x = (index % 255) + 1;
+      const rest = Math.floor(index / 255);
+      const up = Math.floor(rest / (n - 1));
+      const offset = rest % (n - 1);
+      const down = offset >= up ? offset + 1 : offset;
+      if (payload[up] + x > 0xFF || payload[down] - x < 0) return null;
+      const bytes = payload.slice();
+      bytes[up] += x;
+      bytes[down] -= x;
+      return { bytes, description: `byte ${up} +${x}, byte ${down} −${x}` };
+    }
+  },
+  {
+    id: 'zero-insert',
+    label: 'Inserted 0x00 bytes',
+    space: n => n + 1,
+    apply: (payload, index) => {
+      const bytes = new Uint8Array(payload.length + 1);
+      bytes.set(payload.subarray(0, index));
+      bytes.set(payload.subarray(index), index + 1);
+      return { bytes, description: `insert 0x00 before byte ${index}` };
+    }
+  },
+];
+
+// Bytes hashed per class before switching from exhaustive to sampled analysis
+const WORK_BUDGET = 8_000_000;
+const MIN_SAMPLES = 100;
+const MAX_SAMPLES = 20_000;
+const MAX_EXAMPLES = 5;
+// Patterns checked between yields to the event loop
+const PATTERNS_PER_SLICE = 2000;
+
+function checksumOf(config: ChecksumConfig, bytes: Uint8Array): string {
+  const hasher = createHasher(config.algorithm, config.params);
+  hasher.update(bytes);
+  return hasher.digest();
+}
+
+/**
+ * Counts, for each error class, the patterns whose damaged payload still
+ * produces the original checksum. Small payloads are enumerated exhaustively;
+ * larger ones are sampled with a fixed seed so reruns give the same estimate.
+ */
+export async function analyzeUndetectableErrors(
+  payload: Uint8Array,
+  config: ChecksumConfig,
+  onProgress?: (results: ErrorClassResult[]) => void
+): Promise<ErrorClassResult[]> {
+  if (payload.length < 2) throw new Error('Analysis needs a payload of at least 2 bytes');
+  const reference = checksumOf(config, payload);
+  const results: ErrorClassResult[] = [];
+
+  for (const errorClass of ERROR_CLASSES) {
+    const space = errorClass.space(payload.length);
+    const exact = space * (payload.length + 1) <= WORK_BUDGET;
+    const draws = exact ? space : Math.min(MAX_SAMPLES, Math.max(MIN_SAMPLES, Math.floor(WORK_BUDGET / payload.length)));
+    const random = createPrng(0xC0FFEE);
+    const result: ErrorClassResult = { id: errorClass.id, label: errorClass.label, total: 0, examined: 0, undetected: 0, exact, examples: [] };
+    results.push(result);
+
+    for (let drawn = 0; drawn < draws;) {
+      const end = Math.min(draws, drawn + PATTERNS_PER_SLICE);
+      for (; drawn < end; drawn++) {
+        const pattern = errorClass.apply(payload, exact ? drawn : Math.floor(random() * space));
+        if (!pattern) continue;
+        result.examined++;
+        if (checksumOf(config, pattern.bytes) !== reference) continue;
+        result.undetected++;
+        if (result.examples.length < MAX_EXAMPLES) result.examples.push(pattern.description);
+      }
+      // Sampled classes scale the share of patterns that were real changes up to the whole space
+      result.total = exact ? result.examined : Math.round(space * (result.examined / drawn));
+      onProgress?.(results.map(r => ({ ...r, examples: [...r.examples] })));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  return results;
+}
+
+/**
+ * Share of the class that goes unnoticed with a 95% interval (Wilson score);
+ * exhaustive results have no interval.
+ */
+export function undetectedShare(result: ErrorClassResult): { share: number; low: number; high: number } {
+  if (result.examined === 0) return { share: 0, low: 0, high: 0 };
+  const p = result.undetected / result.examined;
+  if (result.exact) return { share: p, low: p, high: p };
+  const z = 1.96;
+  const n = result.examined;
+  const centre = (p + z * z / (2 * n)) / (1 + z * z / n);
+  const margin = (z / (1 + z * z / n)) * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n));
+  return { share: p, low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) };
+}
@@ -0,0 +1,80 @@
+import { HashAlgorithm, ChannelOptions, ChecksumConfig, ExperimentResult } from '../types';
+import { createHasher, describeAlgorithm } from './hashUtils';
+import { createPrng, transmitThroughChannel } from './channel';
+
+/**
+ * Default line-up for the experiment runner: every additive register width
+ * next to the classic checksums and CRCs it is usually compared with.
+ */
+export const DEFAULT_EXPERIMENT_SUBJECTS: ChecksumConfig[] = [
+  { algorithm: HashAlgorithm.ADDITIVE, params: { bitWidth: 8 } },
+  { algorithm: HashAlgorithm.ADDITIVE, params: { bitWidth: 16 } },
+  { algorithm: HashAlgorithm.ADDITIVE, params: { bitWidth: 32 } },
+  { algorithm: HashAlgorithm.FLETCHER16 },
+  { algorithm: HashAlgorithm.ADLER32 },
+  { algorithm: HashAlgorithm.INTERNET },
+  { algorithm: HashAlgorithm.CRC8 },
+  { algorithm: HashAlgorithm.CRC16_CCITT },
+  { algorithm: HashAlgorithm.CRC32 },
+];
+
+export function describeSubject(subject: ChecksumConfig): string {
+  return describeAlgorithm(subject.algorithm, subject.params);
+}
+
+function checksumOf(subject: ChecksumConfig, bytes: Uint8Array): string {
+  const hasher = createHasher(subject.algorithm, subject.params);
+  hasher.update(bytes);
+  return hasher.digest();
+}
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+// Trials run between yields to the event loop so the page stays responsive
+const TRIALS_PER_SLICE = 200;
+
+/**
+ * Sends `trials` random messages through the channel and counts, per subject,
+ * how many corrupted messages still produced a matching checksum. Every
+ * subject sees exactly the same messages and the same damage.
+ */
+export async function runDetectionExperiment(
+  subjects: ChecksumConfig[],
+  channel: ChannelOptions,
+  trials: number,
+  messageBytes: number,
+  onProgress?: (completed: number, results: ExperimentResult[]) => void
+): Promise<ExperimentResult[]> {
+  const random = createPrng(channel.seed);
+  const results: ExperimentResult[] = subjects.map(subject => ({ label: describeSubject(subject), trials: 0, corrupted: 0, undetected: 0 }));
+
+  for (let done = 0; done < trials;) {
+    const end = Math.min(trials, done + TRIALS_PER_SLICE);
+    for (; done < end; done++) {
+      const message = new Uint8Array(messageBytes);
+      for (let i = 0; i < messageBytes; i++) message[i] = Math.floor(random() * 256);
+      const { bytes: received } = transmitThroughChannel(message, channel, random);
+      const corrupted = !sameBytes(message, received);
+
+      subjects.forEach((subject, i) => {
+        results[i].trials++;
+        if (!corrupted) return;
+        results[i].corrupted++;
+        if (checksumOf(subject, message) === checksumOf(subject, received)) results[i].undetected++;
+      });
+    }
+    onProgress?.(done, results.map(r => ({ ...r })));
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return results;
+}
+
+/**
+ * Undetected-error rate among corrupted messages, or the rule-of-three 95%
+ * upper bound when no miss was observed.
+ */
+export function undetectedRate(result: ExperimentResult): { rate: number; upperBound: boolean } {
+  if (result.corrupted === 0) return { rate: 0, upperBound: false };
+  if (result.undetected === 0) return { rate: 3 / result.corrupted, upperBound: true };
+  return { rate: result.undetected / result.corrupted, upperBound: false };
+}
@@ -0,0 +1,42 @@
+import { AlgorithmId, AlgorithmParams } from '../types';
+import { createHasher } from './hashUtils';
+
+// 4 MiB keeps memory flat for multi-gigabyte files while limiting re-renders
+export const FILE_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Streams a file through the selected algorithm one chunk at a time,
+ * reporting the number of bytes consumed after every chunk.
+ */
+export async function hashFile(
+  file: Blob,
+  algorithm: AlgorithmId,
+  params?: AlgorithmParams,
+  onProgress?: (bytesProcessed: number) => void
+): Promise<string> {
+  const hasher = createHasher(algorithm, params);
+  for (let offset = 0; offset < file.size; offset += FILE_CHUNK_SIZE) {
+    const chunk = new Uint8Array(await file.slice(offset, offset + FILE_CHUNK_SIZE).arrayBuffer());
+    hasher.update(chunk);
+    onProgress?.(offset + chunk.length);
+  }
+  return hasher.digest();
+}
+
+/**
+ * Path of a file picked from a folder, relative to that folder; plain picks keep their name.
+ * The top-level folder is dropped so scans of differently named copies line up.
+ */
+export function relativePath(file: File): string {
+  const parts = (file.webkitRelativePath || file.name).split('/');
+  return parts.length > 1 ? parts.slice(1).join('/') : parts[0];
+}
+
+export function downloadText(fileName: string, text: string, mimeType: string = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,178 @@
+import { HashAlgorithm, ChecksumConfig, ForgeCharset, ForgeResult, ForgeStrategy } from '../types';
+import { calculateChecksum, createHasher } from './hashUtils';
+import { getAlgorithm, paramsToAdditiveOptions, resolveParams } from './registry';
+import { unfinishAdditive } from './sums';
+
+// Appended additive patches grow by one byte per 255 of sum, so wide registers can need a lot
+const MAX_ADDITIVE_PATCH = 1 << 20;
+// Extra free bytes tried when a CRC patch of the minimum size leaves the system unsolvable
+const LINEAR_SLACK_BYTES = 4;
+
+// Printable patches draw from 0x20–0x7E for sums; CRC patches use '@'..'_' (0x40 | five free bits)
+const CHARSETS: Record<ForgeCharset, { low: number; high: number; base: number; freeBits: number }> = {
+  binary: { low: 0x00, high: 0xFF, base: 0x00, freeBits: 8 },
+  printable: { low: 0x20, high: 0x7E, base: 0x40, freeBits: 5 },
+};
+
+type ForgeMethod = 'additive' | 'linear';
+
+/**
+ * Algorithms a compensation patch can be computed for: the plain additive sum
+ * (modular arithmetic) and every CRC model (affine over GF(2)).
+ */
+export function forgeMethod(algorithm: ChecksumConfig['algorithm']): ForgeMethod | null {
+  if (algorithm === HashAlgorithm.ADDITIVE) return 'additive';
+  return getAlgorithm(algorithm).family === 'CRC' ? 'linear' : null;
+}
+
+function splitPayload(edited: Uint8Array, strategy: ForgeStrategy): { prefix: Uint8Array; suffix: Uint8Array } {
+  if (strategy.mode === 'append') return { prefix: edited, suffix: new Uint8Array(0) };
+  const { start, length } = strategy;
+  if (!(start >= 0 && length >= 1 && start + length <= edited.length)) {
+    throw new Error(`Range ${start}+${length} lies outside the ${edited.length}-byte message`);
+  }
+  return { prefix: edited.subarray(0, start), suffix: edited.subarray(start + length) };
+}
+
+function assemble(prefix: Uint8Array, patch: Uint8Array, suffix: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(prefix.length + patch.length + suffix.length);
+  bytes.set(prefix);
+  bytes.set(patch, prefix.length);
+  bytes.set(suffix, prefix.length + patch.length);
+  return bytes;
+}
+
+function forgeAdditive(prefix: Uint8Array, suffix: Uint8Array, target: string, config: ChecksumConfig, charset: ForgeCharset, fixedLength?: number): Uint8Array {
+  const options = paramsToAdditiveOptions(resolveParams(config.algorithm, config.params));
+  if (options.wordBytes > 1) throw new Error('Patches shift the word alignment; set Word Size to bytes to forge this sum');
+  // Ones'-complement sums wrap modulo 2^n − 1
+  const modulus = 2 ** options.bitWidth - (options.endAroundCarry ? 1 : 0);
+  const { low, high } = CHARSETS[charset];
+  let rest = 0;
+  for (const b of prefix) rest += b;
+  for (const b of suffix) rest += b;
+  const mod = (value: number) => ((value % modulus) + modulus) % modulus;
+  // The patch has to reach the register sum behind the target, before negation and the final XOR
+  const needed = mod(unfinishAdditive(parseInt(target, 16), options) - options.initialValue % 2 ** options.bitWidth - rest);
+
+  // Smallest patch sum congruent to `needed` that n bytes from the charset can add up to
+  const reachable = (n: number) => {
+    const sum = low * n + mod(needed - low * n);
+    return sum <= high * n ? sum : null;
+  };
+  let length = fixedLength ?? 1;
+  let sum = reachable(length);
+  if (fixedLength === undefined) {
+    while (sum === null && length < MAX_ADDITIVE_PATCH) sum = reachable(++length);
+    if (sum === null) throw new Error(`Compensation would need more than ${MAX_ADDITIVE_PATCH} bytes; overwrite a range instead so the sum can also go down`);
+  } else if (sum === null) {
+    throw new Error(`${fixedLength} ${charset} byte${fixedLength === 1 ? '' : 's'} cannot reach the required sum; widen the range`);
+  }
+
+  const patch = new Uint8Array(length).fill(low);
+  let extra = sum - low * length;
+  for (let i = 0; i < length && extra > 0; i++) {
+    const add = Math.min(high - low, extra);
+    patch[i] += add;
+    extra -= add;
+  }
+  return patch;
+}
+
+/**
+ * Finds x with Σ x_i·columns[i] = target over GF(2); returns the chosen column set or null.
+ */
+export function solveGf2(columns: bigint[], target: bigint): bigint | null {
+  // Basis rows keyed by their highest set bit, each remembering which columns it combines
+  const basis = new Map<number, { vector: bigint; combo: bigint }>();
+  const highBit = (v: bigint) => v.toString(2).length - 1;
+  columns.forEach((column, index) => {
+    let vector = column;
+    let combo = 1n << BigInt(index);
+    while (vector !== 0n) {
+      const pivot = basis.get(highBit(vector));
+      if (!pivot) {
+        basis.set(highBit(vector), { vector, combo });
+        return;
+      }
+      vector ^= pivot.vector;
+      combo ^= pivot.combo;
+    }
+  });
+  let remaining = target;
+  let solution = 0n;
+  while (remaining !== 0n) {
+    const pivot = basis.get(highBit(remaining));
+    if (!pivot) return null;
+    remaining ^= pivot.vector;
+    solution ^= pivot.combo;
+  }
+  return solution;
+}
+
+function forgeLinear(prefix: Uint8Array, suffix: Uint8Array, target: string, config: ChecksumConfig, charset: ForgeCharset, fixedLength?: number): Uint8Array {
+  const { base, freeBits } = CHARSETS[charset];
+  const crcOf = (bytes: Uint8Array) => {
+    const hasher = createHasher(config.algorithm, config.params);
+    hasher.update(bytes);
+    return BigInt('0x' + hasher.digest());
+  };
+  const width = getAlgorithm(config.algorithm).width(resolveParams(config.algorithm, config.params));
+  const minimum = Math.ceil(width / freeBits);
+  const lengths = fixedLength !== undefined
+    ? [fixedLength]
+    : Array.from({ length: LINEAR_SLACK_BYTES + 1 }, (_, extra) => minimum + extra);
+
+  for (const length of lengths) {
+    const patch = new Uint8Array(length).fill(base);
+    // In a long range only the trailing bytes are varied; the rest stay at the filler value
+    const first = Math.max(0, length - minimum - LINEAR_SLACK_BYTES);
+    const baseline = crcOf(assemble(prefix, patch, suffix));
+    const positions: [number, number][] = [];
+    const columns: bigint[] = [];
+    for (let i = first; i < length; i++) {
+      for (let bit = 0; bit < freeBits; bit++) {
+        patch[i] ^= 1 << bit;
+        columns.push(crcOf(assemble(prefix, patch, suffix)) ^ baseline);
+        patch[i] ^= 1 << bit;
+        positions.push([i, bit]);
+      }
+    }
+    const solution = solveGf2(columns, BigInt('0x' + target) ^ baseline);
+    if (solution === null) continue;
+    positions.forEach(([i, bit], k) => {
+      if ((solution >> BigInt(k)) & 1n) patch[i] ^= 1 << bit;
+    });
+    return patch;
+  }
+  throw new Error(fixedLength !== undefined
+    ? `${fixedLength} ${charset} byte${fixedLength === 1 ? '' : 's'} cannot steer a ${width}-bit CRC; widen the range to at least ${minimum}`
+    : `No ${charset} patch found for this CRC model`);
+}
+
+/**
+ * Computes compensating bytes so the edited message reproduces `target`
+ * under the given checksum configuration, and double-checks the result.
+ */
+export async function forgeChecksum(
+  edited: Uint8Array,
+  target: string,
+  config: ChecksumConfig,
+  strategy: ForgeStrategy,
+  charset: ForgeCharset
+): Promise<ForgeResult> {
+  const method = forgeMethod(config.algorithm);
+  if (!method) throw new Error(`${getAlgorithm(config.algorithm).name} is not supported by the forging tool`);
+  if (!/^[0-9A-Fa-f]+$/.test(target)) throw new Error('The sender has no checksum to imitate yet');
+
+  const { prefix, suffix } = splitPayload(edited, strategy);
+  const fixedLength = strategy.mode === 'replace' ? strategy.length : undefined;
+  const patch = method === 'additive'
+    ? forgeAdditive(prefix, suffix, target, config, charset, fixedLength)
+    : forgeLinear(prefix, suffix, target, config, charset, fixedLength);
+
+  const bytes = assemble(prefix, patch, suffix);
+  const checksum = await calculateChecksum(bytes, config.algorithm, config.params);
+  if (checksum.toUpperCase() !== target.toUpperCase()) throw new Error(`Forged message checksums to ${checksum}, not ${target}`);
+  return { bytes, patchStart: prefix.length, patchLength: patch.length, checksum };
+}
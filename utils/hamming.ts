@@ -0,0 +1,170 @@
+import { HammingCode, HammingBlock } from '../types';
+
+/**
+ * Codes offered in the Bit Correction tab. Shortened codes (k below 2^r - r - 1)
+ * simply leave the unused high positions out, as in the (72,64) memory code.
+ */
+export const HAMMING_PRESETS: { label: string; code: HammingCode }[] = [
+  { label: 'Hamming (7,4)', code: { dataBits: 4, parityBits: 3, extended: false } },
+  { label: 'Hamming (15,11)', code: { dataBits: 11, parityBits: 4, extended: false } },
+  { label: 'Hamming (31,26)', code: { dataBits: 26, parityBits: 5, extended: false } },
+  { label: 'Hamming (63,57)', code: { dataBits: 57, parityBits: 6, extended: false } },
+  { label: 'SECDED (8,4)', code: { dataBits: 4, parityBits: 3, extended: true } },
+  { label: 'SECDED (72,64)', code: { dataBits: 64, parityBits: 7, extended: true } },
+];
+
+export const HAMMING_7_4 = HAMMING_PRESETS[0].code;
+
+export function codeLength(code: HammingCode): number {
+  return code.dataBits + code.parityBits + (code.extended ? 1 : 0);
+}
+
+export function describeCode(code: HammingCode): string {
+  return `${code.extended ? 'SECDED' : 'Hamming'} (${codeLength(code)},${code.dataBits})`;
+}
+
+/**
+ * Largest k a Hamming code with r parity bits can protect.
+ */
+export function maxDataBits(parityBits: number): number {
+  return 2 ** parityBits - parityBits - 1;
+}
+
+/**
+ * Smallest k for r parity bits: the word must reach position 2^(r-1) to hold the last parity bit.
+ */
+export function minDataBits(parityBits: number): number {
+  return Math.max(1, 2 ** (parityBits - 1) - parityBits);
+}
+
+function assertValidCode(code: HammingCode): void {
+  if (code.dataBits < minDataBits(code.parityBits) || code.dataBits > maxDataBits(code.parityBits)) {
+    throw new Error(`Hamming codes with ${code.parityBits} parity bits need ${minDataBits(code.parityBits)}–${maxDataBits(code.parityBits)} data bits, not ${code.dataBits}`);
+  }
+}
+
+const isPowerOfTwo = (n: number) => (n & (n - 1)) === 0;
+
+// Codeword string index of a Hamming position (1-based); extended codes keep
+// the overall parity bit at index 0 so positions map onto indices directly
+const indexOf = (position: number, code: HammingCode) => (code.extended ? position : position - 1);
+
+export const Hamming = {
+  encode: (data: string, code: HammingCode = HAMMING_7_4): string => {
+    assertValidCode(code);
+    const length = code.dataBits + code.parityBits;
+    const bits = new Array<number>(length + 1).fill(0);
+    let next = 0;
+    for (let pos = 1; pos <= length; pos++) {
+      if (!isPowerOfTwo(pos)) bits[pos] = data[next++] === '1' ? 1 : 0;
+    }
+    for (let p = 1; p <= length; p <<= 1) {
+      let parity = 0;
+      for (let pos = p + 1; pos <= length; pos++) if (pos & p) parity ^= bits[pos];
+      bits[p] = parity;
+    }
+    const body = bits.slice(1);
+    if (!code.extended) return body.join('');
+    const overall = body.reduce((acc, b) => acc ^ b, 0);
+    return `${overall}${body.join('')}`;
+  },
+
+  decode: (codeword: string, code: HammingCode = HAMMING_7_4): {
+    corrected: string;
+    errorPos: number | null;
+    syndrome: number;
+    status: HammingBlock['status'];
+  } => {
+    assertValidCode(code);
+    const length = code.dataBits + code.parityBits;
+    const b = codeword.split('').map(Number);
+    let syndrome = 0;
+    for (let pos = 1; pos <= length; pos++) if (b[indexOf(pos, code)]) syndrome ^= pos;
+    const overallOdd = code.extended ? b.reduce((acc, bit) => acc ^ bit, 0) === 1 : syndrome !== 0;
+
+    let errorIndex: number | null = null;
+    let status: HammingBlock['status'] = 'clean';
+    if (syndrome === 0 && overallOdd) {
+      // Only the overall parity bit itself flipped
+      errorIndex = 0;
+      status = 'corrected';
+    } else if (syndrome !== 0 && (!overallOdd || syndrome > length)) {
+      // Even overall parity with a non-zero syndrome means two flips (SECDED),
+      // and a syndrome beyond a shortened code's length cannot be a single flip
+      status = 'uncorrectable';
+    } else if (syndrome !== 0) {
+      errorIndex = indexOf(syndrome, code);
+      status = 'corrected';
+    }
+
+    const corrected = [...b];
+    if (errorIndex !== null) corrected[errorIndex] ^= 1;
+    let data = '';
+    for (let pos = 1; pos <= length; pos++) {
+      if (!isPowerOfTwo(pos)) data += corrected[indexOf(pos, code)];
+    }
+    return { corrected: data, errorPos: errorIndex === null ? null : errorIndex + 1, syndrome, status };
+  },
+
+  /**
+   * Splits a bit string into k-bit blocks (zero-padding the last) and encodes each one.
+   */
+  encodeBlocks: (data: string, code: HammingCode = HAMMING_7_4): HammingBlock[] => {
+    const blocks: HammingBlock[] = [];
+    for (let i = 0; i < data.length; i += code.dataBits) {
+      const chunk = data.slice(i, i + code.dataBits).padEnd(code.dataBits, '0');
+      const encoded = Hamming.encode(chunk, code);
+      blocks.push({ data: chunk, encoded, received: encoded, corrected: chunk, errorIndex: null, syndrome: 0, status: 'clean' });
+    }
+    return blocks;
+  },
+
+  decodeBlock: (block: HammingBlock, received: string, code: HammingCode = HAMMING_7_4): HammingBlock => {
+    const { corrected, errorPos, syndrome, status } = Hamming.decode(received, code);
+    return { ...block, received, corrected, errorIndex: errorPos === null ? null : errorPos - 1, syndrome, status };
+  }
+};
+
+/**
+ * One parity check per row: check i lives at position 2^i and covers every
+ * position with bit i set. SECDED adds an overall check over the whole word.
+ */
+export function parityCoverage(code: HammingCode): { label: string; covers: boolean[] }[] {
+  const length = code.dataBits + code.parityBits;
+  const total = codeLength(code);
+  const rows = Array.from({ length: code.parityBits }, (_, i) => {
+    const covers = new Array<boolean>(total).fill(false);
+    for (let pos = 1; pos <= length; pos++) if (pos & (1 << i)) covers[indexOf(pos, code)] = true;
+    return { label: `P${1 << i}`, covers };
+  });
+  return code.extended ? [...rows, { label: 'P0', covers: new Array<boolean>(total).fill(true) }] : rows;
+}
+
+/**
+ * Re-runs each check of parityCoverage over a received codeword. A check
+ * fails when its covered bits hold an odd number of ones; the failing
+ * Hamming checks, read as binary, are the syndrome.
+ */
+export function parityChecks(received: string, code: HammingCode): { label: string; ones: number; failed: boolean }[] {
+  return parityCoverage(code).map(({ label, covers }) => {
+    const ones = covers.reduce((count, covered, index) => count + (covered && received[index] === '1' ? 1 : 0), 0);
+    return { label, ones, failed: ones % 2 === 1 };
+  });
+}
+
+export function positionLabel(index: number, code: HammingCode): string {
+  const position = code.extended ? index : index + 1;
+  return position === 0 || (position & (position - 1)) === 0 ? `P${position}` : `D${position}`;
+}
+
+export function bytesToBits(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += bytes[i].toString(2).padStart(8, '0');
+  return out;
+}
+
+export function bitsToBytes(bits: string): Uint8Array {
+  const out = new Uint8Array(Math.floor(bits.length / 8));
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  return out;
+}
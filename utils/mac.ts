@@ -0,0 +1,81 @@
+import { HashAlgorithm, MacAlgorithm, MacOptions } from '../types';
+import type { Hasher } from './hashUtils';
+import { createMdDigestHasher, toHex } from './digests';
+import { createBlake2bHasher } from './blake';
+import { decodePayload } from './encoding';
+
+export const MAC_ALGORITHMS: { id: MacAlgorithm; label: string; tagBits: number }[] = [
+  { id: 'hmac-sha256', label: 'HMAC-SHA-256', tagBits: 256 },
+  { id: 'blake2b-keyed', label: 'Keyed BLAKE2b-256', tagBits: 256 },
+];
+
+export const DEFAULT_MAC_OPTIONS: MacOptions = {
+  enabled: false,
+  algorithm: 'hmac-sha256',
+  key: 'shared secret',
+  keyEncoding: 'utf8',
+};
+
+export function describeMac(algorithm: MacAlgorithm): string {
+  return MAC_ALGORITHMS.find(m => m.id === algorithm)?.label || algorithm;
+}
+
+export function decodeMacKey(options: MacOptions): Uint8Array {
+  const key = decodePayload(options.key, options.keyEncoding);
+  if (key.length === 0) throw new Error('Enter a shared key for both terminals');
+  if (options.algorithm === 'blake2b-keyed' && key.length > 64) throw new Error('Keyed BLAKE2b accepts at most 64 key bytes');
+  return key;
+}
+
+/**
+ * RFC 2104 HMAC over any streaming hash with a `blockBytes` compression block.
+ */
+export function hmac(createHash: () => Hasher, blockBytes: number, key: Uint8Array, message: Uint8Array): string {
+  let block = key;
+  if (block.length > blockBytes) {
+    const hasher = createHash();
+    hasher.update(block);
+    block = decodePayload(hasher.digest(), 'hex');
+  }
+  const pad = (value: number) => Uint8Array.from({ length: blockBytes }, (_, i) => (block[i] || 0) ^ value);
+
+  const inner = createHash();
+  inner.update(pad(0x36));
+  inner.update(message);
+  const outer = createHash();
+  outer.update(pad(0x5C));
+  outer.update(decodePayload(inner.digest(), 'hex'));
+  return outer.digest();
+}
+
+export function hmacSha256(key: Uint8Array, message: Uint8Array): string {
+  return hmac(() => createMdDigestHasher(HashAlgorithm.SHA256), 64, key, message);
+}
+
+/**
+ * Computes the authentication tag for a payload. HMAC-SHA-256 goes through
+ * WebCrypto where available; keyed BLAKE2b uses the hash's native key input.
+ */
+export async function computeMac(bytes: Uint8Array, options: MacOptions): Promise<string> {
+  const key = decodeMacKey(options);
+  if (options.algorithm === 'blake2b-keyed') {
+    const hasher = createBlake2bHasher(32, key);
+    hasher.update(bytes);
+    return hasher.digest();
+  }
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return hmacSha256(key, bytes);
+  const cryptoKey = await subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(new Uint8Array(await subtle.sign('HMAC', cryptoKey, bytes)));
+}
+
+/**
+ * Compares tags without stopping at the first differing character.
+ */
+export function tagsMatch(expected: string, actual: string): boolean {
+  const a = expected.toUpperCase();
+  const b = actual.toUpperCase();
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+}
@@ -0,0 +1,260 @@
+import { HashAlgorithm, AlgorithmId, BatchItem, Manifest, ManifestEntry, ManifestFormat, PieceHashes } from '../types';
+import { hasAlgorithm } from './registry';
+import { locateCorruption, pieceCount, pieceRoot } from './pieces';
+
+/**
+ * Tags used by BSD-style (`--tag`) lines. Algorithms without a conventional
+ * tag are written and read back under their display name.
+ */
+const BSD_TAGS: Partial<Record<HashAlgorithm, string>> = {
+  [HashAlgorithm.MD5]: 'MD5',
+  [HashAlgorithm.SHA1]: 'SHA1',
+  [HashAlgorithm.SHA256]: 'SHA256',
+  [HashAlgorithm.SHA384]: 'SHA384',
+  [HashAlgorithm.SHA512]: 'SHA512',
+  [HashAlgorithm.BLAKE2B]: 'BLAKE2b',
+  [HashAlgorithm.BLAKE3]: 'BLAKE3',
+  [HashAlgorithm.CRC32]: 'CRC32',
+};
+
+// File-name hints for GNU-style lists, which carry no algorithm tag of their own
+const NAME_HINTS: [RegExp, HashAlgorithm][] = [
+  [/md5/i, HashAlgorithm.MD5],
+  [/sha1/i, HashAlgorithm.SHA1],
+  [/sha256/i, HashAlgorithm.SHA256],
+  [/sha384/i, HashAlgorithm.SHA384],
+  [/sha512/i, HashAlgorithm.SHA512],
+  [/(b2|blake2b?)(sums?)?$/i, HashAlgorithm.BLAKE2B],
+  [/(b3|blake3)(sums?)?$/i, HashAlgorithm.BLAKE3],
+];
+
+const LENGTH_HINTS: Record<number, HashAlgorithm> = {
+  8: HashAlgorithm.CRC32,
+  32: HashAlgorithm.MD5,
+  40: HashAlgorithm.SHA1,
+  64: HashAlgorithm.SHA256,
+  96: HashAlgorithm.SHA384,
+  128: HashAlgorithm.SHA512,
+};
+
+const BSD_LINE = /^(.+?) \((.+)\) = ([0-9a-fA-F]+)$/;
+const GNU_LINE = /^([0-9a-fA-F]+) [ *](.+)$/;
+const SFV_LINE = /^(.+?)\s+([0-9a-fA-F]{8})$/;
+// Piece manifests follow each BSD line with `PIECES (file) = <piece size> <length> <root>` and one line per piece
+const PIECES_LINE = /^PIECES \((.+)\) = (\d+) (\d+) ([0-9a-fA-F]+)$/;
+const PIECE_LINE = /^PIECE \((.+)\) (\d+) = ([0-9a-fA-F]+)$/;
+
+function tagToAlgorithm(tag: string): AlgorithmId | null {
+  const normalized = tag.replace(/-/g, '').toUpperCase();
+  for (const [algorithm, known] of Object.entries(BSD_TAGS)) {
+    if (known.replace(/-/g, '').toUpperCase() === normalized) return algorithm as HashAlgorithm;
+  }
+  return hasAlgorithm(tag) ? tag : null;
+}
+
+function algorithmToTag(algorithm: AlgorithmId): string {
+  return BSD_TAGS[algorithm as HashAlgorithm] || algorithm;
+}
+
+// GNU coreutils prefixes a line with '\' when the name contains a backslash or newline
+function unescapeGnuName(name: string, escaped: boolean): string {
+  return escaped ? name.replace(/\\(\\|n)/g, (_, c) => (c === 'n' ? '\n' : '\\')) : name;
+}
+
+function escapeGnuName(name: string): { name: string; escaped: boolean } {
+  const escaped = /[\\\n]/.test(name);
+  return { name: escaped ? name.replace(/\\/g, '\\\\').replace(/\n/g, '\\n') : name, escaped };
+}
+
+/**
+ * Parses sha256sum/md5sum output, BSD `TAG (file) = hex` lines (optionally followed by
+ * piece hashes) or .sfv files.
+ * Entries whose algorithm cannot be inferred use `fallbackAlgorithm`.
+ */
+export function parseManifest(text: string, fileName: string, fallbackAlgorithm: AlgorithmId): Manifest {
+  const lines = text.split(/\r?\n/).map(line => line.trimEnd()).filter(line => line.trim() !== '');
+  const isSfv = /\.sfv$/i.test(fileName) || (
+    lines.some(line => !line.startsWith(';')) &&
+    lines.every(line => line.startsWith(';') || (!BSD_LINE.test(line) && !GNU_LINE.test(line.replace(/^\\/, '')) && SFV_LINE.test(line)))
+  );
+  const nameHint = NAME_HINTS.find(([pattern]) => pattern.test(fileName))?.[1];
+
+  const entries: ManifestEntry[] = [];
+  const errors: string[] = [];
+  const pieces = new Map<string, PieceHashes & { line: number }>();
+  let format: ManifestFormat = isSfv ? 'sfv' : 'gnu';
+
+  lines.forEach((line, index) => {
+    if (line.startsWith(';') || line.startsWith('#')) return;
+
+    const header = PIECES_LINE.exec(line);
+    if (header && !isSfv) {
+      const size = parseInt(header[2], 10);
+      if (size <= 0) errors.push(`Line ${index + 1}: piece size must be positive`);
+      else pieces.set(header[1], { size, length: parseInt(header[3], 10), root: header[4].toUpperCase(), digests: [], line: index + 1 });
+      return;
+    }
+    const piece = PIECE_LINE.exec(line);
+    if (piece && !isSfv) {
+      const owner = pieces.get(piece[1]);
+      if (!owner || parseInt(piece[2], 10) !== owner.digests.length) errors.push(`Line ${index + 1}: piece out of order or without a PIECES line`);
+      else owner.digests.push(piece[3].toUpperCase());
+      return;
+    }
+
+    if (isSfv) {
+      const match = SFV_LINE.exec(line);
+      if (match) entries.push({ path: match[1].trim(), algorithm: HashAlgorithm.CRC32, expected: match[2].toUpperCase() });
+      else errors.push(`Line ${index + 1}: not a valid SFV entry`);
+      return;
+    }
+
+    const bsd = BSD_LINE.exec(line);
+    if (bsd) {
+      const algorithm = tagToAlgorithm(bsd[1]);
+      if (!algorithm) {
+        errors.push(`Line ${index + 1}: unsupported algorithm "${bsd[1]}"`);
+        return;
+      }
+      format = 'bsd';
+      entries.push({ path: bsd[2], algorithm, expected: bsd[3].toUpperCase() });
+      return;
+    }
+
+    const escaped = line.startsWith('\\');
+    const gnu = GNU_LINE.exec(escaped ? line.slice(1) : line);
+    if (gnu) {
+      entries.push({
+        path: unescapeGnuName(gnu[2], escaped),
+        algorithm: nameHint || LENGTH_HINTS[gnu[1].length] || fallbackAlgorithm,
+        expected: gnu[1].toUpperCase()
+      });
+      return;
+    }
+
+    errors.push(`Line ${index + 1}: unrecognised checksum line`);
+  });
+
+  // Piece lists must be complete and reproduce their root before they are trusted to locate damage
+  pieces.forEach(({ line, ...list }, path) => {
+    const entry = entries.find(e => e.path === path);
+    if (!entry) errors.push(`Line ${line}: pieces for "${path}" have no checksum line`);
+    else if (list.digests.length !== pieceCount(list.length, list.size)) errors.push(`Line ${line}: expected ${pieceCount(list.length, list.size)} pieces for "${path}", found ${list.digests.length}`);
+    else if (pieceRoot(list.digests) !== list.root) errors.push(`Line ${line}: piece hashes for "${path}" do not match their Merkle root`);
+    else {
+      entry.pieces = list;
+      format = 'pieces';
+    }
+  });
+
+  return { name: fileName, format, entries, errors };
+}
+
+/**
+ * Renders completed batch items in one of the standard manifest formats.
+ * Throws when the items cannot be expressed in the requested format.
+ */
+export function formatManifest(items: BatchItem[], format: ManifestFormat): string {
+  const done = items.filter(item => item.status === 'completed' && item.checksum && item.algorithm);
+  if (done.length === 0) throw new Error('No completed checksums to export');
+  const algorithms = new Set(done.map(item => item.algorithm));
+
+  if (format === 'sfv') {
+    if (algorithms.size !== 1 || !algorithms.has(HashAlgorithm.CRC32)) throw new Error('SFV files can only hold CRC-32 values');
+    const header = `; Generated by Checksum Integrity Hub on ${new Date().toISOString()}`;
+    return [header, ...done.map(item => `${item.name} ${item.checksum!.toUpperCase()}`)].join('\n') + '\n';
+  }
+
+  if (format === 'pieces') {
+    const missing = done.find(item => !item.pieces);
+    if (missing) throw new Error(`${missing.name} was hashed without pieces; pick a piece size and run the batch again`);
+    return [
+      `# Piece manifest generated by Checksum Integrity Hub on ${new Date().toISOString()}`,
+      ...done.flatMap(item => {
+        const { size, length, root, digests } = item.pieces!;
+        return [
+          `${algorithmToTag(item.algorithm!)} (${item.name}) = ${item.checksum!.toLowerCase()}`,
+          `PIECES (${item.name}) = ${size} ${length} ${root.toLowerCase()}`,
+          ...digests.map((digest, i) => `PIECE (${item.name}) ${i} = ${digest.toLowerCase()}`),
+        ];
+      }),
+    ].join('\n') + '\n';
+  }
+
+  if (format === 'bsd') {
+    return done.map(item => `${algorithmToTag(item.algorithm!)} (${item.name}) = ${item.checksum!.toLowerCase()}`).join('\n') + '\n';
+  }
+
+  if (algorithms.size !== 1) throw new Error('sha256sum-style lists need a single algorithm; use BSD format for mixed batches');
+  return done.map(item => {
+    const { name, escaped } = escapeGnuName(item.name);
+    return `${escaped ? '\\' : ''}${item.checksum!.toLowerCase()}  ${name}`;
+  }).join('\n') + '\n';
+}
+
+/**
+ * Suggested download name for an exported manifest, e.g. `checksums.sha256`.
+ */
+export function manifestFileName(items: BatchItem[], format: ManifestFormat): string {
+  if (format === 'sfv') return 'checksums.sfv';
+  if (format === 'bsd') return 'CHECKSUMS';
+  if (format === 'pieces') return 'checksums.pieces';
+  const algorithm = items.find(item => item.algorithm)?.algorithm;
+  const tag = algorithm ? algorithmToTag(algorithm).toLowerCase().replace(/[^a-z0-9]+/g, '') : 'txt';
+  return `checksums.${tag}`;
+}
+
+const baseName = (path: string) => path.replace(/^.*[\\/]/, '');
+
+/**
+ * Attaches manifest expectations to the queued files. Entries are matched by
+ * path first, then by base name; entries without an uploaded file become
+ * MISSING placeholders, which are dropped again once the file is added.
+ */
+export function applyManifest(items: BatchItem[], manifest: Manifest | null): BatchItem[] {
+  const files = items.filter(item => item.file !== null).map(item => ({
+    ...item,
+    expected: undefined,
+    verification: undefined,
+    expectedPieces: undefined,
+    corruptRanges: undefined
+  } as BatchItem));
+  if (!manifest) return files;
+
+  const placeholders: BatchItem[] = [];
+  for (const entry of manifest.entries) {
+    const item = files.find(f => f.name === entry.path) || files.find(f => f.name === baseName(entry.path));
+    if (!item) {
+      placeholders.push({
+        id: `missing:${entry.path}`,
+        name: entry.path,
+        size: 0,
+        file: null,
+        bytesProcessed: 0,
+        status: 'pending',
+        algorithm: entry.algorithm,
+        expected: entry.expected,
+        verification: 'missing'
+      });
+      continue;
+    }
+    item.expected = entry.expected;
+    item.expectedPieces = entry.pieces;
+    if (item.status === 'completed' && item.algorithm === entry.algorithm && (!entry.pieces || item.pieces?.size === entry.pieces.size)) {
+      item.verification = verifyChecksum(item.checksum, entry.expected);
+      if (entry.pieces && item.verification === 'failed') item.corruptRanges = locateCorruption(entry.pieces, item.pieces!);
+    } else if (item.status !== 'processing') {
+      // Hashed with another algorithm or piece size (or not yet): queue it again under the manifest's
+      item.algorithm = entry.algorithm;
+      item.params = undefined;
+      item.status = 'pending';
+      item.checksum = undefined;
+      item.bytesProcessed = 0;
+    }
+  }
+  return [...files, ...placeholders];
+}
+
+export function verifyChecksum(actual: string | undefined, expected: string): 'ok' | 'failed' {
+  return actual !== undefined && actual.toUpperCase() === expected.toUpperCase() ? 'ok' : 'failed';
+}
@@ -0,0 +1,53 @@
+import { HashAlgorithm } from '../types';
+import { createHasher } from './hashUtils';
+
+/*
+ * Binary Merkle trees over SHA-256 with RFC 6962 domain separation: leaves
+ * are hashed as 0x00 ‖ data and inner nodes as 0x01 ‖ left ‖ right, so a leaf
+ * can never be passed off as a subtree. A node without a sibling is carried
+ * up unchanged rather than paired with itself.
+ */
+
+// Odd-length digests (e.g. a 12-bit CRC) get a leading zero nibble
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0) hex = '0' + hex;
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return out;
+}
+
+function sha256(prefix: number, ...parts: Uint8Array[]): string {
+  const hasher = createHasher(HashAlgorithm.SHA256);
+  hasher.update(Uint8Array.of(prefix));
+  parts.forEach(part => hasher.update(part));
+  return hasher.digest();
+}
+
+export function merkleLeaf(data: Uint8Array): string {
+  return sha256(0x00, data);
+}
+
+export function merkleParent(left: string, right: string): string {
+  return sha256(0x01, hexToBytes(left), hexToBytes(right));
+}
+
+/**
+ * Every level of the tree, leaves first; the last level holds only the root.
+ */
+export function buildMerkleTree(leaves: string[]): string[][] {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) next.push(i + 1 < level.length ? merkleParent(level[i], level[i + 1]) : level[i]);
+    levels.push(next);
+  }
+  return levels;
+}
+
+// An empty tree's root is the hash of nothing, as in RFC 6962
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return createHasher(HashAlgorithm.SHA256).digest();
+  const levels = buildMerkleTree(leaves);
+  return levels[levels.length - 1][0];
+}
@@ -0,0 +1,91 @@
+import { AlgorithmId, AlgorithmParams, ByteRange, PieceHashes } from '../types';
+import { createHasher } from './hashUtils';
+import { FILE_CHUNK_SIZE } from './fileUtils';
+import { hexToBytes, merkleLeaf, merkleRoot } from './merkle';
+
+export const PIECE_SIZES: { value: number; label: string }[] = [
+  { value: 0, label: 'Whole file' },
+  { value: 256 * 1024, label: '256 KiB pieces' },
+  { value: 1024 * 1024, label: '1 MiB pieces' },
+  { value: 4 * 1024 * 1024, label: '4 MiB pieces' },
+  { value: 16 * 1024 * 1024, label: '16 MiB pieces' },
+];
+
+export function pieceRoot(digests: string[]): string {
+  return merkleRoot(digests.map(digest => merkleLeaf(hexToBytes(digest))));
+}
+
+export function pieceCount(length: number, size: number): number {
+  return Math.ceil(length / size);
+}
+
+/**
+ * One streaming pass that yields the whole-file checksum and a digest per
+ * piece, both under the same algorithm and parameters.
+ */
+export async function hashPieces(
+  file: Blob,
+  algorithm: AlgorithmId,
+  params: AlgorithmParams | undefined,
+  pieceSize: number,
+  onProgress?: (bytesProcessed: number) => void
+): Promise<{ checksum: string; pieces: PieceHashes }> {
+  if (!Number.isInteger(pieceSize) || pieceSize <= 0) throw new Error('Piece size must be a positive number of bytes');
+  const whole = createHasher(algorithm, params);
+  const digests: string[] = [];
+  let piece = createHasher(algorithm, params);
+  let filled = 0;
+  for (let offset = 0; offset < file.size; offset += FILE_CHUNK_SIZE) {
+    const chunk = new Uint8Array(await file.slice(offset, offset + FILE_CHUNK_SIZE).arrayBuffer());
+    whole.update(chunk);
+    // Feed the chunk piece by piece, closing a piece whenever it fills up
+    for (let at = 0; at < chunk.length;) {
+      const take = Math.min(pieceSize - filled, chunk.length - at);
+      piece.update(chunk.subarray(at, at + take));
+      filled += take;
+      at += take;
+      if (filled === pieceSize) {
+        digests.push(piece.digest());
+        piece = createHasher(algorithm, params);
+        filled = 0;
+      }
+    }
+    onProgress?.(offset + chunk.length);
+  }
+  if (filled > 0) digests.push(piece.digest());
+  return { checksum: whole.digest(), pieces: { size: pieceSize, length: file.size, root: pieceRoot(digests), digests } };
+}
+
+/**
+ * Byte ranges of `actual` that differ from `expected`, with adjacent bad
+ * pieces merged. Bytes past the shorter of the two lengths count as corrupt.
+ */
+export function locateCorruption(expected: PieceHashes, actual: PieceHashes): ByteRange[] {
+  if (expected.size !== actual.size) throw new Error(`Piece sizes differ (${expected.size} vs ${actual.size} bytes)`);
+  const ranges: ByteRange[] = [];
+  const add = (start: number, end: number) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === start) last.end = end;
+    else ranges.push({ start, end });
+  };
+  const count = Math.max(expected.digests.length, actual.digests.length);
+  for (let i = 0; i < count; i++) {
+    const a = expected.digests[i];
+    const b = actual.digests[i];
+    // A short final piece only matches when both files end at the same byte
+    const sameExtent = Math.min(expected.length, (i + 1) * expected.size) === Math.min(actual.length, (i + 1) * actual.size);
+    if (a === undefined || b === undefined || a.toUpperCase() !== b.toUpperCase() || !sameExtent) {
+      add(i * expected.size, Math.min((i + 1) * expected.size, Math.max(expected.length, actual.length)));
+    }
+  }
+  return ranges;
+}
+
+const formatBytes = (bytes: number) => (bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MiB` : bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KiB` : `${bytes} B`);
+
+export function describeRange(range: ByteRange, pieceSize: number): string {
+  const first = Math.floor(range.start / pieceSize);
+  const last = Math.floor((range.end - 1) / pieceSize);
+  const pieces = first === last ? `piece ${first}` : `pieces ${first}–${last}`;
+  return `bytes ${range.start}–${range.end - 1} (${pieces}, ${formatBytes(range.end - range.start)})`;
+}
@@ -0,0 +1,271 @@
+import { ReedSolomon } from './reedSolomon';
+
+/**
+ * Minimal QR Code encoder (ISO/IEC 18004): byte mode, error-correction
+ * level M, versions 1–40, with the mask chosen by the standard penalty rules.
+ * Rows of the returned matrix run top to bottom; `true` is a dark module.
+ */
+export type QrMatrix = boolean[][];
+
+// Level M, indexed by version
+const EC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const EC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+// Format-information bits for level M
+const EC_LEVEL_BITS = 0b00;
+
+// Modules available for data and error correction once function patterns are placed
+function rawDataModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const align = Math.floor(version / 7) + 2;
+    modules -= (25 * align - 10) * align - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+}
+
+const totalCodewords = (version: number) => Math.floor(rawDataModules(version) / 8);
+const dataCodewords = (version: number) => totalCodewords(version) - EC_CODEWORDS_PER_BLOCK[version] * EC_BLOCKS[version];
+const countBits = (version: number) => (version <= 9 ? 8 : 16);
+
+/**
+ * Largest byte payload a level-M symbol can carry.
+ */
+export const QR_MAX_BYTES = Math.floor((dataCodewords(40) * 8 - 4 - countBits(40)) / 8);
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+}
+
+function encodeCodewords(data: Uint8Array, version: number): Uint8Array {
+  const capacity = dataCodewords(version);
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(data.length, countBits(version));
+  data.forEach(b => push(b, 8));
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords = new Uint8Array(capacity);
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords[i / 8] = bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0);
+  }
+  for (let i = bits.length / 8, pad = 0xEC; i < capacity; i++, pad ^= 0xEC ^ 0x11) codewords[i] = pad;
+
+  // Split into blocks (the later ones one codeword longer), protect each, then interleave
+  const blockCount = EC_BLOCKS[version];
+  const ecLength = EC_CODEWORDS_PER_BLOCK[version];
+  const shortBlocks = blockCount - (totalCodewords(version) % blockCount);
+  const shortLength = Math.floor(totalCodewords(version) / blockCount) - ecLength;
+  const blocks: { data: Uint8Array; ec: Uint8Array }[] = [];
+  for (let b = 0, offset = 0; b < blockCount; b++) {
+    const length = shortLength + (b < shortBlocks ? 0 : 1);
+    const block = codewords.subarray(offset, offset + length);
+    offset += length;
+    const encoded = ReedSolomon.encode(block, { n: length + ecLength, k: length });
+    blocks.push({ data: block, ec: encoded.subarray(length) });
+  }
+  const out: number[] = [];
+  for (let i = 0; i <= shortLength; i++) {
+    blocks.forEach(block => { if (i < block.data.length) out.push(block.data[i]); });
+  }
+  for (let i = 0; i < ecLength; i++) blocks.forEach(block => out.push(block.ec[i]));
+  return Uint8Array.from(out);
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrSymbol {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  set(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0);
+      this.set(i, 6, i % 2 === 0);
+    }
+    // Finders with their separators
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const ring = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < size && y >= 0 && y < size) this.set(x, y, ring !== 2 && ring !== 4);
+        }
+      }
+    }
+    const align = alignmentPositions(this.version);
+    align.forEach((cx, i) => align.forEach((cy, j) => {
+      // Skip the three that would overlap a finder
+      if ((i === 0 && j === 0) || (i === 0 && j === align.length - 1) || (i === align.length - 1 && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) this.set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }));
+    this.drawFormat(0);
+    if (this.version >= 7) {
+      let rem = this.version;
+      for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1F25);
+      const bits = (this.version << 12) | rem;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.set(a, b, dark);
+        this.set(b, a, dark);
+      }
+    }
+  }
+
+  drawFormat(mask: number) {
+    const { size } = this;
+    const data = (EC_LEVEL_BITS << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+    for (let i = 0; i <= 5; i++) this.set(8, i, bit(i));
+    this.set(8, 7, bit(6));
+    this.set(8, 8, bit(7));
+    this.set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, bit(i));
+    this.set(8, size - 8, true);
+  }
+
+  // Two-module-wide columns, right to left, snaking up and down and skipping the timing column
+  drawCodewords(codewords: Uint8Array) {
+    const { size } = this;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vert = 0; vert < size; vert++) {
+        const y = upward ? size - 1 - vert : vert;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (this.reserved[y][x]) continue;
+          if (i < codewords.length * 8) this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+          i++;
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penalty(): number {
+    const { size, modules } = this;
+    let score = 0;
+    const lines: boolean[][] = [...modules, ...modules.map((_, x) => modules.map(row => row[x]))];
+    for (const line of lines) {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) score += run - 2;
+          run = 1;
+        }
+      }
+      // Finder-like 1:1:3:1:1 patterns with four light modules on one side
+      const text = line.map(dark => (dark ? '1' : '0')).join('');
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) score += 40;
+      }
+    }
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = modules[y][x];
+        if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+      }
+    }
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+/**
+ * Encodes bytes (typically a URL) into the smallest level-M symbol that holds them.
+ * Throws when the data exceeds a version-40 symbol.
+ */
+export function encodeQr(data: Uint8Array): QrMatrix {
+  let version = 1;
+  while (version <= 40 && 4 + countBits(version) + data.length * 8 > dataCodewords(version) * 8) version++;
+  if (version > 40) throw new Error(`${data.length} bytes exceed the ${QR_MAX_BYTES}-byte QR capacity`);
+
+  const codewords = encodeCodewords(data, version);
+  let best: QrSymbol | null = null;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const symbol = new QrSymbol(version);
+    symbol.drawFunctionPatterns();
+    symbol.drawCodewords(codewords);
+    symbol.applyMask(mask);
+    symbol.drawFormat(mask);
+    const score = symbol.penalty();
+    if (score < bestScore) {
+      best = symbol;
+      bestScore = score;
+    }
+  }
+  return best!.modules;
+}
+
+/**
+ * SVG path data with one unit square per dark module, offset by a quiet zone.
+ */
+export function qrToSvgPath(matrix: QrMatrix, quietZone: number = 4): string {
+  const parts: string[] = [];
+  matrix.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) parts.push(`M${x + quietZone},${y + quietZone}h1v1h-1z`);
+  }));
+  return parts.join('');
+}
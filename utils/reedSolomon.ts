@@ -0,0 +1,224 @@
+import { ReedSolomonCode, ReedSolomonBlock } from '../types';
+
+/**
+ * Codes offered in the Reed–Solomon tab. Anything below n = 255 is a shortened
+ * code: the missing leading message symbols are implicitly zero.
+ */
+export const REED_SOLOMON_PRESETS: { label: string; code: ReedSolomonCode }[] = [
+  { label: 'RS(255,223) CCSDS', code: { n: 255, k: 223 } },
+  { label: 'RS(255,239) ITU G.709', code: { n: 255, k: 239 } },
+  { label: 'RS(204,188) DVB', code: { n: 204, k: 188 } },
+  { label: 'RS(32,28) CD C2', code: { n: 32, k: 28 } },
+  { label: 'RS(15,9)', code: { n: 15, k: 9 } },
+];
+
+export function describeRsCode(code: ReedSolomonCode): string {
+  return `RS(${code.n},${code.k})`;
+}
+
+/**
+ * Returns an error message when n and k do not describe a usable GF(2^8) code.
+ */
+export function validateRsCode(code: ReedSolomonCode): string | null {
+  if (!Number.isInteger(code.n) || !Number.isInteger(code.k)) return 'n and k must be whole numbers';
+  if (code.n < 2 || code.n > 255) return 'n must be between 2 and 255 symbols';
+  if (code.k < 1 || code.k >= code.n) return 'k must be at least 1 and less than n';
+  return null;
+}
+
+// GF(2^8) with the primitive polynomial x^8 + x^4 + x^3 + x^2 + 1 (0x11D)
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11D;
+  }
+  // Doubled so products can index EXP[log a + log b] without a modulo
+  for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+})();
+
+const gfMul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+const gfDiv = (a: number, b: number) => {
+  if (b === 0) throw new Error('Division by zero in GF(256)');
+  return a === 0 ? 0 : EXP[(LOG[a] + 255 - LOG[b]) % 255];
+};
+const gfPow = (e: number) => EXP[((e % 255) + 255) % 255];
+
+/*
+ * Codewords and the generator are stored highest degree first (symbol 0 is
+ * transmitted first); locator and syndrome polynomials are lowest degree first.
+ */
+
+// Evaluates a lowest-degree-first polynomial
+function evalLow(poly: number[], x: number): number {
+  let y = 0;
+  for (let i = poly.length - 1; i >= 0; i--) y = gfMul(y, x) ^ poly[i];
+  return y;
+}
+
+function mulLow(a: number[], b: number[]): number[] {
+  const out = new Array<number>(a.length + b.length - 1).fill(0);
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) out[i + j] ^= gfMul(a[i], b[j]);
+  }
+  return out;
+}
+
+const generatorCache = new Map<number, number[]>();
+
+// g(x) = (x - α^0)(x - α^1)...(x - α^(n-k-1)), highest degree first
+function generator(paritySymbols: number): number[] {
+  let g = generatorCache.get(paritySymbols);
+  if (g) return g;
+  g = [1];
+  for (let i = 0; i < paritySymbols; i++) {
+    const next = new Array<number>(g.length + 1).fill(0);
+    for (let j = 0; j < g.length; j++) {
+      next[j] ^= g[j];
+      next[j + 1] ^= gfMul(g[j], gfPow(i));
+    }
+    g = next;
+  }
+  generatorCache.set(paritySymbols, g);
+  return g;
+}
+
+function syndromes(received: Uint8Array, paritySymbols: number): number[] {
+  const out: number[] = [];
+  for (let j = 0; j < paritySymbols; j++) {
+    const x = gfPow(j);
+    let y = 0;
+    for (let i = 0; i < received.length; i++) y = gfMul(y, x) ^ received[i];
+    out.push(y);
+  }
+  return out;
+}
+
+export interface RsDecodeResult {
+  corrected: Uint8Array;
+  errorPositions: number[];
+  syndromes: number[];
+  status: ReedSolomonBlock['status'];
+  failure?: string;
+}
+
+export const ReedSolomon = {
+  /**
+   * Systematic encoding: the k message symbols followed by n-k parity symbols.
+   */
+  encode: (data: Uint8Array, code: ReedSolomonCode): Uint8Array => {
+    const paritySymbols = code.n - code.k;
+    const g = generator(paritySymbols);
+    const work = new Uint8Array(code.n);
+    work.set(data.subarray(0, code.k));
+    for (let i = 0; i < code.k; i++) {
+      const coef = work[i];
+      if (coef === 0) continue;
+      for (let j = 1; j < g.length; j++) work[i + j] ^= gfMul(g[j], coef);
+    }
+    const codeword = new Uint8Array(code.n);
+    codeword.set(data.subarray(0, code.k));
+    codeword.set(work.subarray(code.k), code.k);
+    return codeword;
+  },
+
+  /**
+   * Errors-and-erasures decoding (Berlekamp–Massey seeded with the erasure
+   * locator, Chien search, Forney). Succeeds while 2·errors + erasures <= n-k.
+   */
+  decode: (received: Uint8Array, code: ReedSolomonCode, erasures: number[] = []): RsDecodeResult => {
+    const paritySymbols = code.n - code.k;
+    const s = syndromes(received, paritySymbols);
+    const fail = (failure: string): RsDecodeResult => ({
+      corrected: received.slice(0, code.k), errorPositions: [], syndromes: s, status: 'uncorrectable', failure
+    });
+
+    if (s.every(v => v === 0)) {
+      return { corrected: received.slice(0, code.k), errorPositions: [], syndromes: s, status: 'clean' };
+    }
+    const erased = [...new Set(erasures)].filter(i => i >= 0 && i < code.n);
+    if (erased.length > paritySymbols) return fail(`${erased.length} erasures exceed the ${paritySymbols} parity symbols`);
+
+    // Symbol i sits at degree n-1-i, so its locator is α^(n-1-i)
+    const locator = (i: number) => gfPow(code.n - 1 - i);
+
+    let gamma = [1];
+    for (const i of erased) gamma = mulLow(gamma, [1, locator(i)]);
+
+    let lambda = [...gamma];
+    let prev = [...gamma];
+    let length = erased.length;
+    for (let r = erased.length; r < paritySymbols; r++) {
+      let delta = 0;
+      for (let j = 0; j <= length && j < lambda.length; j++) delta ^= gfMul(lambda[j], s[r - j]);
+      const shifted = [0, ...prev];
+      if (delta === 0) {
+        prev = shifted;
+        continue;
+      }
+      const next = new Array<number>(Math.max(lambda.length, shifted.length)).fill(0);
+      for (let j = 0; j < next.length; j++) next[j] = (lambda[j] || 0) ^ gfMul(delta, shifted[j] || 0);
+      if (2 * length <= r + erased.length) {
+        prev = lambda.map(c => gfDiv(c, delta));
+        length = r + 1 + erased.length - length;
+      } else {
+        prev = shifted;
+      }
+      lambda = next;
+    }
+    while (lambda.length > 1 && lambda[lambda.length - 1] === 0) lambda.pop();
+    const degree = lambda.length - 1;
+    if (2 * (degree - erased.length) + erased.length > paritySymbols) {
+      return fail('Too many symbol errors for the available parity');
+    }
+
+    // Chien search over the positions that actually exist in this (possibly shortened) code
+    const positions: number[] = [];
+    for (let i = 0; i < code.n; i++) {
+      if (evalLow(lambda, gfDiv(1, locator(i))) === 0) positions.push(i);
+    }
+    if (positions.length !== degree) return fail('Error locator roots do not match its degree');
+
+    // Ω(x) = S(x)Λ(x) mod x^(n-k); with the first root at α^0, e = X·Ω(X⁻¹)/Λ'(X⁻¹)
+    const omega = mulLow(s, lambda).slice(0, paritySymbols);
+    const derivative = lambda.slice(1).map((c, j) => (j % 2 === 0 ? c : 0));
+    const corrected = received.slice();
+    for (const i of positions) {
+      const X = locator(i);
+      const xInv = gfDiv(1, X);
+      const denominator = evalLow(derivative, xInv);
+      if (denominator === 0) return fail('Forney denominator vanished');
+      corrected[i] ^= gfMul(X, gfDiv(evalLow(omega, xInv), denominator));
+    }
+    if (syndromes(corrected, paritySymbols).some(v => v !== 0)) return fail('Correction did not produce a valid codeword');
+
+    const errorPositions = positions.filter(i => corrected[i] !== received[i]);
+    return { corrected: corrected.slice(0, code.k), errorPositions, syndromes: s, status: 'corrected' };
+  },
+
+  /**
+   * Splits a payload into k-symbol blocks (zero-padding the last) and encodes each one.
+   */
+  encodeBlocks: (data: Uint8Array, code: ReedSolomonCode): ReedSolomonBlock[] => {
+    const blocks: ReedSolomonBlock[] = [];
+    for (let i = 0; i < data.length; i += code.k) {
+      const chunk = new Uint8Array(code.k);
+      chunk.set(data.subarray(i, i + code.k));
+      const encoded = ReedSolomon.encode(chunk, code);
+      blocks.push({
+        data: chunk, encoded, received: encoded, erasures: [], corrected: chunk,
+        errorPositions: [], syndromes: new Array(code.n - code.k).fill(0), status: 'clean'
+      });
+    }
+    return blocks;
+  },
+
+  decodeBlock: (block: ReedSolomonBlock, received: Uint8Array, erasures: number[], code: ReedSolomonCode): ReedSolomonBlock => {
+    const { corrected, errorPositions, syndromes: s, status, failure } = ReedSolomon.decode(received, code, erasures);
+    return { ...block, received, erasures, corrected, errorPositions, syndromes: s, status, failure };
+  }
+};
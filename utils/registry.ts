@@ -0,0 +1,216 @@
+import { HashAlgorithm, AdditiveOptions, AlgorithmId, AlgorithmParams, CrcOptions, ParamField } from '../types';
+import type { Hasher } from './hashUtils';
+import { createAdditiveHasher, createFletcherHasher, createInternetChecksumHasher, FLETCHER_VARIANTS } from './sums';
+import { CRC_PRESETS, DEFAULT_CUSTOM_CRC, createCrcHasher } from './crc';
+import { createMdDigestHasher, webCryptoDigest } from './digests';
+import { createBlake2bHasher, createBlake3Hasher } from './blake';
+
+/**
+ * Everything the Hub needs to know about an algorithm. `init` starts a fresh
+ * incremental hasher; callers feed it with `update(bytes)` and read `digest()`.
+ */
+export interface ChecksumAlgorithm {
+  id: AlgorithmId;
+  name: string;
+  // Groups the algorithm dropdown
+  family: string;
+  params: ParamField[];
+  // Presets: the schema is shown read-only with these values, and can be copied into `customVariant`
+  fixedParams?: AlgorithmParams;
+  customVariant?: AlgorithmId;
+  note?: string;
+  width: (params: AlgorithmParams) => number;
+  init: (params: AlgorithmParams) => Hasher;
+  describe?: (params: AlgorithmParams) => string;
+  // Optional native one-shot path (e.g. WebCrypto); null means "use init/update/digest"
+  oneShot?: (bytes: Uint8Array) => Promise<string | null>;
+}
+
+const hexParam = (params: AlgorithmParams, key: string) => parseInt(String(params[key] || '0'), 16) || 0;
+
+export function paramsToAdditiveOptions(params: AlgorithmParams): AdditiveOptions {
+  return {
+    bitWidth: Number(params.bitWidth) as AdditiveOptions['bitWidth'],
+    initialValue: hexParam(params, 'initialValue'),
+    wordBytes: (Number(params.wordBytes) || 1) as AdditiveOptions['wordBytes'],
+    bigEndian: Boolean(params.bigEndian),
+    endAroundCarry: Boolean(params.endAroundCarry),
+    negate: Boolean(params.negate),
+    finalXor: hexParam(params, 'finalXor'),
+  };
+}
+
+const ADDITIVE: ChecksumAlgorithm = {
+  id: HashAlgorithm.ADDITIVE,
+  name: HashAlgorithm.ADDITIVE,
+  family: 'Additive',
+  params: [
+    {
+      key: 'bitWidth', label: 'Register Width', type: 'select', default: 16,
+      options: [
+        { value: 8, label: '8-bit (Low Accuracy)' },
+        { value: 16, label: '16-bit (Standard)' },
+        { value: 32, label: '32-bit (High Precision)' },
+      ]
+    },
+    { key: 'initialValue', label: 'Init Vector', type: 'hex', digits: 8, default: '0' },
+    {
+      key: 'wordBytes', label: 'Word Size', type: 'select', default: 1,
+      options: [
+        { value: 1, label: 'Bytes' },
+        { value: 2, label: '16-bit words' },
+        { value: 4, label: '32-bit words' },
+      ]
+    },
+    { key: 'bigEndian', label: 'Word Order', type: 'toggle', on: 'Big-Endian', off: 'Little-Endian', default: true },
+    { key: 'endAroundCarry', label: 'Carry', type: 'toggle', on: "End-Around (Ones' Complement)", off: "Dropped (Two's Complement)", default: false },
+    { key: 'negate', label: 'Final Step', type: 'toggle', on: 'Negate (Sum to Zero)', off: 'Raw Sum', default: false },
+    { key: 'finalXor', label: 'Final XOR', type: 'hex', digits: 8, default: '0' },
+  ],
+  width: params => Number(params.bitWidth),
+  init: params => createAdditiveHasher(paramsToAdditiveOptions(params)),
+  describe: params => {
+    const { bitWidth, wordBytes, bigEndian, endAroundCarry, negate, finalXor } = paramsToAdditiveOptions(params);
+    const extras = [
+      ...(wordBytes > 1 ? [`${wordBytes * 8}-bit ${bigEndian ? 'BE' : 'LE'} words`] : []),
+      ...(endAroundCarry ? ["ones' complement"] : []),
+      ...(negate ? ['negated'] : []),
+      ...(finalXor ? [`xor=${params.finalXor}`] : []),
+    ];
+    return `Additive (${[`${bitWidth}-bit`, ...extras].join(', ')})`;
+  },
+};
+
+function fletcherAlgorithm(id: HashAlgorithm): ChecksumAlgorithm {
+  const { halfDigits } = FLETCHER_VARIANTS[id]!;
+  return {
+    id,
+    name: id,
+    family: 'Fletcher / Adler',
+    params: [
+      { key: 'initialA', label: 'Sum A Init', type: 'hex', digits: halfDigits, default: id === HashAlgorithm.ADLER32 ? '1' : '0' },
+      { key: 'initialB', label: 'Sum B Init', type: 'hex', digits: halfDigits, default: '0' },
+    ],
+    width: () => halfDigits * 8,
+    init: params => createFletcherHasher(id, { initialA: hexParam(params, 'initialA'), initialB: hexParam(params, 'initialB') }),
+    describe: params => `${id} (A0=${params.initialA} B0=${params.initialB})`,
+  };
+}
+
+const INTERNET: ChecksumAlgorithm = {
+  id: HashAlgorithm.INTERNET,
+  name: HashAlgorithm.INTERNET,
+  family: 'Additive',
+  params: [
+    { key: 'initialValue', label: 'Init Sum', type: 'hex', digits: 4, default: '0' },
+    { key: 'complement', label: 'Final Step', type: 'toggle', on: "Ones' Complement", off: 'Raw Sum', default: true },
+  ],
+  width: () => 16,
+  init: params => createInternetChecksumHasher({ initialValue: hexParam(params, 'initialValue') & 0xFFFF, complement: Boolean(params.complement) }),
+  describe: params => `Internet Checksum (init=${params.initialValue}${params.complement ? '' : ', raw sum'})`,
+};
+
+const CRC_FIELDS: ParamField[] = [
+  { key: 'width', label: 'Width', type: 'number', min: 1, max: 64, default: DEFAULT_CUSTOM_CRC.width },
+  { key: 'poly', label: 'poly', type: 'hex', digits: 16, default: DEFAULT_CUSTOM_CRC.poly },
+  { key: 'init', label: 'init', type: 'hex', digits: 16, default: DEFAULT_CUSTOM_CRC.init },
+  { key: 'xorout', label: 'xorout', type: 'hex', digits: 16, default: DEFAULT_CUSTOM_CRC.xorout },
+  { key: 'refin', label: 'refin', type: 'toggle', on: 'true', off: 'false', default: DEFAULT_CUSTOM_CRC.refin },
+  { key: 'refout', label: 'refout', type: 'toggle', on: 'true', off: 'false', default: DEFAULT_CUSTOM_CRC.refout },
+];
+
+export function paramsToCrcOptions(params: AlgorithmParams): CrcOptions {
+  return {
+    width: Number(params.width),
+    poly: String(params.poly),
+    init: String(params.init),
+    refin: Boolean(params.refin),
+    refout: Boolean(params.refout),
+    xorout: String(params.xorout),
+  };
+}
+
+function crcAlgorithm(id: HashAlgorithm, preset?: CrcOptions): ChecksumAlgorithm {
+  return {
+    id,
+    name: id,
+    family: 'CRC',
+    params: CRC_FIELDS,
+    fixedParams: preset ? { ...preset } : undefined,
+    customVariant: preset ? HashAlgorithm.CRC_CUSTOM : undefined,
+    width: params => Number(params.width),
+    init: params => createCrcHasher(paramsToCrcOptions(params)),
+    describe: preset ? undefined : params => {
+      const { width, poly, init, refin, refout, xorout } = paramsToCrcOptions(params);
+      return `CRC-${width} (poly=${poly} init=${init} refin=${refin} refout=${refout} xorout=${xorout})`;
+    },
+  };
+}
+
+function digestAlgorithm(id: HashAlgorithm, bits: number, init: () => Hasher): ChecksumAlgorithm {
+  return {
+    id,
+    name: id,
+    family: 'Digest',
+    params: [],
+    note: `Fixed-parameter digest · ${bits}-bit output · no tunable params`,
+    width: () => bits,
+    init,
+    oneShot: bytes => webCryptoDigest(id, bytes),
+  };
+}
+
+const registry = new Map<AlgorithmId, ChecksumAlgorithm>();
+
+/**
+ * Adds an algorithm to every picker, the batch pipeline, manifests and the CLI.
+ * Registering an existing id replaces it.
+ */
+export function registerAlgorithm(algorithm: ChecksumAlgorithm): void {
+  registry.set(algorithm.id, algorithm);
+}
+
+[
+  ADDITIVE,
+  fletcherAlgorithm(HashAlgorithm.FLETCHER16),
+  fletcherAlgorithm(HashAlgorithm.FLETCHER32),
+  fletcherAlgorithm(HashAlgorithm.FLETCHER64),
+  fletcherAlgorithm(HashAlgorithm.ADLER32),
+  INTERNET,
+  ...(Object.keys(CRC_PRESETS) as HashAlgorithm[]).map(id => crcAlgorithm(id, CRC_PRESETS[id])),
+  crcAlgorithm(HashAlgorithm.CRC_CUSTOM),
+  digestAlgorithm(HashAlgorithm.MD5, 128, () => createMdDigestHasher(HashAlgorithm.MD5)),
+  digestAlgorithm(HashAlgorithm.SHA1, 160, () => createMdDigestHasher(HashAlgorithm.SHA1)),
+  digestAlgorithm(HashAlgorithm.SHA256, 256, () => createMdDigestHasher(HashAlgorithm.SHA256)),
+  digestAlgorithm(HashAlgorithm.SHA384, 384, () => createMdDigestHasher(HashAlgorithm.SHA384)),
+  digestAlgorithm(HashAlgorithm.SHA512, 512, () => createMdDigestHasher(HashAlgorithm.SHA512)),
+  digestAlgorithm(HashAlgorithm.BLAKE2B, 512, () => createBlake2bHasher()),
+  digestAlgorithm(HashAlgorithm.BLAKE3, 256, () => createBlake3Hasher()),
+].forEach(registerAlgorithm);
+
+export function getAlgorithm(id: AlgorithmId): ChecksumAlgorithm {
+  const algorithm = registry.get(id);
+  if (!algorithm) throw new Error(`Unknown algorithm "${id}"`);
+  return algorithm;
+}
+
+export function hasAlgorithm(id: string): boolean {
+  return registry.has(id);
+}
+
+export function listAlgorithms(): ChecksumAlgorithm[] {
+  return [...registry.values()];
+}
+
+/**
+ * Schema defaults, overridden by saved values, overridden in turn by a preset's fixed values.
+ */
+export function resolveParams(id: AlgorithmId, saved?: AlgorithmParams): AlgorithmParams {
+  const algorithm = getAlgorithm(id);
+  const params: AlgorithmParams = {};
+  for (const field of algorithm.params) {
+    const value = saved?.[field.key];
+    params[field.key] = value !== undefined && typeof value === typeof field.default ? value : field.default;
+  }
+  return { ...params, ...algorithm.fixedParams };
+}
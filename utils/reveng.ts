@@ -0,0 +1,320 @@
+import { HashAlgorithm, AlgorithmParams, CrcOptions, RevEngModel, RevEngOptions, RevEngReport, RevEngSample } from '../types';
+import { createHasher, describeAlgorithm } from './hashUtils';
+import { CRC_PRESETS, createCrcHasher, reflect } from './crc';
+import { createAdditiveHasher, unfinishAdditive } from './sums';
+import { solveGf2 } from './forge';
+
+export const DEFAULT_REVENG_OPTIONS: RevEngOptions = { width: 0, tryByteSwap: true, searchAdditive: true, searchCrc: true };
+
+export const MAX_REVENG_SAMPLES = 16;
+export const MAX_REVENG_SAMPLE_BYTES = 1024;
+// Above this many leftover degrees of the gcd, divisors are only searched for narrow CRCs
+const MAX_QUOTIENT_BITS = 12;
+const MAX_ENUMERATED_WIDTH = 16;
+const MAX_MODELS = 50;
+// init solutions are listed in full up to 2^this many
+const MAX_KERNEL_BITS = 4;
+// Polynomials tried between yields to the UI
+const CANDIDATES_PER_SLICE = 4096;
+
+const parseHexBytes = (hex: string, line: number, what: string): Uint8Array => {
+  const clean = hex.replace(/\s+/g, '').replace(/^0x/i, '');
+  if (!/^([0-9a-f]{2})*$/i.test(clean)) throw new Error(`Line ${line}: the ${what} must be whole hex bytes`);
+  return Uint8Array.from(clean.match(/../g) ?? [], byte => parseInt(byte, 16));
+};
+
+/**
+ * One sample per line: message hex, then the checksum hex, separated by ':',
+ * '|' or whitespace. Bytes inside the message may be spaced when ':' or '|' is used.
+ */
+export function parseRevEngSamples(text: string): RevEngSample[] {
+  const samples: RevEngSample[] = [];
+  text.split('\n').forEach((raw, i) => {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (!line) return;
+    const parts = /[:|]/.test(line) ? line.split(/[:|]/) : line.split(/\s+/);
+    if (parts.length !== 2) throw new Error(`Line ${i + 1}: expected "<message hex> <checksum hex>"`);
+    const message = parseHexBytes(parts[0], i + 1, 'message');
+    const checksum = parts[1].trim().replace(/^0x/i, '').toUpperCase();
+    if (!/^[0-9A-F]+$/.test(checksum)) throw new Error(`Line ${i + 1}: the checksum must be hexadecimal`);
+    if (message.length > MAX_REVENG_SAMPLE_BYTES) throw new Error(`Line ${i + 1}: messages are limited to ${MAX_REVENG_SAMPLE_BYTES} bytes`);
+    samples.push({ message, checksum });
+  });
+  if (samples.length > MAX_REVENG_SAMPLES) throw new Error(`At most ${MAX_REVENG_SAMPLES} samples can be searched at once`);
+  return samples;
+}
+
+// --- GF(2)[x] arithmetic on bigints (bit i = coefficient of x^i) ---
+
+function degree(p: bigint): number {
+  if (p === 0n) return -1;
+  const hex = p.toString(16);
+  return (hex.length - 1) * 4 + (31 - Math.clz32(parseInt(hex[0], 16)));
+}
+
+function polyDivmod(a: bigint, b: bigint): { quotient: bigint; remainder: bigint } {
+  const db = degree(b);
+  let quotient = 0n;
+  for (let da = degree(a); da >= db; da = degree(a)) {
+    quotient |= 1n << BigInt(da - db);
+    a ^= b << BigInt(da - db);
+  }
+  return { quotient, remainder: a };
+}
+
+function polyGcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) [a, b] = [b, polyDivmod(a, b).remainder];
+  return a;
+}
+
+// G mod (x^w + poly) for a narrow register, one bit of G at a time like a CRC
+function remainderIsZero(bits: Uint8Array, poly: number, width: number): boolean {
+  const top = 2 ** (width - 1);
+  const mask = 2 ** width - 1;
+  let r = 0;
+  for (let i = 0; i < bits.length; i++) {
+    const carry = r >= top;
+    r = ((r * 2) & mask) | bits[i];
+    if (carry) r ^= poly;
+  }
+  return r === 0;
+}
+
+/**
+ * Degree-`width` divisors of g, i.e. the generator polynomials consistent
+ * with every XOR difference. Returns null when g leaves too many candidates.
+ */
+async function generatorCandidates(g: bigint, width: number): Promise<bigint[] | null> {
+  const dg = degree(g);
+  if (dg < width) return [];
+  if (dg === width) return (g & 1n) === 1n ? [g] : [];
+  const top = 1n << BigInt(width);
+  const found: bigint[] = [];
+  const spare = dg - width;
+  if (spare <= MAX_QUOTIENT_BITS) {
+    for (let q = 1n << BigInt(spare); q < 2n << BigInt(spare); q++) {
+      const { quotient, remainder } = polyDivmod(g, q);
+      if (remainder === 0n && degree(quotient) === width && (quotient & 1n) === 1n) found.push(quotient);
+    }
+    return found;
+  }
+  if (width > MAX_ENUMERATED_WIDTH) return null;
+  const bits = Uint8Array.from(g.toString(2), Number);
+  // A generator without the x^0 term is not a CRC, so only odd polynomials are tried
+  for (let poly = 1; poly < 2 ** width; poly += 2) {
+    if (remainderIsZero(bits, poly, width)) found.push(top | BigInt(poly));
+    if (poly % CANDIDATES_PER_SLICE === CANDIDATES_PER_SLICE - 1) await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return found;
+}
+
+/**
+ * Basis of {x : Σ x_i·columns[i] = 0}: combinations of columns that cancel out.
+ */
+function gf2Kernel(columns: bigint[]): bigint[] {
+  const basis = new Map<number, { vector: bigint; combo: bigint }>();
+  const kernel: bigint[] = [];
+  columns.forEach((column, index) => {
+    let vector = column;
+    let combo = 1n << BigInt(index);
+    while (vector !== 0n) {
+      const pivot = basis.get(degree(vector));
+      if (!pivot) {
+        basis.set(degree(vector), { vector, combo });
+        return;
+      }
+      vector ^= pivot.vector;
+      combo ^= pivot.combo;
+    }
+    kernel.push(combo);
+  });
+  return kernel;
+}
+
+// --- CRC search ---
+
+const hexDigits = (width: number) => Math.ceil(width / 4);
+const toHexParam = (value: bigint, width: number) => value.toString(16).toUpperCase().padStart(hexDigits(width), '0');
+
+function crcValue(bytes: Uint8Array, options: CrcOptions): bigint {
+  const hasher = createCrcHasher(options);
+  hasher.update(bytes);
+  return BigInt('0x' + hasher.digest());
+}
+
+function messagePolynomial(bytes: Uint8Array, refin: boolean): bigint {
+  let m = 0n;
+  for (const byte of bytes) m = (m << 8n) | (refin ? reflect(BigInt(byte), 8) : BigInt(byte));
+  return m;
+}
+
+/**
+ * init and xorout for a known generator. Samples of different lengths pin
+ * init down through linear algebra; with a single length only the usual
+ * choices 0 and all-ones are offered.
+ */
+function solveInitXorout(samples: RevEngSample[], checks: bigint[], width: number, base: CrcOptions): { init: bigint; xorout: bigint; note?: string }[] {
+  const mask = (1n << BigInt(width)) - 1n;
+  const zero = { ...base, init: '0', xorout: '0' };
+  // Residue r = checksum ⊕ crc(init=0, xorout=0) = L_len(init) ⊕ xorout, where L_len is linear in init
+  const residues = samples.map((sample, i) => checks[i] ^ crcValue(sample.message, zero));
+  const contribution = (length: number, init: bigint) => crcValue(new Uint8Array(length), { ...zero, init: toHexParam(init, width) });
+  const reference = samples[0].message.length;
+  const others = samples.map((s, i) => i).filter(i => samples[i].message.length !== reference);
+
+  if (others.length === 0) {
+    return [0n, mask].map(init => ({
+      init,
+      xorout: residues[0] ^ contribution(reference, init),
+      note: 'All samples have the same length, so init and xorout cannot be told apart; any init works with its matching xorout.',
+    }));
+  }
+  const columns = Array.from({ length: width }, (_, bit) => others.reduce((column, i, row) =>
+    column | ((contribution(reference, 1n << BigInt(bit)) ^ contribution(samples[i].message.length, 1n << BigInt(bit))) << BigInt(row * width)), 0n));
+  const target = others.reduce((acc, i, row) => acc | ((residues[0] ^ residues[i]) << BigInt(row * width)), 0n);
+  const particular = solveGf2(columns, target);
+  if (particular === null) return [];
+  // Lengths whose x^(8·Δlen) + 1 shares a factor with the generator leave some init bits free
+  const kernel = gf2Kernel(columns);
+  const free = kernel.slice(0, MAX_KERNEL_BITS);
+  const note = kernel.length > MAX_KERNEL_BITS
+    ? `${kernel.length} bits of init are not fixed by these lengths; only some solutions are listed.`
+    : kernel.length > 0 ? `${2 ** kernel.length} init/xorout pairs fit every sample; samples of other lengths may rule some out.` : undefined;
+  return Array.from({ length: 2 ** free.length }, (_, k) => {
+    const init = free.reduce((acc, vector, j) => ((k >> j) & 1 ? acc ^ vector : acc), particular) & mask;
+    return { init, xorout: residues[0] ^ contribution(reference, init), note };
+  });
+}
+
+function presetFor(options: CrcOptions): HashAlgorithm | null {
+  const same = (a: string, b: string) => BigInt('0x' + a) === BigInt('0x' + b);
+  const match = (Object.keys(CRC_PRESETS) as HashAlgorithm[]).find(id => {
+    const preset = CRC_PRESETS[id]!;
+    return preset.width === options.width && preset.refin === options.refin && preset.refout === options.refout
+      && same(preset.poly, options.poly) && same(preset.init, options.init) && same(preset.xorout, options.xorout);
+  });
+  return match ?? null;
+}
+
+async function searchCrc(samples: RevEngSample[], checks: bigint[], width: number, byteSwapped: boolean, log: string[]): Promise<RevEngModel[]> {
+  const models: RevEngModel[] = [];
+  const groups = new Map<number, number[]>();
+  samples.forEach((sample, i) => groups.set(sample.message.length, [...(groups.get(sample.message.length) ?? []), i]));
+  const pairs = [...groups.values()].flatMap(group => group.slice(1).map(i => [group[0], i]));
+  if (pairs.length === 0) {
+    log.push('CRC: no two samples have the same length, so the polynomial cannot be solved for; add a sample of equal length.');
+    return models;
+  }
+
+  for (const refin of [false, true]) {
+    for (const refout of [false, true]) {
+      // Equal-length samples share init's contribution, so it cancels: (M_a ⊕ M_b)·x^w ≡ C_a ⊕ C_b (mod P)
+      const natural = (value: bigint) => (refout ? reflect(value, width) : value);
+      let g = 0n;
+      for (const [a, b] of pairs) {
+        const difference = messagePolynomial(samples[a].message, refin) ^ messagePolynomial(samples[b].message, refin);
+        g = polyGcd(g, (difference << BigInt(width)) ^ natural(checks[a] ^ checks[b]));
+      }
+      const label = `CRC-${width} refin=${refin} refout=${refout}${byteSwapped ? ' (bytes swapped)' : ''}`;
+      if (g === 0n) {
+        log.push(`${label}: the equal-length samples are identical, so they say nothing about the polynomial.`);
+        continue;
+      }
+      const candidates = await generatorCandidates(g, width);
+      if (candidates === null) {
+        log.push(`${label}: the XOR differences leave a degree-${degree(g)} gcd; add more equal-length samples to narrow the polynomial down.`);
+        continue;
+      }
+      for (const generator of candidates) {
+        const poly = toHexParam(generator ^ (1n << BigInt(width)), width);
+        const base: CrcOptions = { width, poly, init: '0', refin, refout, xorout: '0' };
+        for (const { init, xorout, note } of solveInitXorout(samples, checks, width, base)) {
+          const options = { ...base, init: toHexParam(init, width), xorout: toHexParam(xorout, width) };
+          if (!samples.every((sample, i) => crcValue(sample.message, options) === checks[i])) continue;
+          const preset = presetFor(options);
+          const algorithm = preset ?? HashAlgorithm.CRC_CUSTOM;
+          const params: AlgorithmParams = preset ? { ...CRC_PRESETS[preset]! } : { ...options };
+          models.push({ algorithm, params, label: describeAlgorithm(algorithm, params), byteSwapped, notes: note ? [note] : [] });
+        }
+      }
+    }
+  }
+  return models;
+}
+
+// --- Additive search ---
+
+function searchAdditive(samples: RevEngSample[], checks: bigint[], width: number, byteSwapped: boolean, log: string[]): RevEngModel[] {
+  if (width !== 8 && width !== 16 && width !== 32) {
+    log.push(`Additive: the register is 8, 16 or 32 bits wide, not ${width}.`);
+    return [];
+  }
+  const bitWidth = width as 8 | 16 | 32;
+  const models: RevEngModel[] = [];
+  for (const wordBytes of [1, 2, 4] as const) {
+    for (const bigEndian of wordBytes === 1 ? [true] : [true, false]) {
+      for (const endAroundCarry of [false, true]) {
+        for (const negate of [false, true]) {
+          const options = { bitWidth, initialValue: 0, wordBytes, bigEndian, endAroundCarry, negate, finalXor: 0 };
+          const modulus = 2 ** width - (endAroundCarry ? 1 : 0);
+          // The sum is linear in init, so the first sample fixes it and the rest must agree
+          const raw = createAdditiveHasher({ ...options, negate: false });
+          raw.update(samples[0].message);
+          const initialValue = (((unfinishAdditive(Number(checks[0]), options) - parseInt(raw.digest(), 16)) % modulus) + modulus) % modulus;
+          const params: AlgorithmParams = {
+            bitWidth, initialValue: initialValue.toString(16).toUpperCase(), wordBytes, bigEndian, endAroundCarry, negate, finalXor: '0',
+          };
+          const fits = samples.every((sample, i) => {
+            const hasher = createHasher(HashAlgorithm.ADDITIVE, params);
+            hasher.update(sample.message);
+            return BigInt('0x' + hasher.digest()) === checks[i];
+          });
+          if (fits) models.push({ algorithm: HashAlgorithm.ADDITIVE, params, label: describeAlgorithm(HashAlgorithm.ADDITIVE, params), byteSwapped, notes: [] });
+        }
+      }
+    }
+  }
+  if (samples.length === 1 && models.length > 0) log.push('Additive: a single sample fits every variant with a suitable init; add samples to tell them apart.');
+  return models;
+}
+
+const swapBytes = (hex: string) => (hex.length % 2 ? '0' + hex : hex).match(/../g)!.reverse().join('');
+
+/**
+ * Finds every additive variant and CRC model that reproduces all samples.
+ * CRC generators come from the gcd of the samples' XOR differences, the way
+ * CRC RevEng works, so wide polynomials are solved rather than guessed.
+ */
+export async function reverseEngineer(samples: RevEngSample[], options: RevEngOptions): Promise<RevEngReport> {
+  if (samples.length === 0) throw new Error('Enter at least one message/checksum sample');
+  const digits = Math.max(...samples.map(s => s.checksum.length));
+  const width = options.width > 0 ? options.width : digits * 4;
+  if (width > 64) throw new Error('Checksums wider than 64 bits are not searched');
+  const mask = (1n << BigInt(width)) - 1n;
+  const log: string[] = [];
+  const models: RevEngModel[] = [];
+
+  const orders = options.tryByteSwap && digits > 2 ? [false, true] : [false];
+  for (const byteSwapped of orders) {
+    const checks = samples.map(s => BigInt('0x' + (byteSwapped ? swapBytes(s.checksum) : s.checksum)));
+    if (checks.some(c => c > mask)) {
+      log.push(`${byteSwapped ? 'Byte-swapped checksums' : 'Checksums'} do not fit in ${width} bits.`);
+      continue;
+    }
+    if (options.searchAdditive) models.push(...searchAdditive(samples, checks, width, byteSwapped, log));
+    if (options.searchCrc) models.push(...await searchCrc(samples, checks, width, byteSwapped, log));
+  }
+
+  const seen = new Set<string>();
+  const unique = models.filter(model => {
+    const key = `${model.algorithm}|${JSON.stringify(model.params)}|${model.byteSwapped}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  // Catalogue models first, then those that fit without swapping the checksum bytes
+  const rank = (model: RevEngModel) => (model.algorithm === HashAlgorithm.CRC_CUSTOM || model.algorithm === HashAlgorithm.ADDITIVE ? 2 : 0) + (model.byteSwapped ? 1 : 0);
+  unique.sort((a, b) => rank(a) - rank(b));
+  if (unique.length > MAX_MODELS) log.push(`Showing ${MAX_MODELS} of ${unique.length} fitting models; add samples to narrow them down.`);
+  return { models: unique.slice(0, MAX_MODELS), log };
+}
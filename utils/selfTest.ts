@@ -0,0 +1,245 @@
+import { HashAlgorithm, CrcOptions, HammingCode, SelfTestResult } from '../types';
+import { calculateChecksum, createHasher } from './hashUtils';
+import { paramsToAdditiveOptions, resolveParams } from './registry';
+import { verifyAdditiveZeroSum } from './sums';
+import { Hamming, HAMMING_7_4 } from './hamming';
+import { ReedSolomon } from './reedSolomon';
+import { computeMac, hmacSha256 } from './mac';
+import { createBlake2bHasher } from './blake';
+
+interface SelfTestCase {
+  group: string;
+  name: string;
+  reference: string;
+  expected: string;
+  run: () => string | Promise<string>;
+}
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+const CHECK_INPUT = ascii('123456789');
+
+// Data bytes of the Intel HEX record :0300300002337A1E (checksum 1E)
+const INTEL_HEX_RECORD = Uint8Array.from([0x03, 0x00, 0x30, 0x00, 0x02, 0x33, 0x7A]);
+
+// Runs the streaming implementation directly, bypassing WebCrypto
+function jsDigest(algorithm: HashAlgorithm, bytes: Uint8Array): string {
+  const hasher = createHasher(algorithm);
+  hasher.update(bytes);
+  return hasher.digest();
+}
+
+function checksumCase(group: string, algorithm: HashAlgorithm, input: string, expected: string, reference: string): SelfTestCase {
+  return { group, name: `${algorithm}("${input}")`, reference, expected, run: () => calculateChecksum(ascii(input), algorithm) };
+}
+
+// Check values from the CRC RevEng catalogue
+const CRC_CHECKS: [HashAlgorithm, string][] = [
+  [HashAlgorithm.CRC8, 'F4'],
+  [HashAlgorithm.CRC16_CCITT, '29B1'],
+  [HashAlgorithm.CRC16_MODBUS, '4B37'],
+  [HashAlgorithm.CRC16_XMODEM, '31C3'],
+  [HashAlgorithm.CRC32, 'CBF43926'],
+  [HashAlgorithm.CRC32C, 'E3069283'],
+  [HashAlgorithm.CRC64, '995DC9BBDF1939FA'],
+];
+
+// Custom Rocksoft models covering odd widths, both reflections and wide registers
+const CUSTOM_CRC_CHECKS: [string, CrcOptions, string][] = [
+  ['CRC-5/USB', { width: 5, poly: '05', init: '1F', refin: true, refout: true, xorout: '1F' }, '19'],
+  ['CRC-16/ARC', { width: 16, poly: '8005', init: '0000', refin: true, refout: true, xorout: '0000' }, 'BB3D'],
+  ['CRC-24/OPENPGP', { width: 24, poly: '864CFB', init: 'B704CE', refin: false, refout: false, xorout: '000000' }, '21CF02'],
+  ['CRC-40/GSM', { width: 40, poly: '0004820009', init: '0000000000', refin: false, refout: false, xorout: 'FFFFFFFFFF' }, 'D4164FC646'],
+  ['CRC-64/ECMA-182', { width: 64, poly: '42F0E1EBA9EA3693', init: '0000000000000000', refin: false, refout: false, xorout: '0000000000000000' }, '6C40DF5F0B497347'],
+];
+
+const DIGEST_CHECKS: [HashAlgorithm, string, string, string][] = [
+  [HashAlgorithm.MD5, 'abc', '900150983CD24FB0D6963F7D28E17F72', 'RFC 1321 A.5'],
+  [HashAlgorithm.SHA1, 'abc', 'A9993E364706816ABA3E25717850C26C9CD0D89D', 'FIPS 180-4 / NIST CSRC example'],
+  [HashAlgorithm.SHA256, 'abc', 'BA7816BF8F01CFEA414140DE5DAE2223B00361A396177A9CB410FF61F20015AD', 'FIPS 180-4 / NIST CSRC example'],
+  [HashAlgorithm.SHA256, 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248D6A61D20638B8E5C026930C3E6039A33CE45964FF2167F6ECEDD419DB06C1', 'FIPS 180-4 / NIST CSRC two-block example'],
+  [HashAlgorithm.SHA384, 'abc', 'CB00753F45A35E8BB5A03D699AC65007272C32AB0EDED1631A8B605A43FF5BED8086072BA1E7CC2358BAECA134C825A7', 'FIPS 180-4 / NIST CSRC example'],
+  [HashAlgorithm.SHA512, 'abc', 'DDAF35A193617ABACC417349AE20413112E6FA4E89A97EA20A9EEEE64B55D39A2192992A274FC1A836BA3C23A3FEEBBD454D4423643CE80E2A9AC94FA54CA49F', 'FIPS 180-4 / NIST CSRC example'],
+  [HashAlgorithm.BLAKE2B, 'abc', 'BA80A53F981C4D0D6A2797B69F12F6E94C212F14685AC4B74B12BB6FDBFFA2D17D87C5392AAB792DC252D5DE4533CC9518D38AA8DBF1925AB92386EDD4009923', 'RFC 7693 Appendix A'],
+];
+
+// Wikipedia's Hamming(7,4) table: codewords p1 p2 d1 p3 d2 d3 d4 for data d1..d4
+const HAMMING_7_4_TABLE = [
+  '0000000', '1101001', '0101010', '1000011', '1001100', '0100101', '1100110', '0001111',
+  '1110000', '0011001', '1011010', '0110011', '0111100', '1010101', '0010110', '1111111',
+];
+
+const SECDED_8_4: HammingCode = { dataBits: 4, parityBits: 3, extended: true };
+
+const flip = (bits: string, index: number) => bits.slice(0, index) + (bits[index] === '0' ? '1' : '0') + bits.slice(index + 1);
+
+function buildCases(): SelfTestCase[] {
+  const cases: SelfTestCase[] = [];
+
+  // The additive sum of "123456789" is 0x1DD: ASCII 0x31..0x39
+  cases.push(
+    { group: 'Additive', name: '8-bit sum("123456789")', reference: 'Σ 0x31..0x39 = 0x1DD', expected: 'DD', run: () => calculateChecksum(CHECK_INPUT, HashAlgorithm.ADDITIVE, { bitWidth: 8 }) },
+    { group: 'Additive', name: '16-bit sum("123456789")', reference: 'Σ 0x31..0x39 = 0x1DD', expected: '01DD', run: () => calculateChecksum(CHECK_INPUT, HashAlgorithm.ADDITIVE, { bitWidth: 16 }) },
+    { group: 'Additive', name: '32-bit sum("123456789") init FFFFFFFF', reference: '0xFFFFFFFF + 0x1DD mod 2^32', expected: '000001DC', run: () => calculateChecksum(CHECK_INPUT, HashAlgorithm.ADDITIVE, { bitWidth: 32, initialValue: 'FFFFFFFF' }) },
+    { group: 'Additive', name: '16-bit LE word sum("123456789")', reference: '0x3231 + 0x3433 + 0x3635 + 0x3837 + 0x0039', expected: 'D509', run: () => calculateChecksum(CHECK_INPUT, HashAlgorithm.ADDITIVE, { bitWidth: 16, wordBytes: 2, bigEndian: false }) },
+    { group: 'Additive', name: 'Intel HEX record checksum', reference: 'Intel HEX :0300300002337A1E', expected: '1E', run: () => calculateChecksum(INTEL_HEX_RECORD, HashAlgorithm.ADDITIVE, { bitWidth: 8, negate: true }) },
+    {
+      group: 'Additive', name: 'Intel HEX record sums to zero', reference: 'Intel HEX: record bytes + checksum ≡ 0 mod 256', expected: '00',
+      run: () => verifyAdditiveZeroSum(INTEL_HEX_RECORD, '1E', paramsToAdditiveOptions(resolveParams(HashAlgorithm.ADDITIVE, { bitWidth: 8, negate: true }))).total
+    },
+    {
+      group: 'Additive', name: "Ones'-complement BE words, negated", reference: 'RFC 1071 §3 example (= Internet checksum)', expected: '220D',
+      run: () => calculateChecksum(Uint8Array.from([0x00, 0x01, 0xF2, 0x03, 0xF4, 0xF5, 0xF6, 0xF7]), HashAlgorithm.ADDITIVE, { bitWidth: 16, wordBytes: 2, endAroundCarry: true, negate: true })
+    },
+  );
+
+  cases.push(
+    checksumCase('Fletcher / Adler', HashAlgorithm.FLETCHER16, 'abcde', 'C8F0', 'Wikipedia: Fletcher\'s checksum'),
+    checksumCase('Fletcher / Adler', HashAlgorithm.FLETCHER16, 'abcdef', '2057', 'Wikipedia: Fletcher\'s checksum'),
+    checksumCase('Fletcher / Adler', HashAlgorithm.FLETCHER32, 'abcde', 'F04FC729', 'Wikipedia: Fletcher\'s checksum'),
+    checksumCase('Fletcher / Adler', HashAlgorithm.FLETCHER32, 'abcdef', '56502D2A', 'Wikipedia: Fletcher\'s checksum'),
+    checksumCase('Fletcher / Adler', HashAlgorithm.FLETCHER64, 'abcde', 'C8C6C527646362C6', 'Wikipedia: Fletcher\'s checksum'),
+    checksumCase('Fletcher / Adler', HashAlgorithm.ADLER32, 'Wikipedia', '11E60398', 'Wikipedia: Adler-32'),
+    {
+      group: 'Internet Checksum', name: 'RFC 1071 §3 example words', reference: 'RFC 1071 (sum DDF2)', expected: '220D',
+      run: () => calculateChecksum(Uint8Array.from([0x00, 0x01, 0xF2, 0x03, 0xF4, 0xF5, 0xF6, 0xF7]), HashAlgorithm.INTERNET)
+    },
+  );
+
+  for (const [algorithm, check] of CRC_CHECKS) {
+    cases.push(checksumCase('CRC', algorithm, '123456789', check, 'RevEng catalogue check value'));
+  }
+  for (const [name, model, check] of CUSTOM_CRC_CHECKS) {
+    cases.push({
+      group: 'CRC', name: `Custom model ${name}("123456789")`, reference: 'RevEng catalogue check value', expected: check,
+      run: () => calculateChecksum(CHECK_INPUT, HashAlgorithm.CRC_CUSTOM, { ...model })
+    });
+  }
+
+  for (const [algorithm, input, expected, reference] of DIGEST_CHECKS) {
+    cases.push(checksumCase('Digests', algorithm, input, expected, reference));
+    if (algorithm !== HashAlgorithm.BLAKE2B) {
+      // The platform path may use WebCrypto; pin the bundled implementation too
+      cases.push({ group: 'Digests', name: `${algorithm}("${input}") [JS]`, reference, expected, run: () => jsDigest(algorithm, ascii(input)) });
+    }
+  }
+  cases.push({
+    group: 'Digests', name: 'BLAKE3("")', reference: 'BLAKE3 test_vectors.json (input_len 0)',
+    expected: 'AF1349B9F5F9A1A6A0404DEA36DCC9499BCB25C9ADC112B7CC9A93CAE41F3262',
+    run: () => jsDigest(HashAlgorithm.BLAKE3, new Uint8Array(0))
+  });
+  cases.push({
+    group: 'Digests', name: 'BLAKE3(0x00)', reference: 'BLAKE3 test_vectors.json (input_len 1)',
+    expected: '2D3ADEDFF11B61F14C886E35AFA036736DCD87A74D27B5C1510225D0F592E213',
+    run: () => jsDigest(HashAlgorithm.BLAKE3, new Uint8Array(1))
+  });
+
+  const jefe = { enabled: true, algorithm: 'hmac-sha256' as const, key: 'Jefe', keyEncoding: 'utf8' as const };
+  cases.push(
+    {
+      group: 'MAC', name: 'HMAC-SHA-256 key 0x0B×20, "Hi There"', reference: 'RFC 4231 test case 1',
+      expected: 'B0344C61D8DB38535CA8AFCEAF0BF12B881DC200C9833DA726E9376C2E32CFF7',
+      run: () => hmacSha256(new Uint8Array(20).fill(0x0B), ascii('Hi There'))
+    },
+    {
+      group: 'MAC', name: 'HMAC-SHA-256 key "Jefe"', reference: 'RFC 4231 test case 2',
+      expected: '5BDCC146BF60754E6A042426089575C75A003F089D2739839DEC58B964EC3843',
+      run: () => computeMac(ascii('what do ya want for nothing?'), jefe)
+    },
+    {
+      group: 'MAC', name: 'HMAC-SHA-256 131-byte key [JS]', reference: 'RFC 4231 test case 6',
+      expected: '60E431591EE0B67F0D8A26AACBF5B77F8E0BC6213728C5140546040F0EE37F54',
+      run: () => hmacSha256(new Uint8Array(131).fill(0xAA), ascii('Test Using Larger Than Block-Size Key - Hash Key First'))
+    },
+    {
+      group: 'MAC', name: 'Keyed BLAKE2b-512 key 0x00..3F, ""', reference: 'BLAKE2 reference blake2b-kat.txt',
+      expected: '10EBB67700B1868EFB4417987ACF4690AE9D972FB7A590C2F02871799AAA4786B5E996E8F0F4EB981FC214B005F42D2FF4233499391653DF7AEFCBC13FC51568',
+      run: () => createBlake2bHasher(64, Uint8Array.from({ length: 64 }, (_, i) => i)).digest()
+    },
+  );
+
+  HAMMING_7_4_TABLE.forEach((codeword, value) => {
+    const data = value.toString(2).padStart(4, '0');
+    cases.push({ group: 'Hamming', name: `(7,4) encode ${data}`, reference: 'Wikipedia: Hamming(7,4) codeword table', expected: codeword, run: () => Hamming.encode(data, HAMMING_7_4) });
+  });
+  // Syndrome table: a flip at position p (1-based) must give syndrome p and be corrected there
+  for (let position = 1; position <= 7; position++) {
+    cases.push({
+      group: 'Hamming', name: `(7,4) syndrome for error at position ${position}`, reference: 'Hamming syndrome = error position',
+      expected: `syndrome ${position}, data 1011`,
+      run: () => {
+        const { syndrome, corrected } = Hamming.decode(flip(HAMMING_7_4_TABLE[0b1011], position - 1), HAMMING_7_4);
+        return `syndrome ${syndrome}, data ${corrected}`;
+      }
+    });
+  }
+  cases.push(
+    {
+      group: 'Hamming', name: 'SECDED (8,4) single error corrected', reference: 'SECDED: odd overall parity, non-zero syndrome',
+      expected: 'corrected 1011',
+      run: () => {
+        const { status, corrected } = Hamming.decode(flip(Hamming.encode('1011', SECDED_8_4), 5), SECDED_8_4);
+        return `${status} ${corrected}`;
+      }
+    },
+    {
+      group: 'Hamming', name: 'SECDED (8,4) double error detected', reference: 'SECDED: even overall parity, non-zero syndrome',
+      expected: 'uncorrectable',
+      run: () => Hamming.decode(flip(flip(Hamming.encode('1011', SECDED_8_4), 2), 6), SECDED_8_4).status
+    },
+  );
+
+  // Reed–Solomon has no single published byte vector for this generator, so check its guarantees
+  const rsCode = { n: 15, k: 9 };
+  const rsMessage = ascii('INTEGRITY');
+  cases.push(
+    {
+      group: 'Reed–Solomon', name: 'RS(15,9) corrects 3 symbol errors', reference: 'Capacity t = (n-k)/2',
+      expected: 'corrected INTEGRITY',
+      run: () => {
+        const received = ReedSolomon.encode(rsMessage, rsCode);
+        [0, 7, 14].forEach(i => { received[i] ^= 0x5A; });
+        const { status, corrected } = ReedSolomon.decode(received, rsCode);
+        return `${status} ${new TextDecoder().decode(corrected)}`;
+      }
+    },
+    {
+      group: 'Reed–Solomon', name: 'RS(15,9) corrects 6 erasures', reference: 'Capacity: erasures <= n-k',
+      expected: 'corrected INTEGRITY',
+      run: () => {
+        const received = ReedSolomon.encode(rsMessage, rsCode);
+        const erasures = [1, 2, 3, 9, 10, 11];
+        erasures.forEach(i => { received[i] = 0; });
+        const { status, corrected } = ReedSolomon.decode(received, rsCode, erasures);
+        return `${status} ${new TextDecoder().decode(corrected)}`;
+      }
+    },
+  );
+
+  return cases;
+}
+
+/**
+ * Runs every known-answer test. A test that throws fails with the error as its actual value.
+ */
+export async function runSelfTests(onResult?: (result: SelfTestResult) => void): Promise<SelfTestResult[]> {
+  const results: SelfTestResult[] = [];
+  for (const testCase of buildCases()) {
+    let actual: string;
+    try {
+      actual = await testCase.run();
+    } catch (e) {
+      actual = `error: ${e instanceof Error ? e.message : String(e)}`;
+    }
+    const result: SelfTestResult = {
+      group: testCase.group,
+      name: testCase.name,
+      reference: testCase.reference,
+      expected: testCase.expected,
+      actual,
+      passed: actual.toUpperCase() === testCase.expected.toUpperCase()
+    };
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+}
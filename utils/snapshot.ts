@@ -0,0 +1,130 @@
+import { AlgorithmParams, ChecksumConfig, FolderSnapshot, SnapshotDiff, SnapshotEntry } from '../types';
+import { hashFile, relativePath } from './fileUtils';
+import { hexToBytes, merkleLeaf, merkleRoot } from './merkle';
+import { hasAlgorithm, resolveParams } from './registry';
+import { runInStore } from './db';
+
+const comparePaths = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Root over the entries sorted by path; each leaf binds a path to its digest
+ * (path ‖ 0x00 ‖ digest bytes), so renames change the root as well as edits.
+ */
+export function snapshotRoot(entries: SnapshotEntry[]): string {
+  const sorted = [...entries].sort((a, b) => comparePaths(a.path, b.path));
+  return merkleRoot(sorted.map(entry => {
+    const path = new TextEncoder().encode(entry.path);
+    const digest = hexToBytes(entry.digest);
+    const leaf = new Uint8Array(path.length + 1 + digest.length);
+    leaf.set(path);
+    leaf.set(digest, path.length + 1);
+    return merkleLeaf(leaf);
+  }));
+}
+
+/**
+ * Hashes every file of a folder pick with one configuration.
+ * Progress is reported as bytes done out of the folder's total size.
+ */
+export async function scanFolder(
+  files: File[],
+  config: ChecksumConfig,
+  onProgress?: (bytesDone: number, totalBytes: number) => void
+): Promise<{ entries: SnapshotEntry[]; root: string }> {
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  const entries: SnapshotEntry[] = [];
+  let done = 0;
+  for (const file of files) {
+    const digest = await hashFile(file, config.algorithm, config.params, (bytes) => onProgress?.(done + bytes, totalBytes));
+    done += file.size;
+    onProgress?.(done, totalBytes);
+    entries.push({ path: relativePath(file), size: file.size, digest });
+  }
+  entries.sort((a, b) => comparePaths(a.path, b.path));
+  return { entries, root: snapshotRoot(entries) };
+}
+
+/**
+ * Classifies the changes from `before` to `after`. Paths present in both are
+ * unchanged or modified; of the rest, equal digests pair up as renames and
+ * whatever is left over was added or removed.
+ */
+export function diffSnapshots(before: SnapshotEntry[], after: SnapshotEntry[]): SnapshotDiff {
+  const beforeByPath = new Map(before.map(entry => [entry.path, entry]));
+  const afterPaths = new Set(after.map(entry => entry.path));
+  const diff: SnapshotDiff = { added: [], removed: [], modified: [], renamed: [], unchanged: 0, identical: false };
+
+  const onlyAfter: SnapshotEntry[] = [];
+  for (const entry of after) {
+    const previous = beforeByPath.get(entry.path);
+    if (!previous) onlyAfter.push(entry);
+    else if (previous.digest === entry.digest) diff.unchanged++;
+    else diff.modified.push({ before: previous, after: entry });
+  }
+
+  // Vanished files grouped by digest, consumed in path order as renamed targets claim them
+  const vanished = new Map<string, SnapshotEntry[]>();
+  for (const entry of before) {
+    if (afterPaths.has(entry.path)) continue;
+    vanished.set(entry.digest, [...(vanished.get(entry.digest) || []), entry]);
+  }
+  for (const entry of onlyAfter) {
+    const candidates = vanished.get(entry.digest);
+    const from = candidates?.shift();
+    if (from) diff.renamed.push({ from, to: entry });
+    else diff.added.push(entry);
+  }
+  vanished.forEach(entries => diff.removed.push(...entries));
+  diff.removed.sort((a, b) => comparePaths(a.path, b.path));
+
+  diff.identical = diff.added.length + diff.removed.length + diff.modified.length + diff.renamed.length === 0;
+  return diff;
+}
+
+export function sameConfig(snapshot: FolderSnapshot, config: ChecksumConfig): boolean {
+  const a = resolveParams(snapshot.algorithm, snapshot.params);
+  const b = resolveParams(config.algorithm, config.params);
+  return snapshot.algorithm === config.algorithm && JSON.stringify(a) === JSON.stringify(b);
+}
+
+export async function listSnapshots(): Promise<FolderSnapshot[]> {
+  const snapshots = await runInStore<FolderSnapshot[]>('snapshots', 'readonly', store => store.getAll());
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveSnapshot(snapshot: FolderSnapshot): Promise<void> {
+  await runInStore('snapshots', 'readwrite', store => store.put(snapshot));
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  await runInStore('snapshots', 'readwrite', store => store.delete(id));
+}
+
+/**
+ * Reads a snapshot exported from another machine and recomputes its root,
+ * rejecting files whose entries no longer add up to the recorded one.
+ */
+export function parseSnapshot(text: string): FolderSnapshot {
+  let raw: Partial<FolderSnapshot>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Snapshot file is not valid JSON');
+  }
+  if (typeof raw.algorithm !== 'string' || !hasAlgorithm(raw.algorithm)) throw new Error(`Snapshot uses an unknown algorithm "${String(raw.algorithm)}"`);
+  if (!Array.isArray(raw.entries) || raw.entries.some(e => typeof e?.path !== 'string' || typeof e.digest !== 'string' || !/^[0-9A-Fa-f]*$/.test(e.digest))) {
+    throw new Error('Snapshot entries are malformed');
+  }
+  const entries = raw.entries.map(e => ({ path: e.path, size: Number(e.size) || 0, digest: e.digest.toUpperCase() }));
+  const root = snapshotRoot(entries);
+  if (raw.root && raw.root.toUpperCase() !== root) throw new Error('Snapshot root does not match its entries; the file was altered');
+  return {
+    id: Math.random().toString(36),
+    name: typeof raw.name === 'string' && raw.name ? raw.name : 'Imported snapshot',
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+    algorithm: raw.algorithm,
+    params: resolveParams(raw.algorithm, (raw.params || {}) as AlgorithmParams),
+    root,
+    entries,
+  };
+}
@@ -0,0 +1,169 @@
+import { HashAlgorithm, AdditiveOptions, FletcherOptions, InternetChecksumOptions } from '../types';
+import type { Hasher } from './hashUtils';
+
+// Arithmetic checksums: the plain additive sum, the Fletcher/Adler family and
+// the RFC 1071 Internet checksum. Parameters are declared in utils/registry.ts.
+
+function additiveRegister(bitWidth: AdditiveOptions['bitWidth']): { mask: number; pad: number } {
+  if (bitWidth === 8) return { mask: 0xFF, pad: 2 };
+  if (bitWidth === 32) return { mask: 0xFFFFFFFF, pad: 8 };
+  return { mask: 0xFFFF, pad: 4 };
+}
+
+/**
+ * Reduces a running total into the register: two's complement drops the
+ * carries, ones' complement adds them back in (end-around carry).
+ */
+export function foldAdditive(total: number, bitWidth: AdditiveOptions['bitWidth'], endAroundCarry: boolean): number {
+  const base = 2 ** bitWidth;
+  if (!endAroundCarry) return total % base;
+  while (total >= base) total = (total % base) + Math.floor(total / base);
+  return total;
+}
+
+/**
+ * Turns the register into the transmitted value: optional negation in the
+ * register's arithmetic, then the final XOR.
+ */
+export function finishAdditive(sum: number, options: AdditiveOptions): number {
+  const { mask } = additiveRegister(options.bitWidth);
+  let value = sum;
+  // ~x is the ones'-complement negative; two's complement also adds one
+  if (options.negate) value = options.endAroundCarry ? mask - sum : (mask + 1 - sum) % (mask + 1);
+  return ((value ^ options.finalXor) & mask) >>> 0;
+}
+
+/**
+ * Inverse of finishAdditive: the register sum behind a transmitted value.
+ */
+export function unfinishAdditive(value: number, options: AdditiveOptions): number {
+  const { mask } = additiveRegister(options.bitWidth);
+  const sum = ((value ^ options.finalXor) & mask) >>> 0;
+  if (!options.negate) return sum;
+  return options.endAroundCarry ? mask - sum : (mask + 1 - sum) % (mask + 1);
+}
+
+export function createAdditiveHasher(options: AdditiveOptions): Hasher {
+  const { mask, pad } = additiveRegister(options.bitWidth);
+  const { bitWidth, wordBytes, bigEndian, endAroundCarry } = options;
+  // Place value of each byte within a word
+  const weights = Array.from({ length: wordBytes }, (_, i) => 2 ** (8 * (bigEndian ? wordBytes - 1 - i : i)));
+  // The register is wrapped after every chunk so the running sum never loses precision
+  let sum = (options.initialValue & mask) >>> 0;
+  // Bytes of a word split across two update() calls wait here
+  let partial = 0;
+  let partialBytes = 0;
+  return {
+    update: (bytes) => {
+      let acc = sum;
+      if (wordBytes === 1) {
+        for (let i = 0; i < bytes.length; i++) acc += bytes[i];
+      } else {
+        for (let i = 0; i < bytes.length; i++) {
+          partial += bytes[i] * weights[partialBytes];
+          if (++partialBytes < wordBytes) continue;
+          acc += partial;
+          partial = 0;
+          partialBytes = 0;
+          if (acc > Number.MAX_SAFE_INTEGER / 2) acc = foldAdditive(acc, bitWidth, endAroundCarry);
+        }
+      }
+      sum = foldAdditive(acc, bitWidth, endAroundCarry);
+    },
+    digest: () => {
+      // A trailing partial word is zero-padded without disturbing the running state
+      const total = partialBytes > 0 ? foldAdditive(sum + partial, bitWidth, endAroundCarry) : sum;
+      return finishAdditive(total, options).toString(16).toUpperCase().padStart(pad, '0');
+    }
+  };
+}
+
+/**
+ * Sum-to-zero check for negated sums: the receiver adds the checksum to the
+ * data and expects zero (either zero, under ones' complement).
+ */
+export function verifyAdditiveZeroSum(bytes: Uint8Array, checksum: string, options: AdditiveOptions): { total: string; ok: boolean } {
+  if (!/^[0-9A-Fa-f]+$/.test(checksum)) throw new Error('The checksum must be a hexadecimal value');
+  const { mask, pad } = additiveRegister(options.bitWidth);
+  const hasher = createAdditiveHasher({ ...options, negate: false, finalXor: 0 });
+  hasher.update(bytes);
+  const received = ((parseInt(checksum, 16) ^ options.finalXor) & mask) >>> 0;
+  const total = foldAdditive(parseInt(hasher.digest(), 16) + received, options.bitWidth, options.endAroundCarry);
+  return {
+    total: total.toString(16).toUpperCase().padStart(pad, '0'),
+    ok: total === 0 || (options.endAroundCarry && total === mask),
+  };
+}
+
+/**
+ * Fletcher sums words of `wordBytes` (little-endian) modulo 2^(8*wordBytes)-1;
+ * Adler-32 is the byte-wise variant modulo the prime 65521.
+ */
+export const FLETCHER_VARIANTS: Partial<Record<HashAlgorithm, { wordBytes: 1 | 2 | 4; modulus: number; halfDigits: number }>> = {
+  [HashAlgorithm.FLETCHER16]: { wordBytes: 1, modulus: 0xFF, halfDigits: 2 },
+  [HashAlgorithm.FLETCHER32]: { wordBytes: 2, modulus: 0xFFFF, halfDigits: 4 },
+  [HashAlgorithm.FLETCHER64]: { wordBytes: 4, modulus: 0xFFFFFFFF, halfDigits: 8 },
+  [HashAlgorithm.ADLER32]: { wordBytes: 1, modulus: 65521, halfDigits: 4 },
+};
+
+export function createFletcherHasher(algorithm: HashAlgorithm, options: FletcherOptions): Hasher {
+  const { wordBytes, modulus, halfDigits } = FLETCHER_VARIANTS[algorithm]!;
+  let a = options.initialA % modulus;
+  let b = options.initialB % modulus;
+  // Bytes of a word split across two update() calls wait here
+  let partial = 0;
+  let partialBytes = 0;
+
+  const fold = (sumA: number, sumB: number, word: number): [number, number] => {
+    const nextA = (sumA + word) % modulus;
+    return [nextA, (sumB + nextA) % modulus];
+  };
+
+  return {
+    update: (bytes) => {
+      for (let i = 0; i < bytes.length; i++) {
+        partial += bytes[i] * 2 ** (8 * partialBytes);
+        if (++partialBytes < wordBytes) continue;
+        [a, b] = fold(a, b, partial);
+        partial = 0;
+        partialBytes = 0;
+      }
+    },
+    digest: () => {
+      // A trailing partial word is zero-padded without disturbing the running state
+      const [finalA, finalB] = partialBytes > 0 ? fold(a, b, partial) : [a, b];
+      return (finalB.toString(16).padStart(halfDigits, '0') + finalA.toString(16).padStart(halfDigits, '0')).toUpperCase();
+    }
+  };
+}
+
+/**
+ * RFC 1071: ones'-complement sum of big-endian 16-bit words with end-around carry.
+ */
+export function createInternetChecksumHasher(options: InternetChecksumOptions): Hasher {
+  let sum = options.initialValue & 0xFFFF;
+  let oddByte: number | null = null;
+
+  const addWord = (acc: number, word: number) => {
+    const total = acc + word;
+    return (total & 0xFFFF) + (total >>> 16);
+  };
+
+  return {
+    update: (bytes) => {
+      let i = 0;
+      if (oddByte !== null && bytes.length > 0) {
+        sum = addWord(sum, (oddByte << 8) | bytes[0]);
+        oddByte = null;
+        i = 1;
+      }
+      for (; i + 1 < bytes.length; i += 2) sum = addWord(sum, (bytes[i] << 8) | bytes[i + 1]);
+      if (i < bytes.length) oddByte = bytes[i];
+    },
+    digest: () => {
+      const total = oddByte !== null ? addWord(sum, oddByte << 8) : sum;
+      const result = options.complement ? ~total & 0xFFFF : total;
+      return result.toString(16).toUpperCase().padStart(4, '0');
+    }
+  };
+}
@@ -0,0 +1,241 @@
+import { AlgorithmParams, ChecksumConfig, ChecksumTrace, HashAlgorithm, TraceStep } from '../types';
+import { createHasher } from './hashUtils';
+import { getAlgorithm, paramsToAdditiveOptions, paramsToCrcOptions, resolveParams } from './registry';
+import { FLETCHER_VARIANTS, finishAdditive, foldAdditive } from './sums';
+import { parseHexParam, reflect } from './crc';
+import { toHex, traceMdDigest } from './digests';
+
+// Every step is rendered, so long payloads are traced over their opening bytes only
+export const MAX_TRACE_BYTES = 256;
+
+const hex = (value: number | bigint, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+const hexParam = (params: AlgorithmParams, key: string) => parseInt(String(params[key] || '0'), 16) || 0;
+
+type Trace = Omit<ChecksumTrace, 'tracedBytes'>;
+
+function traceAdditive(bytes: Uint8Array, params: AlgorithmParams): Trace {
+  const options = paramsToAdditiveOptions(params);
+  const { bitWidth: width, wordBytes, bigEndian, endAroundCarry } = options;
+  const digits = width / 4;
+  const mask = 2 ** width - 1;
+  const initial = options.initialValue;
+  let sum = initial % 2 ** width;
+  const start = {
+    value: hex(sum, digits),
+    note: initial > mask ? `initialValue ${hex(initial, 1)} masked to ${width} bits` : `initialValue ${hex(initial, digits)}`,
+  };
+  const steps: TraceStep[] = [];
+  for (let offset = 0; offset < bytes.length; offset += wordBytes) {
+    // A short final word is zero-padded
+    let word = 0;
+    for (let i = 0; i < wordBytes; i++) word += (bytes[offset + i] ?? 0) * 2 ** (8 * (bigEndian ? wordBytes - 1 - i : i));
+    const padded = offset + wordBytes > bytes.length;
+    const before = sum;
+    const raw = before + word;
+    sum = foldAdditive(raw, width, endAroundCarry);
+    const wrapped = raw > mask;
+    steps.push({
+      offset,
+      input: hex(word, wordBytes * 2),
+      before: hex(before, digits),
+      after: hex(sum, digits),
+      wrapped,
+      detail: [
+        `${hex(before, digits)} + ${hex(word, wordBytes * 2)}${padded ? ' (last word padded with 00)' : ''} = ${hex(raw, digits)}`,
+        ...(wrapped
+          ? [endAroundCarry
+            ? `end-around carry: the overflow above bit ${width - 1} is added back in → ${hex(sum, digits)}`
+            : `& ${hex(mask, digits)}: carry out of bit ${width - 1} is dropped → ${hex(sum, digits)}`]
+          : []),
+      ],
+    });
+  }
+  const finish: Trace['finish'] = [];
+  if (options.negate) {
+    const negated = finishAdditive(sum, { ...options, finalXor: 0 });
+    finish.push({
+      value: hex(negated, digits),
+      note: endAroundCarry ? `ones' complement negation: ~${hex(sum, digits)}` : `two's complement negation: −${hex(sum, digits)} mod 2^${width}`,
+    });
+  }
+  const result = finishAdditive(sum, options);
+  if (options.finalXor & mask) finish.push({ value: hex(result, digits), note: `xor ${hex(options.finalXor & mask, digits)}` });
+  return { start, steps, finish, result: hex(result, digits) };
+}
+
+function traceInternet(bytes: Uint8Array, params: AlgorithmParams): Trace {
+  let sum = hexParam(params, 'initialValue') & 0xFFFF;
+  const start = { value: hex(sum, 4), note: `initial sum ${hex(sum, 4)}` };
+  const steps: TraceStep[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 2) {
+    const odd = offset + 1 >= bytes.length;
+    const word = (bytes[offset] << 8) | (odd ? 0 : bytes[offset + 1]);
+    const before = sum;
+    const raw = before + word;
+    sum = (raw & 0xFFFF) + (raw >>> 16);
+    const wrapped = raw > 0xFFFF;
+    steps.push({
+      offset,
+      input: hex(word, 4),
+      before: hex(before, 4),
+      after: hex(sum, 4),
+      wrapped,
+      detail: [
+        `${hex(before, 4)} + ${hex(word, 4)}${odd ? ' (last byte padded with 00)' : ''} = ${hex(raw, 5)}`,
+        ...(wrapped ? [`end-around carry: ${hex(raw & 0xFFFF, 4)} + 1 = ${hex(sum, 4)}`] : []),
+      ],
+    });
+  }
+  const complement = Boolean(params.complement);
+  const result = complement ? ~sum & 0xFFFF : sum;
+  return {
+    start,
+    steps,
+    finish: complement ? [{ value: hex(result, 4), note: `ones' complement: ~${hex(sum, 4)}` }] : [],
+    result: hex(result, 4),
+  };
+}
+
+function traceFletcher(bytes: Uint8Array, algorithm: HashAlgorithm, params: AlgorithmParams): Trace {
+  const { wordBytes, modulus, halfDigits } = FLETCHER_VARIANTS[algorithm]!;
+  let a = hexParam(params, 'initialA') % modulus;
+  let b = hexParam(params, 'initialB') % modulus;
+  const pair = (sumA: number, sumB: number) => `A=${hex(sumA, halfDigits)} B=${hex(sumB, halfDigits)}`;
+  const start = { value: pair(a, b), note: `sums start at A=${hex(a, 1)}, B=${hex(b, 1)}; both reduce mod ${hex(modulus, 1)}` };
+  const steps: TraceStep[] = [];
+  for (let offset = 0; offset < bytes.length; offset += wordBytes) {
+    // Little-endian words; a short final word is zero-padded
+    let word = 0;
+    for (let i = 0; i < wordBytes; i++) word += (bytes[offset + i] ?? 0) * 2 ** (8 * i);
+    const before = pair(a, b);
+    const rawA = a + word;
+    a = rawA % modulus;
+    const rawB = b + a;
+    b = rawB % modulus;
+    steps.push({
+      offset,
+      input: hex(word, wordBytes * 2),
+      before,
+      after: pair(a, b),
+      wrapped: rawA >= modulus || rawB >= modulus,
+      detail: [
+        `A = ${hex(rawA - word, 1)} + ${hex(word, 1)} = ${hex(rawA, 1)}${rawA >= modulus ? ` mod ${hex(modulus, 1)} = ${hex(a, 1)}` : ''}`,
+        `B = ${hex(rawB - a, 1)} + A = ${hex(rawB, 1)}${rawB >= modulus ? ` mod ${hex(modulus, 1)} = ${hex(b, 1)}` : ''}`,
+      ],
+    });
+  }
+  const result = hex(b, halfDigits) + hex(a, halfDigits);
+  return { start, steps, finish: [{ value: result, note: 'value = B ‖ A' }], result };
+}
+
+/**
+ * Bit-serial CRC, one shift per input bit, equivalent to the table-driven
+ * hasher in utils/crc.ts. Reflected models run the register LSB-first.
+ */
+function traceCrc(bytes: Uint8Array, params: AlgorithmParams): Trace {
+  const options = paramsToCrcOptions(params);
+  const width = Math.min(64, Math.max(1, Math.floor(options.width)));
+  const bigWidth = BigInt(width);
+  const mask = (1n << bigWidth) - 1n;
+  const digits = Math.ceil(width / 4);
+  const poly = parseHexParam(options.poly) & mask;
+  const init = parseHexParam(options.init) & mask;
+  const xorout = parseHexParam(options.xorout) & mask;
+  const feedbackPoly = options.refin ? reflect(poly, width) : poly;
+  let register = options.refin ? reflect(init, width) : init;
+  const start = {
+    value: hex(register, digits),
+    note: options.refin
+      ? `init ${hex(init, digits)} bit-reversed (refin): the register shifts right and XORs the reflected poly ${hex(feedbackPoly, digits)}`
+      : `init ${hex(init, digits)}: the register shifts left and XORs poly ${hex(poly, digits)}`,
+  };
+
+  const steps: TraceStep[] = Array.from(bytes, (byte, offset) => {
+    const before = register;
+    const detail: string[] = [];
+    let wrapped = false;
+    for (let i = 0; i < 8; i++) {
+      // refin feeds each byte LSB first, otherwise MSB first
+      const bit = options.refin ? (byte >> i) & 1 : (byte >> (7 - i)) & 1;
+      const out = options.refin ? Number(register & 1n) : Number((register >> (bigWidth - 1n)) & 1n);
+      const feedback = out ^ bit;
+      register = options.refin ? register >> 1n : (register << 1n) & mask;
+      if (feedback) register ^= feedbackPoly;
+      wrapped ||= feedback === 1;
+      detail.push(`in ${bit}, out ${out}: feedback ${out} ⊕ ${bit} = ${feedback} → ${feedback ? 'shift ⊕ poly' : 'shift'} = ${hex(register, digits)}`);
+    }
+    return { offset, input: hex(byte, 2), before: hex(before, digits), after: hex(register, digits), wrapped, detail };
+  });
+
+  const finish: ChecksumTrace['finish'] = [];
+  let crc = register;
+  if (options.refin !== options.refout) {
+    crc = reflect(crc, width);
+    finish.push({ value: hex(crc, digits), note: `refout ≠ refin: reflect the register` });
+  }
+  if (xorout) {
+    crc ^= xorout;
+    finish.push({ value: hex(crc, digits), note: `XOR with xorout ${hex(xorout, digits)}` });
+  }
+  return { start, steps, finish, result: hex(crc, digits) };
+}
+
+function traceMd(bytes: Uint8Array, algorithm: HashAlgorithm): Trace {
+  const { blockSize, padded, states, digest } = traceMdDigest(algorithm, bytes);
+  const steps: TraceStep[] = [];
+  for (let offset = 0, i = 0; offset < padded.length; offset += blockSize, i++) {
+    const block = padded.subarray(offset, offset + blockSize);
+    const padding = Math.max(0, Math.min(blockSize, offset + blockSize - bytes.length));
+    steps.push({
+      offset,
+      input: toHex(block),
+      before: states[i],
+      after: states[i + 1],
+      wrapped: false,
+      detail: [
+        `compression function mixes ${blockSize} bytes into the chaining state (32-bit additions wrap mod 2^32)`,
+        ...(padding ? [`last ${padding} bytes are padding: 0x80, zeros, then the message length in bits`] : []),
+      ],
+    });
+  }
+  return {
+    start: { value: states[0], note: 'fixed initial chaining value from the standard' },
+    steps,
+    finish: [{ value: digest, note: 'digest = chaining state after the last block' }],
+    result: digest,
+  };
+}
+
+// Algorithms without an exposed internal state are traced block by block only
+function traceOpaque(bytes: Uint8Array, config: ChecksumConfig, blockSize: number): Trace {
+  const name = getAlgorithm(config.algorithm).name;
+  const steps: TraceStep[] = [];
+  for (let offset = 0; offset < bytes.length; offset += blockSize) {
+    const block = bytes.subarray(offset, offset + blockSize);
+    steps.push({ offset, input: toHex(block), before: '', after: '', wrapped: false, detail: [`${block.length} bytes absorbed into ${name}'s internal state`] });
+  }
+  const hasher = createHasher(config.algorithm, config.params);
+  hasher.update(bytes);
+  const result = hasher.digest();
+  return { start: { value: '', note: `${name} does not expose its internal state` }, steps, finish: [], result };
+}
+
+/**
+ * Replays a checksum over the first MAX_TRACE_BYTES of a payload one byte,
+ * word or block at a time, recording the accumulator around every step.
+ */
+export function traceChecksum(payload: Uint8Array, config: ChecksumConfig): ChecksumTrace {
+  const algorithm = getAlgorithm(config.algorithm);
+  const params = resolveParams(config.algorithm, config.params);
+  const bytes = payload.subarray(0, MAX_TRACE_BYTES);
+  const tracedBytes = payload.length > MAX_TRACE_BYTES ? MAX_TRACE_BYTES : null;
+  const id = config.algorithm as HashAlgorithm;
+  let trace: Trace;
+  if (id === HashAlgorithm.ADDITIVE) trace = traceAdditive(bytes, params);
+  else if (id === HashAlgorithm.INTERNET) trace = traceInternet(bytes, params);
+  else if (FLETCHER_VARIANTS[id]) trace = traceFletcher(bytes, id, params);
+  else if (algorithm.family === 'CRC') trace = traceCrc(bytes, params);
+  else if ([HashAlgorithm.MD5, HashAlgorithm.SHA1, HashAlgorithm.SHA256, HashAlgorithm.SHA384, HashAlgorithm.SHA512].includes(id)) trace = traceMd(bytes, id);
+  else trace = traceOpaque(bytes, config, id === HashAlgorithm.BLAKE2B ? 128 : 64);
+  return { ...trace, tracedBytes };
+}